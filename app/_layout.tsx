@@ -7,8 +7,10 @@ import { KeyboardProvider } from 'react-native-keyboard-controller';
 import { StyleSheet, View, Text, Linking } from 'react-native';
 import { ThemeProvider, useTheme } from '../components/ThemeProvider';
 import { ErrorBoundary } from '../components/ErrorBoundary';
+import DraftRecovery from '../components/DraftRecovery';
 import { FileSystemService } from '@/services/FileSystemService';
 import { router } from 'expo-router';
+import { parseDate } from '@/services/DailyNotes';
 
 function AppContent() {
   const { isDark, colors } = useTheme();
@@ -21,9 +23,13 @@ function AppContent() {
           <Stack.Screen name="index" options={{ headerShown: false }} />
           <Stack.Screen name="editor" options={{ headerShown: false }} />
           <Stack.Screen name="settings" options={{ headerShown: false }} />
+          <Stack.Screen name="tasks" options={{ headerShown: false }} />
+          <Stack.Screen name="tags" options={{ headerShown: false }} />
+          <Stack.Screen name="trash" options={{ headerShown: false }} />
           <Stack.Screen name="+not-found" />
         </Stack>
         <StatusBar style={isDark ? "light" : "dark"} />
+        <DraftRecovery />
       </SafeAreaProvider>
     </KeyboardProvider>
   );
@@ -41,6 +47,9 @@ export default function RootLayout() {
         const fileSystemService = FileSystemService.getInstance();
         
         await fileSystemService.loadDirectoryPreference();
+
+        // Purge old trash in the background, it doesn't need to block startup
+        fileSystemService.purgeExpiredTrash();
         
         // Check if welcome is completed
         const welcomeCompleted = await fileSystemService.getWelcomeCompleted();
@@ -78,14 +87,37 @@ export default function RootLayout() {
             params: { mode, noteId, folderPath: folderPath || '' }
           });
         } else if (mode === 'create') {
+          // An optional vault path of a template note to start from
+          const template = searchParams.get('template');
           const routerMethod = usePush ? router.push : router.replace;
           routerMethod({
             pathname: '/editor',
-            params: { mode: 'create', folderPath: folderPath || '' }
+            params: { mode: 'create', folderPath: folderPath || '', ...(template ? { template } : {}) }
           });
         }
       }
       
+      // Handle daily note deep links, opening today's note unless a date is given
+      // Format: linknotes://daily?date=2024-01-31
+      else if (path === 'daily') {
+        const dateParam = searchParams.get('date');
+        const date = dateParam ? parseDate(dateParam, 'YYYY-MM-DD') : new Date();
+        if (!date) {
+          console.warn('Invalid daily note date in deep link:', dateParam);
+          return;
+        }
+
+        FileSystemService.getInstance().getOrCreateDailyNote(date)
+          .then(location => {
+            const routerMethod = usePush ? router.push : router.replace;
+            routerMethod({
+              pathname: '/editor',
+              params: { mode: 'edit', noteId: location.filename, folderPath: location.folderPath }
+            });
+          })
+          .catch(error => console.error('Error opening daily note from deep link:', error));
+      }
+      
       // Handle settings deep links
       // Format: linknotes://settings?showToast=true&message=Your%20message
       else if (path === 'settings') {
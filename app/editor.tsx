@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -9,10 +9,11 @@ import {
   TextInput,
   BackHandler,
   Platform,
+  AppState,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
-import { ArrowLeft, Trash2, Save, Eye, EyeOff } from 'lucide-react-native';
+import { ArrowLeft, Trash2, Save, Eye, EyeOff, History, ChevronLeft, ChevronRight } from 'lucide-react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import { HapticsService } from '@/services/HapticsService';
 import { useTheme } from '@/components/ThemeProvider';
@@ -20,17 +21,54 @@ import {
   KeyboardAwareScrollView,
   useKeyboardAnimation,
   KeyboardController,
+  KeyboardStickyView,
   AndroidSoftInputModes
 } from 'react-native-keyboard-controller';
-import MarkdownEditor from '@/components/MarkdownEditor';
-import { Note } from '@/types/Note';
-import { FileSystemService } from '@/services/FileSystemService';
+import MarkdownEditor, { MarkdownEditorHandle } from '@/components/MarkdownEditor';
+import FormattingToolbar from '@/components/FormattingToolbar';
+import WikilinkSuggestions from '@/components/WikilinkSuggestions';
+import BacklinksPanel from '@/components/BacklinksPanel';
+import PropertiesPanel from '@/components/PropertiesPanel';
+import LinkUpdateModal from '@/components/LinkUpdateModal';
+import HistoryModal from '@/components/HistoryModal';
+import { useLinkUpdatePrompt } from '@/hooks/useLinkUpdatePrompt';
+import { Note, PropertyValue } from '@/types/Note';
+import { Backlink, LinkRewrite, LinkSuggestion } from '@/types/Link';
+import { NoteLocation } from '@/types/FileSystemItem';
+import { ToolbarSettings } from '@/types/Editor';
+import { FileSystemService, NoteConflictError } from '@/services/FileSystemService';
+import { mergeLines } from '@/services/TextDiff';
+import { suggestHeadings, suggestNotes } from '@/services/LinkSuggestions';
+import {
+  extractHeadings,
+  findAnchorLine,
+  getLineOffset,
+  linkifyTasks,
+  linkifyWikilinks,
+  parseWikilinkTarget,
+  TASK_URL_SCHEME,
+  toggleTaskAtLine,
+  WIKILINK_URL_SCHEME,
+} from '@/services/NoteParser';
+import {
+  parseFrontmatter,
+  removeProperty,
+  replaceBody,
+  setCreatedDate,
+  setProperty,
+  splitFrontmatter,
+  stripFrontmatter,
+} from '@/services/Frontmatter';
+import { buildVaultPath } from '@/services/VaultPath';
+import { formatDate, startOfDay } from '@/services/DailyNotes';
 import { SPACING } from '@/theme';
 import Markdown from 'react-native-markdown-display';
 
+const DRAFT_JOURNAL_DELAY_MS = 2000;
+
 export default function EditorScreen() {
   const params = useLocalSearchParams();
-  const { mode, noteId, folderPath } = params;
+  const { mode, noteId, folderPath, line, title, heading, block, draft, template } = params;
   
   const [note, setNote] = useState<Note | null>(null);
   const [content, setContent] = useState('');
@@ -38,35 +76,250 @@ export default function EditorScreen() {
   const [isLoading, setIsLoading] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [autoSaveOnExit, setAutoSaveOnExit] = useState(false);
+  const [autoSaveDelaySeconds, setAutoSaveDelaySeconds] = useState(0);
+  const [autoSaveStatus, setAutoSaveStatus] = useState<'idle' | 'saving' | 'error'>('idle');
   const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [cursorPosition, setCursorPosition] = useState<number | undefined>(undefined);
+  const [backlinksRefreshKey, setBacklinksRefreshKey] = useState(0);
+  const { linkUpdatePrompt, confirmLinkUpdates, resolveLinkUpdate } = useLinkUpdatePrompt();
+  const [showHistory, setShowHistory] = useState(false);
+  const [toolbarSettings, setToolbarSettings] = useState<ToolbarSettings | null>(null);
+  const [isEditorFocused, setIsEditorFocused] = useState(false);
+  const editorRef = useRef<MarkdownEditorHandle>(null);
+  const [wikilinkQuery, setWikilinkQuery] = useState<string | null>(null);
+  const [linkSuggestions, setLinkSuggestions] = useState<LinkSuggestion[]>([]);
+  // Set when the open note is a daily note, with the closest daily notes on either side
+  const [dailyNote, setDailyNote] = useState<{ date: Date; previous: NoteLocation | null; next: NoteLocation | null } | null>(null);
+  // Unsaved edits are journaled under this key so they survive the app being killed
+  const draftKey = useRef(
+    (draft as string) || (mode === 'edit' && noteId ? buildVaultPath(noteId as string, folderPath as string) : `new/${Date.now()}`)
+  );
+  const hasDraft = useRef(false);
+  const journalDraftRef = useRef<() => void>(() => {});
+  // Saves, background or explicit, run one at a time against the latest edits rather than a stale render
+  const latestEdit = useRef({ content, noteTitle, note, hasUnsavedChanges });
+  latestEdit.current = { content, noteTitle, note, hasUnsavedChanges };
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const resolvingConflict = useRef(false);
+  const reloadIfChangedRef = useRef<() => void>(() => {});
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
 
   const fileSystemService = FileSystemService.getInstance();
+
+  // Frontmatter is edited through the properties panel, so the text editor only sees the body
+  const body = useMemo(() => splitFrontmatter(content).body, [content]);
+  const properties = useMemo(() => parseFrontmatter(content), [content]);
+  const showToolbar = Boolean(toolbarSettings?.enabled && toolbarSettings.actions.length > 0);
+
   useEffect(() => {
     if (mode === 'edit' && noteId) {
       // Validate noteId exists before attempting to load
-      loadNote(noteId as string);
+      loadNote(noteId as string).then(() => {
+        if (draft) return loadDraft(draft as string);
+      });
+      loadDailyNoteNavigation(noteId as string);
     } else if (mode === 'create') {
-      // Initialize with empty content for new note
+      // Initialize with empty content for new note, optionally titled by a wikilink
       setContent('');
-      setNoteTitle('');
+      setNoteTitle((title as string) || '');
       setHasUnsavedChanges(true);
+      if (draft) {
+        loadDraft(draft as string);
+      } else {
+        loadTemplate();
+      }
     }
     
-    // Load auto-save preference
+    // Load auto-save and toolbar preferences
     loadAutoSavePreference();
+    loadToolbarSettings();
   }, [mode, noteId, folderPath]);
 
   const loadAutoSavePreference = async () => {
     try {
       const autoSave = await fileSystemService.getAutoSaveOnExit();
       setAutoSaveOnExit(autoSave);
+      setAutoSaveDelaySeconds(await fileSystemService.getAutoSaveDelaySeconds());
     } catch (error) {
       console.error('Error loading auto-save preference:', error);
     }
   };
 
+  // Suggest notes, or headings after a #, for the wikilink being typed
+  useEffect(() => {
+    if (wikilinkQuery === null) {
+      setLinkSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    loadLinkSuggestions(wikilinkQuery).then(suggestions => {
+      if (!cancelled) setLinkSuggestions(suggestions);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [wikilinkQuery]);
+
+  const loadLinkSuggestions = async (query: string): Promise<LinkSuggestion[]> => {
+    try {
+      const hashIndex = query.indexOf('#');
+      if (hashIndex >= 0) {
+        const target = query.substring(0, hashIndex).trim();
+        const headingQuery = query.substring(hashIndex + 1);
+        // [[#Heading]] links to a heading in this note
+        if (!target) {
+          return suggestHeadings('', extractHeadings(body), headingQuery);
+        }
+        const location = await fileSystemService.resolveWikilink(target, folderPath as string);
+        return location
+          ? suggestHeadings(target, await fileSystemService.getNoteHeadings(location.path), headingQuery)
+          : [];
+      }
+
+      const currentPath = note ? buildVaultPath(note.filename, folderPath as string) : null;
+      const titles = (await fileSystemService.getNoteTitles()).filter(title => title.path !== currentPath);
+      return suggestNotes(titles, await fileSystemService.getRecentNotes(), query);
+    } catch (error) {
+      console.error('Error loading link suggestions:', error);
+      return [];
+    }
+  };
+
+  const loadToolbarSettings = async () => {
+    try {
+      setToolbarSettings(await fileSystemService.getToolbarSettings());
+    } catch (error) {
+      console.error('Error loading toolbar preference:', error);
+    }
+  };
+
+  const journalDraft = async () => {
+    // Set before writing so a save that lands meanwhile still clears this draft
+    hasDraft.current = true;
+    try {
+      await fileSystemService.saveDraft({
+        key: draftKey.current,
+        filename: note?.filename || null,
+        folderPath: (folderPath as string) || '',
+        title: noteTitle,
+        content,
+      });
+    } catch (error) {
+      console.error('Error saving draft:', error);
+    }
+  };
+  journalDraftRef.current = () => {
+    if (hasUnsavedChanges && (content.trim() || noteTitle.trim())) {
+      journalDraft();
+    }
+  };
+
+  // Journal unsaved changes shortly after typing stops, and drop the draft once saved
+  useEffect(() => {
+    if (!hasUnsavedChanges) {
+      if (hasDraft.current) {
+        hasDraft.current = false;
+        fileSystemService.clearDraft(draftKey.current);
+      }
+      return;
+    }
+
+    const timeout = setTimeout(() => journalDraftRef.current(), DRAFT_JOURNAL_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [content, noteTitle, hasUnsavedChanges]);
+
+  // The app can be killed at any point once it is in the background, so journal right away
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') {
+        journalDraftRef.current();
+      } else {
+        reloadIfChangedRef.current();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      // Leaving the editor either saved or deliberately discarded the changes
+      if (hasDraft.current) {
+        fileSystemService.clearDraft(draftKey.current);
+      }
+    };
+  }, []);
+
+  // Save in the background once typing stops for the configured delay
+  useEffect(() => {
+    if (autoSaveDelaySeconds <= 0 || !hasUnsavedChanges) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      enqueueSave(autoSaveNote);
+    }, autoSaveDelaySeconds * 1000);
+    return () => clearTimeout(timeout);
+  }, [content, noteTitle, hasUnsavedChanges, autoSaveDelaySeconds]);
+
+  // Pick up edits made outside the app, like a sync, whenever there's nothing local to lose
+  reloadIfChangedRef.current = async () => {
+    if (!note || hasUnsavedChanges) return;
+    const diskNote = await fileSystemService.getExternalChange(note, folderPath as string);
+    if (diskNote && !latestEdit.current.hasUnsavedChanges) {
+      showDiskVersion(diskNote);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      reloadIfChangedRef.current();
+    }, [])
+  );
+
+  const loadDraft = async (key: string) => {
+    try {
+      const savedDraft = (await fileSystemService.getDrafts()).find(item => item.key === key);
+      if (savedDraft) {
+        setContent(savedDraft.content);
+        setNoteTitle(savedDraft.title);
+        setHasUnsavedChanges(true);
+        hasDraft.current = true;
+      }
+    } catch (error) {
+      console.error('Error loading draft:', error);
+    }
+  };
+
+  // Start a new note from the picked template, or the folder's default one
+  const loadTemplate = async () => {
+    try {
+      const targetFolder = (folderPath as string) || '';
+      const templatePath = (template as string) || await fileSystemService.getFolderTemplate(targetFolder);
+      if (!templatePath) {
+        return;
+      }
+
+      const rendered = await fileSystemService.renderNoteTemplate(templatePath, {
+        date: new Date(),
+        title: (title as string) || '',
+        folderPath: targetFolder,
+      });
+      if (!rendered) {
+        return;
+      }
+
+      setContent(rendered.content);
+      if (rendered.cursor !== null) {
+        const bodyCursor = rendered.cursor - splitFrontmatter(rendered.content).bodyOffset;
+        if (bodyCursor >= 0) {
+          setCursorPosition(bodyCursor);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading template:', error);
+    }
+  };
+
   // Handle hardware back button on Android and keyboard settings
   useFocusEffect(
     useCallback(() => {
@@ -101,7 +354,16 @@ export default function EditorScreen() {
       if (loadedNote) {
         setNote(loadedNote);
         setContent(loadedNote.content);
-        setNoteTitle(formatFilenameAsTitle(loadedNote.filename));      } else {
+        setNoteTitle(formatFilenameAsTitle(loadedNote.filename));
+        // Jump to a specific line when opened from search results or a heading/block link
+        const targetLine = line !== undefined && !isNaN(Number(line))
+          ? Number(line)
+          : findAnchorLine(loadedNote.content, { heading: heading as string, blockId: block as string });
+        if (targetLine >= 0) {
+          setCursorPosition(getBodyOffsetForLine(loadedNote.content, targetLine));
+        }
+        fileSystemService.addRecentNote(buildVaultPath(id, folderPath as string));
+      } else {
         // Enhanced error message for better user experience from Quick Settings Tile
         Alert.alert(
           'Note Not Found',
@@ -127,11 +389,56 @@ export default function EditorScreen() {
     }
   };
 
+  const loadDailyNoteNavigation = async (id: string) => {
+    try {
+      const date = await fileSystemService.getDailyNoteDate(id, folderPath as string);
+      setDailyNote(date ? { date, ...(await fileSystemService.getAdjacentDailyNotes(date)) } : null);
+    } catch (error) {
+      console.error('Error loading daily note navigation:', error);
+    }
+  };
+
+  // Switch to another day's note in place, so stepping through days doesn't grow the back stack
+  // Today's note is only created once leaving this one has been confirmed
+  const openDailyNote = (target: NoteLocation | 'today') => {
+    HapticsService.tap();
+    confirmLeave(async () => {
+      try {
+        const location = target === 'today' ? await fileSystemService.getOrCreateDailyNote() : target;
+        router.replace({
+          pathname: '/editor',
+          params: { mode: 'edit', noteId: location.filename, folderPath: location.folderPath }
+        });
+      } catch (error) {
+        console.error('Error opening daily note:', error);
+        HapticsService.error();
+        Alert.alert('Error', 'Failed to open the daily note. Please try again.');
+      }
+    });
+  };
+
   const handleContentChange = (newContent: string) => {
     setContent(newContent);
     setHasUnsavedChanges(true);
   };
 
+  const handleBodyChange = (newBody: string) => {
+    handleContentChange(replaceBody(content, newBody));
+  };
+
+  const handlePropertyChange = (key: string, value: PropertyValue) => {
+    handleContentChange(setProperty(content, key, value));
+  };
+
+  const handlePropertyRemove = (key: string) => {
+    handleContentChange(removeProperty(content, key));
+  };
+
+  // Line numbers refer to the whole file, but the editor's offsets start after the frontmatter
+  const getBodyOffsetForLine = (fullContent: string, targetLine: number): number => {
+    return Math.max(0, getLineOffset(fullContent, targetLine) - splitFrontmatter(fullContent).bodyOffset);
+  };
+
   const handleTitleChange = (newTitle: string) => {
     setNoteTitle(newTitle);
     setHasUnsavedChanges(true);
@@ -176,10 +483,10 @@ export default function EditorScreen() {
     let filename = sanitizedTitle;
     let counter = 1;
     
-    // Get all existing notes to check for conflicts
+    // Names only clash with notes in the same folder
     try {
-      const allNotes = await fileSystemService.getAllNotes();
-      const existingFilenames = allNotes.map(note => note.filename);
+      const folderNotes = await fileSystemService.walkVault({ folderPath: folderPath as string, maxDepth: 0 });
+      const existingFilenames = folderNotes.map(note => note.filename);
       
       // Check if filename already exists and increment if needed
       while (existingFilenames.includes(filename) && filename !== currentFilename) {
@@ -200,7 +507,16 @@ export default function EditorScreen() {
       .replace(/\b\w/g, l => l.toUpperCase()); // Capitalize each word
   };
 
-  const saveNote = async (): Promise<boolean> => {
+  // Run a save once the ones before it have finished
+  const enqueueSave = <T,>(save: () => Promise<T>): Promise<T> => {
+    const result = saveQueue.current.then(save);
+    saveQueue.current = result.catch(() => {});
+    return result;
+  };
+
+  // Without a base note, the note as of the previous save is used, so a background save
+  // that finished while this one waited isn't mistaken for a change made elsewhere
+  const saveNote = async (baseNote?: Note | null): Promise<boolean> => {
     // Allow saving empty notes if they have a title
     if (!content.trim() && !noteTitle.trim()) {
       HapticsService.error();
@@ -222,26 +538,70 @@ export default function EditorScreen() {
       return false;
     }
 
+    return enqueueSave(() => writeNote(baseNote === undefined ? latestEdit.current.note : baseNote));
+  };
+
+  const writeNote = async (baseNote: Note | null): Promise<boolean> => {
+    const { content: contentToSave, noteTitle: titleToSave } = latestEdit.current;
     setIsLoading(true);
     try {
-      const filename = await generateUniqueFilename(noteTitle, note?.filename);
+      const filename = await generateUniqueFilename(titleToSave, baseNote?.filename);
       const now = new Date();
+
+      // Renaming breaks links in other notes, so offer to rewrite them first
+      let linkRewrites: LinkRewrite[] = [];
+      if (baseNote && filename !== baseNote.filename) {
+        linkRewrites = await fileSystemService.planLinkRewrites(
+          { filename: baseNote.filename, folderPath: folderPath as string },
+          { filename, folderPath: folderPath as string }
+        );
+        if (linkRewrites.length > 0) {
+          const choice = await confirmLinkUpdates(baseNote.filename, filename, linkRewrites);
+          if (choice === 'cancel') {
+            return false;
+          }
+          if (choice === 'skip') {
+            linkRewrites = [];
+          }
+        }
+      }
       
       const noteToSave: Note = {
         filename,
-        content,
-        createdAt: note?.createdAt || now,
+        content: baseNote ? contentToSave : setCreatedDate(contentToSave, now),
+        createdAt: baseNote?.createdAt || now,
         updatedAt: now,
-        filePath: note?.filePath || '',
+        filePath: baseNote?.filePath || '',
+        diskModifiedAt: baseNote?.diskModifiedAt,
+        diskContent: baseNote?.diskContent,
       };
 
-      await fileSystemService.saveNote(noteToSave, note?.filename, folderPath as string);
-      setNote(noteToSave);
+      const savedNote = await fileSystemService.saveNote(noteToSave, baseNote?.filename, folderPath as string);
+      if (linkRewrites.length > 0) {
+        await fileSystemService.applyLinkRewrites(linkRewrites);
+      }
+      if (!baseNote) {
+        keepCreatedDate(now);
+      }
+      setNote(savedNote);
+      latestEdit.current.note = savedNote;
       setHasUnsavedChanges(false);
+      setAutoSaveStatus('idle');
+      setBacklinksRefreshKey(key => key + 1);
         HapticsService.success();
       
       return true;
     } catch (error) {
+      if (error instanceof NoteConflictError && baseNote) {
+        // Only the modification time changed, so there's nothing to lose by saving over it
+        if (error.diskNote.content === baseNote.content) {
+          setNote(error.diskNote);
+          latestEdit.current.note = error.diskNote;
+          return writeNote(error.diskNote);
+        }
+        resolveConflict(error.diskNote, baseNote);
+        return false;
+      }
       console.error('Error saving note:', error);
       HapticsService.error();
       Alert.alert('Error', 'Failed to save note. Please try again.');
@@ -251,13 +611,161 @@ export default function EditorScreen() {
     }
   };
 
+  // Background saves keep the current filename: renaming from the title can prompt for link
+  // updates, so it waits for an explicit save or leaving the editor. A new note isn't
+  // written until it has a title, so the file isn't named after a placeholder.
+  const autoSaveNote = async () => {
+    const { content: contentToSave, noteTitle: titleToSave, note: savedNote } = latestEdit.current;
+    if (
+      (!savedNote && !titleToSave.trim())
+      || (!contentToSave.trim() && !titleToSave.trim())
+      || savedNote?.content === contentToSave
+      || resolvingConflict.current
+    ) {
+      return;
+    }
+
+    setAutoSaveStatus('saving');
+    try {
+      const filename = savedNote?.filename || await generateUniqueFilename(titleToSave);
+      const now = new Date();
+      const noteToSave: Note = {
+        filename,
+        content: savedNote ? contentToSave : setCreatedDate(contentToSave, now),
+        createdAt: savedNote?.createdAt || now,
+        updatedAt: now,
+        filePath: savedNote?.filePath || '',
+        diskModifiedAt: savedNote?.diskModifiedAt,
+        diskContent: savedNote?.diskContent,
+      };
+
+      const writtenNote = await fileSystemService.saveNote(noteToSave, savedNote?.filename, folderPath as string);
+      if (!savedNote) {
+        keepCreatedDate(now);
+      }
+      setNote(writtenNote);
+      latestEdit.current.note = writtenNote;
+
+      // Edits made while saving, or a changed title, still count as unsaved
+      const latest = latestEdit.current;
+      const titlePending = savedNote
+        ? sanitizeFilename(latest.noteTitle || 'Untitled') !== sanitizeFilename(formatFilenameAsTitle(filename))
+        : latest.noteTitle !== titleToSave;
+      if (latest.content === noteToSave.content && !titlePending) {
+        setHasUnsavedChanges(false);
+      }
+      setAutoSaveStatus('idle');
+    } catch (error) {
+      if (error instanceof NoteConflictError && savedNote) {
+        // Only the modification time changed, so save again on top of the disk version
+        if (error.diskNote.content === savedNote.content) {
+          setNote(error.diskNote);
+          latestEdit.current.note = error.diskNote;
+          return autoSaveNote();
+        }
+        setAutoSaveStatus('error');
+        resolveConflict(error.diskNote, savedNote);
+        return;
+      }
+      console.error('Error auto-saving note:', error);
+      setAutoSaveStatus('error');
+    }
+  };
+
+  // The first save of a new note adds its created property, which the editor has to keep
+  // so later saves don't drop it again
+  const keepCreatedDate = (date: Date) => {
+    const stamped = setCreatedDate(latestEdit.current.content, date);
+    latestEdit.current.content = stamped;
+    setContent(stamped);
+  };
+
+  // Called when the note changed on disk since it was loaded, e.g. by a sync app
+  const resolveConflict = (diskNote: Note, baseNote: Note) => {
+    if (resolvingConflict.current) {
+      return;
+    }
+
+    resolvingConflict.current = true;
+    HapticsService.warning();
+    Alert.alert(
+      'Note Changed Elsewhere',
+      `"${formatFilenameAsTitle(diskNote.filename)}" was changed outside the app after you opened it. Which version do you want to keep?`,
+      [
+        {
+          text: 'Keep Theirs',
+          style: 'destructive',
+          onPress: () => {
+            resolvingConflict.current = false;
+            HapticsService.tap();
+            showDiskVersion(diskNote);
+          },
+        },
+        {
+          text: 'Merge',
+          onPress: () => {
+            resolvingConflict.current = false;
+            mergeDiskVersion(diskNote, baseNote);
+          },
+        },
+        {
+          text: 'Keep Mine',
+          onPress: () => {
+            resolvingConflict.current = false;
+            saveNote(diskNote);
+          },
+        },
+      ],
+      { cancelable: false }
+    );
+  };
+
+  const showDiskVersion = (diskNote: Note) => {
+    setNote(diskNote);
+    setContent(diskNote.content);
+    setNoteTitle(formatFilenameAsTitle(diskNote.filename));
+    setHasUnsavedChanges(false);
+    setAutoSaveStatus('idle');
+    setBacklinksRefreshKey(key => key + 1);
+  };
+
+  // Combine both sets of edits, leaving overlapping ones between conflict markers to fix by hand
+  const mergeDiskVersion = (diskNote: Note, baseNote: Note) => {
+    const merged = mergeLines(baseNote.content, latestEdit.current.content, diskNote.content);
+    setNote(diskNote);
+    setContent(merged.content);
+    setHasUnsavedChanges(true);
+    setAutoSaveStatus('idle');
+
+    if (merged.conflicts > 0) {
+      HapticsService.warning();
+      Alert.alert(
+        'Merge Conflicts',
+        `${merged.conflicts} ${merged.conflicts === 1 ? 'change conflicts' : 'changes conflict'} with the other version. Both versions are kept between <<<<<<< and >>>>>>> markers. Edit them, then save.`
+      );
+    } else {
+      HapticsService.success();
+    }
+  };
+
+  const getAutoSaveIndicator = (): { text: string; color: string } | null => {
+    if (autoSaveDelaySeconds <= 0) return null;
+    if (autoSaveStatus === 'saving') return { text: 'Saving...', color: colors.textMuted };
+    if (autoSaveStatus === 'error') return { text: 'Not saved', color: colors.love };
+    if (!hasUnsavedChanges && note) return { text: 'Saved', color: colors.pine };
+    return { text: 'Edited', color: colors.textMuted };
+  };
+  const autoSaveIndicator = getAutoSaveIndicator();
+
   const handleDelete = () => {
     if (!note) return;
     
     HapticsService.warning();
     Alert.alert(
       'Delete Note',
-      `Are you sure you want to delete "${formatFilenameAsTitle(note.filename)}"? This action cannot be undone.`,
+      `Are you sure you want to delete "${formatFilenameAsTitle(note.filename)}"? ${fileSystemService.hasTrash()
+        ? 'It will be moved to the trash, where it can be restored from Settings.'
+        : 'This action cannot be undone.'}`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -286,6 +794,134 @@ export default function EditorScreen() {
     }
   };
 
+  const handleRestoreVersion = (versionContent: string) => {
+    const restoreVersion = async () => {
+      if (!note) return;
+
+      try {
+        // Saving keeps the current version in history, so a restore can itself be undone
+        const restoredNote = await fileSystemService.saveNote(
+          { ...note, content: versionContent, updatedAt: new Date(), diskModifiedAt: undefined },
+          undefined,
+          folderPath as string
+        );
+        setNote(restoredNote);
+        setContent(versionContent);
+        setNoteTitle(formatFilenameAsTitle(restoredNote.filename));
+        setHasUnsavedChanges(false);
+        setShowHistory(false);
+        setBacklinksRefreshKey(key => key + 1);
+        HapticsService.success();
+      } catch (error) {
+        console.error('Error restoring version:', error);
+        HapticsService.error();
+        Alert.alert('Error', 'Failed to restore this version. Please try again.');
+      }
+    };
+
+    if (!hasUnsavedChanges) {
+      restoreVersion();
+      return;
+    }
+
+    HapticsService.warning();
+    Alert.alert(
+      'Unsaved Changes',
+      'Restoring this version will discard your unsaved changes.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: () => restoreVersion(),
+        },
+      ]
+    );
+  };
+
+  // Preview links: wikilinks and task checkboxes are handled in-app, everything else opens externally
+  const handleLinkPress = (url: string): boolean => {
+    if (url.startsWith(TASK_URL_SCHEME)) {
+      HapticsService.selection();
+      handleContentChange(toggleTaskAtLine(content, Number(url.substring(TASK_URL_SCHEME.length))));
+      return false;
+    }
+    if (url.startsWith(WIKILINK_URL_SCHEME)) {
+      openWikilink(decodeURIComponent(url.substring(WIKILINK_URL_SCHEME.length)));
+      return false;
+    }
+    return true;
+  };
+
+  const openWikilink = async (inner: string) => {
+    HapticsService.selection();
+    const link = parseWikilinkTarget(inner);
+
+    // Same-note links like [[#Heading]] just move the cursor
+    if (!link.target) {
+      const targetLine = findAnchorLine(content, link);
+      if (targetLine >= 0) {
+        setIsPreviewMode(false);
+        setCursorPosition(getBodyOffsetForLine(content, targetLine));
+      }
+      return;
+    }
+
+    try {
+      const resolved = await fileSystemService.resolveWikilink(link.target, folderPath as string);
+      if (resolved) {
+        router.push({
+          pathname: '/editor',
+          params: {
+            mode: 'edit',
+            noteId: resolved.filename,
+            folderPath: resolved.folderPath,
+            ...(link.heading ? { heading: link.heading } : {}),
+            ...(link.blockId ? { block: link.blockId } : {}),
+          }
+        });
+        return;
+      }
+    } catch (error) {
+      console.error('Error resolving wikilink:', error);
+    }
+
+    // Offer to create the missing note next to the current one
+    const targetParts = link.target.split('/');
+    const newTitle = targetParts.pop() || link.target;
+    const newFolderPath = targetParts.length > 0 ? targetParts.join('/') : (folderPath as string) || '';
+    HapticsService.warning();
+    Alert.alert(
+      'Note Not Found',
+      `"${link.target}" doesn't exist yet. Would you like to create it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Create',
+          onPress: () => {
+            HapticsService.tap();
+            router.push({
+              pathname: '/editor',
+              params: { mode: 'create', folderPath: newFolderPath, title: newTitle }
+            });
+          }
+        },
+      ]
+    );
+  };
+
+  const handleBacklinkPress = (backlink: Backlink) => {
+    router.push({
+      pathname: '/editor',
+      params: {
+        mode: 'edit',
+        noteId: backlink.filename,
+        folderPath: backlink.folderPath,
+        line: String(backlink.line),
+      }
+    });
+  };
+
   /**
    * Safely navigate back with fallback to home screen.
    * This handles cases where the app was opened via deep link and has no navigation history.
@@ -303,16 +939,21 @@ export default function EditorScreen() {
 
   // Internal back press logic without haptic feedback (used by hardware back button)
   const handleBackPressInternal = () => {
+    confirmLeave(safeNavigateBack);
+  };
+
+  // Leave the note, saving or asking about unsaved changes first
+  const confirmLeave = (leave: () => void) => {
     if (hasUnsavedChanges) {
       // Special case: if in create mode with no content and no title, exit without prompting
       if (mode === 'create' && !content.trim() && !noteTitle.trim()) {
-        safeNavigateBack();
+        leave();
         return;
       }
       
       if (autoSaveOnExit) {
         // Auto-save is enabled, save and exit without prompting
-        saveAndExit();
+        saveAndExit(leave);
       } else {
         // Auto-save is disabled, show the prompt
         HapticsService.warning();
@@ -325,14 +966,14 @@ export default function EditorScreen() {
               style: 'destructive',
               onPress: () => {
                 HapticsService.tap();
-                safeNavigateBack();
+                leave();
               }
             },
             {
               text: 'Save & Exit',
               onPress: () => {
                 HapticsService.tap();
-                saveAndExit();
+                saveAndExit(leave);
               }
             },
             {
@@ -343,7 +984,7 @@ export default function EditorScreen() {
         );
       }
     } else {
-      safeNavigateBack();
+      leave();
     }
   };
 
@@ -352,10 +993,10 @@ export default function EditorScreen() {
     HapticsService.tap();
     handleBackPressInternal();
   };
-  const saveAndExit = async () => {
+  const saveAndExit = async (leave: () => void) => {
     const saved = await saveNote();
     if (saved) {
-      safeNavigateBack();
+      leave();
     }
   };
 
@@ -373,6 +1014,11 @@ export default function EditorScreen() {
           <ArrowLeft size={24} color={colors.iris} />
         </TouchableOpacity>
         <View style={styles.headerActions}>
+          {autoSaveIndicator && (
+            <Text style={[styles.autoSaveIndicator, { color: autoSaveIndicator.color }]}>
+              {autoSaveIndicator.text}
+            </Text>
+          )}
           <TouchableOpacity
             onPress={() => {
               HapticsService.tap();
@@ -396,6 +1042,17 @@ export default function EditorScreen() {
           >
             <Save size={24} color={colors.pine} />
           </TouchableOpacity>
+          {mode === 'edit' && note && (
+            <TouchableOpacity
+              onPress={() => {
+                HapticsService.tap();
+                setShowHistory(true);
+              }}
+              style={[styles.iconButton, { backgroundColor: colors.overlay }]}
+            >
+              <History size={24} color={colors.foam} />
+            </TouchableOpacity>
+          )}
           {mode === 'edit' && note && (
             <TouchableOpacity
               onPress={() => {
@@ -409,6 +1066,36 @@ export default function EditorScreen() {
           )}
         </View>
       </View>
+      {dailyNote && (
+        <View style={[styles.dailyNoteBar, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <TouchableOpacity
+            onPress={() => dailyNote.previous && openDailyNote(dailyNote.previous)}
+            style={styles.dailyNoteButton}
+            disabled={!dailyNote.previous}
+          >
+            <ChevronLeft size={22} color={dailyNote.previous ? colors.iris : colors.border} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => openDailyNote('today')}
+            style={styles.dailyNoteDate}
+            disabled={startOfDay(dailyNote.date).getTime() === startOfDay(new Date()).getTime()}
+          >
+            <Text style={[styles.dailyNoteDateText, { color: colors.text }]} numberOfLines={1}>
+              {formatDate(dailyNote.date, 'dddd, MMMM D, YYYY')}
+            </Text>
+            {startOfDay(dailyNote.date).getTime() !== startOfDay(new Date()).getTime() && (
+              <Text style={[styles.dailyNoteTodayText, { color: colors.iris }]}>Go to today</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => dailyNote.next && openDailyNote(dailyNote.next)}
+            style={styles.dailyNoteButton}
+            disabled={!dailyNote.next}
+          >
+            <ChevronRight size={22} color={dailyNote.next ? colors.iris : colors.border} />
+          </TouchableOpacity>
+        </View>
+      )}
       <KeyboardAwareScrollView
         style={{ flex: 1 }}
         contentContainerStyle={{ flexGrow: 1 }}
@@ -420,7 +1107,17 @@ export default function EditorScreen() {
             <Text style={[styles.previewTitle, { color: colors.text }]}>
               {noteTitle || 'Untitled'}
             </Text>
+            {Object.keys(properties).length > 0 && (
+              <View style={styles.previewProperties}>
+                <PropertiesPanel
+                  properties={properties}
+                  onChange={handlePropertyChange}
+                  onRemove={handlePropertyRemove}
+                />
+              </View>
+            )}
             <Markdown
+              onLinkPress={handleLinkPress}
               style={{
                 body: { color: colors.text, backgroundColor: colors.background },
                 heading1: { color: colors.text, fontSize: 32, fontWeight: 'bold' },
@@ -474,7 +1171,7 @@ export default function EditorScreen() {
                 link: { color: colors.foam, textDecorationLine: 'underline' },
               }}
             >
-              {content || 'No content to preview'}
+              {stripFrontmatter(linkifyWikilinks(linkifyTasks(content))) || 'No content to preview'}
             </Markdown>
           </View>
         ) : (
@@ -486,17 +1183,73 @@ export default function EditorScreen() {
               onChangeText={handleTitleChange}
               placeholderTextColor={colors.textMuted}
             />
+            <PropertiesPanel
+              properties={properties}
+              onChange={handlePropertyChange}
+              onRemove={handlePropertyRemove}
+            />
             <View style={styles.editorContainer}>
               <MarkdownEditor
-                value={content}
-                onChangeText={handleContentChange}
+                ref={editorRef}
+                value={body}
+                onChangeText={handleBodyChange}
                 onSave={saveNote}
                 placeholder="Start typing your note..."
+                cursorPosition={cursorPosition}
+                onFocusChange={setIsEditorFocused}
+                onWikilinkQueryChange={setWikilinkQuery}
               />
             </View>
           </>
         )}
+        {note && (
+          <BacklinksPanel
+            filename={note.filename}
+            folderPath={folderPath as string}
+            refreshKey={backlinksRefreshKey}
+            onSelect={handleBacklinkPress}
+          />
+        )}
       </KeyboardAwareScrollView>
+
+      {!isPreviewMode && isEditorFocused && (showToolbar || linkSuggestions.length > 0) && (
+        // On iOS the safe area already lifts the toolbar above the home indicator, which the keyboard covers
+        <KeyboardStickyView offset={{ closed: 0, opened: Platform.OS === 'ios' ? insets.bottom : 0 }}>
+          {linkSuggestions.length > 0 && (
+            <WikilinkSuggestions
+              suggestions={linkSuggestions}
+              onSelect={(suggestion) => editorRef.current?.completeWikilink(suggestion.link)}
+            />
+          )}
+          {showToolbar && toolbarSettings && (
+            <FormattingToolbar
+              actions={toolbarSettings.actions}
+              onAction={(action) => editorRef.current?.applyAction(action)}
+            />
+          )}
+        </KeyboardStickyView>
+      )}
+
+      <LinkUpdateModal
+        visible={linkUpdatePrompt !== null}
+        oldTitle={linkUpdatePrompt?.oldTitle || ''}
+        newTitle={linkUpdatePrompt?.newTitle || ''}
+        rewrites={linkUpdatePrompt?.rewrites || []}
+        onApply={() => resolveLinkUpdate('apply')}
+        onSkip={() => resolveLinkUpdate('skip')}
+        onCancel={() => resolveLinkUpdate('cancel')}
+      />
+
+      {note && (
+        <HistoryModal
+          visible={showHistory}
+          filename={note.filename}
+          folderPath={folderPath as string}
+          currentContent={content}
+          onRestore={handleRestoreVersion}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -542,6 +1295,34 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  dailyNoteBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+  },
+  dailyNoteButton: {
+    padding: 8,
+  },
+  dailyNoteDate: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dailyNoteDateText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  dailyNoteTodayText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  autoSaveIndicator: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginRight: 4,
+  },
   deleteButtonHeader: {
     marginLeft: 8,
   },
@@ -567,6 +1348,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 25,
     paddingVertical: SPACING.padding,
   },
+  previewProperties: {
+    marginHorizontal: -25,
+  },
   previewTitle: {
     fontSize: 35,
     fontWeight: 'bold',
@@ -7,23 +7,44 @@ import {
   SafeAreaView,
   Alert,
   TextInput,
+  ScrollView,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Plus, Search, X, Settings } from 'lucide-react-native';
+import { Plus, Search, X, Settings, CheckSquare, Layers } from 'lucide-react-native';
 import { useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { router } from 'expo-router';
 import { HapticsService } from '@/services/HapticsService';
 import MasonryGrid from '@/components/MasonryGrid';
 import NoteCard from '@/components/NoteCard';
 import FolderCard from '@/components/FolderCard';
+import SearchResults from '@/components/SearchResults';
+import TagFilterBar from '@/components/TagFilterBar';
+import ActionMenu, { ActionMenuItem } from '@/components/ActionMenu';
+import FolderPicker from '@/components/FolderPicker';
+import TextPromptModal from '@/components/TextPromptModal';
+import LinkUpdateModal from '@/components/LinkUpdateModal';
+import { useLinkUpdatePrompt } from '@/hooks/useLinkUpdatePrompt';
 import { NotePreview } from '@/types/Note';
-import { DirectoryContents, FolderItem, NoteItem } from '@/types/FileSystemItem';
+import {
+  DirectoryContents,
+  DirectorySort,
+  FolderItem,
+  NoteItem,
+  NoteLocation,
+  PinnedContents,
+  PinnedItem,
+} from '@/types/FileSystemItem';
+import { SearchResult } from '@/types/Search';
+import { TagCount, TaggedNote } from '@/types/Tag';
+import { LinkRewrite } from '@/types/Link';
 import { FileSystemService } from '@/services/FileSystemService';
+import { buildVaultPath, joinFolderPath, splitVaultPath } from '@/services/VaultPath';
+import { SORT_OPTIONS, describeSortOrder, sortNotes } from '@/services/Sorting';
 import { useTheme } from '@/components/ThemeProvider';
 import { RADIUS, SPACING } from '@/theme';
 
 export default function HomeScreen() {
-  const { path } = useLocalSearchParams<{ path?: string | string[] }>();
+  const { path, tag } = useLocalSearchParams<{ path?: string | string[]; tag?: string }>();
   const [directoryContents, setDirectoryContents] = useState<DirectoryContents>({
     folders: [],
     notes: [],
@@ -38,9 +59,29 @@ export default function HomeScreen() {
     parentPath: null,
   });
   const [searchQuery, setSearchQuery] = useState('');
-  const [isSearchVisible, setIsSearchVisible] = useState(false);  const [loading, setLoading] = useState(false);
+  const [isSearchVisible, setIsSearchVisible] = useState(false);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(tag || null);
+  const [taggedNotes, setTaggedNotes] = useState<TaggedNote[]>([]);
+  const [showAllNotes, setShowAllNotes] = useState(false);
+  const [allNotes, setAllNotes] = useState<NotePreview[]>([]);
+  const [pinnedItems, setPinnedItems] = useState<PinnedItem[]>([]);
+  const [pinnedContents, setPinnedContents] = useState<PinnedContents>({ folders: [], notes: [] });
+  const [loading, setLoading] = useState(false);
   const [showTimestamp, setShowTimestamp] = useState(true);
   const [fabPositionBottom, setFabPositionBottom] = useState(false);
+  const [actionMenu, setActionMenu] = useState<{ title: string; actions: ActionMenuItem[] } | null>(null);
+  const [folderPicker, setFolderPicker] = useState<
+    | { mode: 'moveNote'; note: NoteItem }
+    | { mode: 'copyNote'; note: NoteItem }
+    | { mode: 'moveFolder'; folder: FolderItem }
+    | null
+  >(null);
+  const [renamingFolder, setRenamingFolder] = useState<FolderItem | null>(null);
+  const [creatingFolder, setCreatingFolder] = useState(false);
+  const { linkUpdatePrompt, confirmLinkUpdates, resolveLinkUpdate } = useLinkUpdatePrompt();
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
 
@@ -108,24 +149,124 @@ export default function HomeScreen() {
       await fileSystemService.loadDirectoryPreference();
       
       const targetPath = getDirectoryPath();
+
+      // Show the folder as it was last listed straight away, then bring it up to date
+      if (directoryContents.currentPath !== targetPath) {
+        const cached = await fileSystemService.getCachedDirectoryContents(targetPath);
+        if (cached) {
+          setDirectoryContents(cached);
+          setFilteredContents(cached);
+        }
+      }
+
       const contents = await fileSystemService.getDirectoryContents(targetPath);
       setDirectoryContents(contents);
       setFilteredContents(contents);
       
       const showTimestamps = await fileSystemService.getShowTimestamps();
       setShowTimestamp(showTimestamps);
+
+      // Backlink counts and tags need the vault index, so fill them in once it is ready
+      loadBacklinkCounts(contents);
+      loadTags();
+      loadPinnedItems();
     } catch (error) {
       console.error('Error loading directory contents:', error);
     } finally {
       setLoading(false);
     }
   };
+  const loadBacklinkCounts = async (contents: DirectoryContents) => {
+    try {
+      const notes = await fileSystemService.withBacklinkCounts(contents.notes, getPathArray().join('/'));
+      setDirectoryContents(current => current === contents ? { ...contents, notes } : current);
+    } catch (error) {
+      console.error('Error loading backlink counts:', error);
+    }
+  };
+
+  // Pins from the open folder and everything below it, so the vault root shows them all
+  const loadPinnedItems = async () => {
+    try {
+      setPinnedItems(await fileSystemService.getPinnedItems());
+      setPinnedContents(await fileSystemService.getPinnedContents(getPathArray().join('/')));
+    } catch (error) {
+      console.error('Error loading pinned items:', error);
+    }
+  };
+
+  const loadTags = async () => {
+    try {
+      setTags(await fileSystemService.getAllTags());
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    }
+  };
+
   useFocusEffect(
     useCallback(() => {
       loadDirectoryContents();
     }, [path])
   );
 
+  // Pick up notes added or edited outside the app, like by sync, while this folder is open
+  useFocusEffect(
+    useCallback(() => {
+      const folderPath = getPathArray().join('/');
+      return fileSystemService.watchDirectory(folderPath, async changes => {
+        try {
+          const notes = await fileSystemService.withBacklinkCounts(changes.notes, folderPath);
+          setDirectoryContents(current => fileSystemService.applyDirectoryChanges(current, { ...changes, notes }));
+          loadTags();
+        } catch (error) {
+          console.error('Error applying directory changes:', error);
+        }
+      });
+    }, [path])
+  );
+
+  // Notes carrying the selected tag, from anywhere in the vault
+  useEffect(() => {
+    if (!selectedTag) {
+      setTaggedNotes([]);
+      return;
+    }
+
+    let cancelled = false;
+    fileSystemService.getNotesWithTag(selectedTag)
+      .then(notes => {
+        if (!cancelled) {
+          setTaggedNotes(notes);
+        }
+      })
+      .catch(error => console.error('Error loading tagged notes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTag, directoryContents]);
+
+  // Every note in the vault for the flat view, reloaded whenever the open folder changes
+  useEffect(() => {
+    if (!showAllNotes) {
+      setAllNotes([]);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([fileSystemService.getVaultNotes(), fileSystemService.getDefaultSort()])
+      .then(([notes, sort]) => {
+        if (!cancelled) {
+          setAllNotes(sortNotes(notes, sort.notes));
+        }
+      })
+      .catch(error => console.error('Error loading all notes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showAllNotes, directoryContents]);
+
   // Load FAB position preference
   useFocusEffect(
     useCallback(() => {
@@ -167,7 +308,125 @@ export default function HomeScreen() {
     }
   }, [searchQuery, directoryContents]);
 
-  const handleCreateNote = () => {
+  // Search the whole vault, debounced while the user is typing
+  useEffect(() => {
+    if (searchQuery.trim() === '') {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await fileSystemService.searchVault(searchQuery);
+        if (!cancelled) {
+          setSearchResults(results);
+        }
+      } catch (error) {
+        console.error('Error searching vault:', error);
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  const handleCreatePress = async () => {
+    HapticsService.tap();
+    const folderPath = getPathArray().join('/');
+    const actions: ActionMenuItem[] = [
+      { label: 'New Note', onPress: () => handleCreateNote() },
+    ];
+
+    // Templates are only offered once a templates folder with notes in it has been set up
+    try {
+      const templates = await fileSystemService.getTemplates();
+      if (templates.length > 0) {
+        const folderTemplate = await fileSystemService.getFolderTemplate(folderPath);
+        actions.push(
+          { label: 'New Note from Template...', onPress: () => showTemplateMenu(templates) },
+          {
+            label: `Folder Template: ${folderTemplate ? splitVaultPath(folderTemplate).filename : 'None'}`,
+            onPress: () => showFolderTemplateMenu(templates),
+          }
+        );
+      }
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    }
+
+    actions.push(
+      { label: "Today's Daily Note", onPress: handleOpenDailyNote },
+      {
+        label: 'New Folder',
+        onPress: () => {
+          HapticsService.tap();
+          setCreatingFolder(true);
+        }
+      }
+    );
+    setActionMenu({ title: 'Create', actions });
+  };
+
+  const showTemplateMenu = (templates: NoteLocation[]) => {
+    setActionMenu({
+      title: 'New Note from Template',
+      actions: templates.map(template => ({
+        label: template.filename,
+        onPress: () => handleCreateNote(template.path),
+      })),
+    });
+  };
+
+  // New notes in this folder start from the chosen template unless another one is picked
+  const showFolderTemplateMenu = (templates: NoteLocation[]) => {
+    const folderPath = getPathArray().join('/');
+    const setFolderTemplate = async (templatePath: string | null) => {
+      try {
+        await fileSystemService.setFolderTemplate(folderPath, templatePath);
+        HapticsService.success();
+      } catch (error) {
+        console.error('Error saving folder template:', error);
+        HapticsService.error();
+      }
+    };
+
+    setActionMenu({
+      title: 'Folder Template',
+      actions: [
+        { label: 'None', onPress: () => setFolderTemplate(null) },
+        ...templates.map(template => ({
+          label: template.filename,
+          onPress: () => setFolderTemplate(template.path),
+        })),
+      ],
+    });
+  };
+
+  const handleOpenDailyNote = async () => {
+    HapticsService.tap();
+    try {
+      const location = await fileSystemService.getOrCreateDailyNote();
+      router.push({
+        pathname: '/editor',
+        params: { mode: 'edit', noteId: location.filename, folderPath: location.folderPath }
+      });
+    } catch (error) {
+      console.error('Error opening daily note:', error);
+      HapticsService.error();
+      Alert.alert('Error', "Failed to open today's daily note. Please try again.");
+    }
+  };
+
+  const handleCreateNote = (templatePath?: string) => {
     HapticsService.tap();
     // Pass the current folder path so the note is created in the right location
     const currentFolderPath = getPathArray().join('/');
@@ -175,30 +434,77 @@ export default function HomeScreen() {
       pathname: '/editor',
       params: {
         mode: 'create',
-        folderPath: currentFolderPath
+        folderPath: currentFolderPath,
+        ...(templatePath ? { template: templatePath } : {}),
       }
     });
   };
 
+  // Notes in the flat view carry their own folder, all others live in the open one
+  const getNoteFolderPath = (note: NoteItem): string => {
+    return note.folderPath ?? getPathArray().join('/');
+  };
+
+  // Likewise for folders, which are listed outside their parent in the pinned section
+  const getFolderParentPath = (folder: FolderItem): string => {
+    return folder.folderPath ?? getPathArray().join('/');
+  };
+
+  const getNotePin = (note: NoteItem): PinnedItem => ({
+    type: 'note',
+    path: buildVaultPath(note.filename, getNoteFolderPath(note)),
+  });
+
+  const getFolderPin = (folder: FolderItem): PinnedItem => ({
+    type: 'folder',
+    path: joinFolderPath(getFolderParentPath(folder), folder.name),
+  });
+
+  const isPinned = (pin: PinnedItem): boolean => {
+    return pinnedItems.some(item => item.type === pin.type && item.path === pin.path);
+  };
+
+  const togglePinned = async (pin: PinnedItem) => {
+    try {
+      await fileSystemService.setPinned(pin, !isPinned(pin));
+      await loadPinnedItems();
+      HapticsService.success();
+    } catch (error) {
+      console.error('Error updating pinned items:', error);
+      HapticsService.error();
+    }
+  };
+
   const handleNotePress = (note: NoteItem) => {
     HapticsService.selection();
-    // Pass the current folder path so the note is opened from the correct location
-    const currentFolderPath = getPathArray().join('/');
+    // Pass the note's folder path so it is opened from the correct location
     router.push({
       pathname: '/editor',
       params: {
         mode: 'edit',
         noteId: note.filename,
-        folderPath: currentFolderPath
+        folderPath: getNoteFolderPath(note)
+      }
+    });
+  };
+
+  const handleSearchResultPress = (result: SearchResult) => {
+    router.push({
+      pathname: '/editor',
+      params: {
+        mode: 'edit',
+        noteId: result.filename,
+        folderPath: result.folderPath,
+        line: String(result.line),
       }
     });
   };
 
   const handleFolderPress = (folder: FolderItem) => {
     HapticsService.selection();
-    // Navigate to the subfolder by extending the current path
-    const currentPathArray = getPathArray();
-    const newPath = [...currentPathArray, folder.name];
+    // Navigate to the subfolder by extending its parent's path
+    const parentPathArray = getFolderParentPath(folder).split('/').filter(p => p.length > 0);
+    const newPath = [...parentPathArray, folder.name];
     
     // Build URL query string manually to ensure proper array handling
     const pathParams = newPath.map(p => `path=${encodeURIComponent(p)}`).join('&');
@@ -209,61 +515,202 @@ export default function HomeScreen() {
 
   const handleNoteLongPress = (note: NoteItem) => {
     HapticsService.longPress();
-    Alert.alert(
-      'Note Options',
-      `What would you like to do with "${formatFilenameAsTitle(note.filename)}"?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
+    setActionMenu({
+      title: formatFilenameAsTitle(note.filename),
+      actions: [
         {
-          text: 'Edit',
+          label: 'Edit',
           onPress: () => {
             HapticsService.tap();
             handleNotePress(note);
           }
         },
         {
-          text: 'Delete',
-          style: 'destructive',
+          label: isPinned(getNotePin(note)) ? 'Unpin' : 'Pin',
+          onPress: () => {
+            HapticsService.tap();
+            togglePinned(getNotePin(note));
+          }
+        },
+        {
+          label: 'Move to...',
+          onPress: () => {
+            HapticsService.tap();
+            setFolderPicker({ mode: 'moveNote', note });
+          }
+        },
+        {
+          label: 'Copy to...',
+          onPress: () => {
+            HapticsService.tap();
+            setFolderPicker({ mode: 'copyNote', note });
+          }
+        },
+        {
+          label: 'Delete',
+          destructive: true,
           onPress: () => {
             HapticsService.warning();
             confirmDelete(note);
           }
         },
-      ]
-    );
+      ],
+    });
   };
 
   const handleFolderLongPress = (folder: FolderItem) => {
     HapticsService.longPress();
-    Alert.alert(
-      'Folder Options',
-      `What would you like to do with "${folder.name}"?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
+    setActionMenu({
+      title: folder.name,
+      actions: [
         {
-          text: 'Open',
+          label: 'Open',
           onPress: () => {
             HapticsService.tap();
             handleFolderPress(folder);
           }
         },
         {
-          text: 'Delete',
-          style: 'destructive',
+          label: isPinned(getFolderPin(folder)) ? 'Unpin' : 'Pin',
+          onPress: () => {
+            HapticsService.tap();
+            togglePinned(getFolderPin(folder));
+          }
+        },
+        {
+          label: 'Rename...',
+          onPress: () => {
+            HapticsService.tap();
+            setRenamingFolder(folder);
+          }
+        },
+        {
+          label: 'Move to...',
+          onPress: () => {
+            HapticsService.tap();
+            setFolderPicker({ mode: 'moveFolder', folder });
+          }
+        },
+        {
+          label: 'Delete',
+          destructive: true,
           onPress: () => {
             HapticsService.warning();
             confirmDeleteFolder(folder);
           }
         },
-      ]
-    );
+      ],
+    });
+  };
+
+  // Offer to update links that point into the moved item, then move it
+  const relocateWithLinkUpdates = async (
+    oldTitle: string,
+    newTitle: string,
+    rewrites: LinkRewrite[],
+    relocate: () => Promise<unknown>
+  ) => {
+    const choice = rewrites.length > 0 ? await confirmLinkUpdates(oldTitle, newTitle, rewrites) : 'skip';
+    if (choice === 'cancel') {
+      return;
+    }
+    await relocate();
+    if (choice === 'apply') {
+      await fileSystemService.applyLinkRewrites(rewrites);
+    }
+  };
+
+  const handleFolderSelected = async (targetFolderPath: string) => {
+    const request = folderPicker;
+    setFolderPicker(null);
+    if (!request) return;
+
+    try {
+      if (request.mode === 'copyNote') {
+        await fileSystemService.copyNote(request.note.filename, getNoteFolderPath(request.note), targetFolderPath);
+      } else if (request.mode === 'moveNote') {
+        const { filename } = request.note;
+        const noteFolderPath = getNoteFolderPath(request.note);
+        const rewrites = await fileSystemService.planLinkRewrites(
+          { filename, folderPath: noteFolderPath },
+          { filename, folderPath: targetFolderPath }
+        );
+        await relocateWithLinkUpdates(
+          joinFolderPath(noteFolderPath, filename),
+          joinFolderPath(targetFolderPath, filename),
+          rewrites,
+          () => fileSystemService.moveNote(filename, noteFolderPath, targetFolderPath)
+        );
+      } else if (request.mode === 'moveFolder') {
+        const { name } = request.folder;
+        const parentPath = getFolderParentPath(request.folder);
+        const rewrites = await fileSystemService.planFolderLinkRewrites(
+          joinFolderPath(parentPath, name),
+          joinFolderPath(targetFolderPath, name)
+        );
+        await relocateWithLinkUpdates(
+          joinFolderPath(parentPath, name),
+          joinFolderPath(targetFolderPath, name),
+          rewrites,
+          () => fileSystemService.moveFolder(name, parentPath, targetFolderPath)
+        );
+      }
+      await loadDirectoryContents();
+      HapticsService.success();
+    } catch (error) {
+      console.error('Error moving item:', error);
+      HapticsService.error();
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to move item. Please try again.');
+    }
+  };
+
+  const handleCreateFolder = async (name: string) => {
+    setCreatingFolder(false);
+    try {
+      await fileSystemService.createFolder(name, getPathArray().join('/'));
+      await loadDirectoryContents();
+      HapticsService.success();
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      HapticsService.error();
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create folder. Please try again.');
+    }
+  };
+
+  const handleRenameFolder = async (name: string) => {
+    const folder = renamingFolder;
+    setRenamingFolder(null);
+    const newName = name.trim();
+    if (!folder || newName === folder.name) return;
+
+    const parentPath = getFolderParentPath(folder);
+    try {
+      const rewrites = await fileSystemService.planFolderLinkRewrites(
+        joinFolderPath(parentPath, folder.name),
+        joinFolderPath(parentPath, newName)
+      );
+      await relocateWithLinkUpdates(
+        folder.name,
+        newName,
+        rewrites,
+        () => fileSystemService.renameFolder(folder.name, parentPath, newName)
+      );
+      await loadDirectoryContents();
+      HapticsService.success();
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+      HapticsService.error();
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to rename folder. Please try again.');
+    }
   };
 
   const confirmDelete = (note: NoteItem) => {
     HapticsService.warning();
     Alert.alert(
       'Delete Note',
-      `Are you sure you want to delete "${formatFilenameAsTitle(note.filename)}"? This action cannot be undone.`,
+      `Are you sure you want to delete "${formatFilenameAsTitle(note.filename)}"? ${fileSystemService.hasTrash()
+        ? 'It will be moved to the trash, where it can be restored from Settings.'
+        : 'This action cannot be undone.'}`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -271,7 +718,7 @@ export default function HomeScreen() {
           style: 'destructive',
           onPress: () => {
             HapticsService.success();
-            deleteNote(note.filename);
+            deleteNote(note);
           }
         },
       ]
@@ -282,7 +729,7 @@ export default function HomeScreen() {
     HapticsService.warning();
     Alert.alert(
       'Delete Folder',
-      `Warning: this action is not reversible. Deleting the folder "${folder.name}" will delete all folders and notes within it.\n\nAre you sure you want to continue?`,
+      `Deleting the folder "${folder.name}" will move it and all folders and notes within it to the trash.\n\nAre you sure you want to continue?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -297,10 +744,9 @@ export default function HomeScreen() {
     );
   };
 
-  const deleteNote = async (noteId: string) => {
+  const deleteNote = async (note: NoteItem) => {
     try {
-      const currentFolderPath = getPathArray().join('/');
-      await fileSystemService.deleteNote(noteId, currentFolderPath);
+      await fileSystemService.deleteNote(note.filename, getNoteFolderPath(note));
       await loadDirectoryContents();
       HapticsService.success();
     } catch (error) {
@@ -312,8 +758,7 @@ export default function HomeScreen() {
 
   const deleteFolder = async (folder: FolderItem) => {
     try {
-      const currentFolderPath = getPathArray().join('/');
-      await fileSystemService.deleteFolder(folder.name, currentFolderPath);
+      await fileSystemService.deleteFolder(folder.name, getFolderParentPath(folder));
       await loadDirectoryContents();
       HapticsService.success();
     } catch (error) {
@@ -324,11 +769,66 @@ export default function HomeScreen() {
   };
 
 
+  const handleViewPress = async () => {
+    HapticsService.tap();
+    const folderPath = getPathArray().join('/');
+    const folderSort = await fileSystemService.getFolderSort(folderPath);
+    const sort = folderSort || await fileSystemService.getDefaultSort();
+
+    const actions: ActionMenuItem[] = [
+      {
+        label: showAllNotes ? 'Show This Folder' : 'Show All Notes',
+        onPress: () => setShowAllNotes(!showAllNotes),
+      },
+    ];
+    if (!showAllNotes) {
+      actions.push(
+        {
+          label: `Sort Notes: ${describeSortOrder(sort.notes)}`,
+          onPress: () => showSortMenu('Sort Notes', sort, 'notes'),
+        },
+        {
+          label: `Sort Folders: ${describeSortOrder(sort.folders)}`,
+          onPress: () => showSortMenu('Sort Folders', sort, 'folders'),
+        }
+      );
+      if (folderSort) {
+        actions.push({ label: 'Use Default Sort', onPress: () => handleFolderSortSelected(null) });
+      }
+    }
+    setActionMenu({ title: 'View', actions });
+  };
+
+  const showSortMenu = (title: string, sort: DirectorySort, target: keyof DirectorySort) => {
+    setActionMenu({
+      title,
+      actions: SORT_OPTIONS.map(option => ({
+        label: option.label,
+        onPress: () => handleFolderSortSelected({ ...sort, [target]: option.order }),
+      })),
+    });
+  };
+
+  // Sorting from the home screen only applies to the open folder; the default is set in settings
+  const handleFolderSortSelected = async (sort: DirectorySort | null) => {
+    try {
+      HapticsService.selection();
+      await fileSystemService.setFolderSort(getPathArray().join('/'), sort);
+      await loadDirectoryContents();
+    } catch (error) {
+      console.error('Error saving folder sort:', error);
+      HapticsService.error();
+    }
+  };
+
   const toggleSearch = () => {
     HapticsService.tap();
     setIsSearchVisible(!isSearchVisible);
     if (isSearchVisible) {
       setSearchQuery('');
+    } else {
+      // Warm up the vault index while the user starts typing
+      fileSystemService.ensureSearchIndex();
     }
   };
 
@@ -337,6 +837,24 @@ export default function HomeScreen() {
     router.push('/settings');
   };
 
+  const handleTagsPress = () => {
+    router.push('/tags');
+  };
+
+  // Search results narrowed to the selected tag, or every tagged note when not searching
+  const getTagFilteredResults = (): SearchResult[] => {
+    if (searchQuery.trim() !== '') {
+      const taggedPaths = new Set(taggedNotes.map(note => note.path));
+      return selectedTag ? searchResults.filter(result => taggedPaths.has(result.path)) : searchResults;
+    }
+    return taggedNotes.map(note => ({ ...note, score: 0, snippet: note.context, matches: [] }));
+  };
+
+  const handleTasksPress = () => {
+    HapticsService.tap();
+    router.push('/tasks');
+  };
+
   // Get the current folder name for display
   const getCurrentFolderName = (): string => {
     const pathArray = getPathArray();
@@ -357,6 +875,51 @@ export default function HomeScreen() {
     );
   }
 
+  // Pinned items are shown in their own section, so leave them out of the grid below it
+  const hasPinnedItems = pinnedContents.folders.length > 0 || pinnedContents.notes.length > 0;
+  const gridFolders = filteredContents.folders.filter(folder => !isPinned(getFolderPin(folder)));
+  const gridNotes = filteredContents.notes.filter(note => !isPinned(getNotePin(note)));
+
+  const renderPinnedSection = () => (
+    <View style={styles.pinnedSection}>
+      <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>Pinned</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.pinnedRow}
+      >
+        {pinnedContents.folders.map(folder => (
+          // @ts-ignore: Allow key on View for list items
+          <View key={`folder-${joinFolderPath(folder.folderPath || '', folder.name)}`} style={styles.pinnedItem}>
+            <FolderCard
+              folder={folder}
+              onPress={handleFolderPress}
+              onLongPress={handleFolderLongPress}
+              showTimestamp={showTimestamp}
+            />
+          </View>
+        ))}
+        {pinnedContents.notes.map(note => (
+          // @ts-ignore: Allow key on View for list items
+          <View key={`note-${note.filePath}`} style={styles.pinnedItem}>
+            <NoteCard
+              note={note}
+              onPress={(notePreview) => handleNotePress({
+                ...notePreview,
+                type: 'note' as const,
+              })}
+              onLongPress={(notePreview) => handleNoteLongPress({
+                ...notePreview,
+                type: 'note' as const,
+              })}
+              showTimestamp={showTimestamp}
+            />
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
   return (
     <SafeAreaView style={[{ flex: 1, backgroundColor: colors.background }]}>
       <View style={[styles.header, {
@@ -379,6 +942,20 @@ export default function HomeScreen() {
               ) : (
                 <Search size={24} color={colors.textMuted} />
               )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.headerButton, { backgroundColor: showAllNotes ? colors.highlightMed : colors.overlay }]}
+              onPress={handleViewPress}
+              activeOpacity={0.7}
+            >
+              <Layers size={24} color={showAllNotes ? colors.text : colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.headerButton, { backgroundColor: colors.overlay }]}
+              onPress={handleTasksPress}
+              activeOpacity={0.7}
+            >
+              <CheckSquare size={24} color={colors.textMuted} />
             </TouchableOpacity>            <TouchableOpacity
               style={[styles.headerButton, { backgroundColor: colors.overlay }]}
               onPress={handleSettingsPress}
@@ -389,7 +966,7 @@ export default function HomeScreen() {
             {!fabPositionBottom && (
               <TouchableOpacity
                 style={[styles.headerButton, { backgroundColor: colors.accent }]}
-                onPress={handleCreateNote}
+                onPress={handleCreatePress}
                 activeOpacity={0.7}
               >
                 <Plus size={24} color={colors.textMuted} />
@@ -406,7 +983,7 @@ export default function HomeScreen() {
                 borderColor: colors.border,
                 color: colors.text
               }]}
-              placeholder="Search items..."
+              placeholder="Search all notes..."
               placeholderTextColor={colors.textMuted}
               value={searchQuery}
               onChangeText={setSearchQuery}
@@ -414,10 +991,55 @@ export default function HomeScreen() {
             />
           </View>
         )}
+
+        {tags.length > 0 && (
+          <TagFilterBar
+            tags={tags}
+            selectedTag={selectedTag}
+            onSelectTag={setSelectedTag}
+            onOpenBrowser={handleTagsPress}
+          />
+        )}
       </View>
 
       <View style={styles.content}>
-        {filteredContents.folders.length === 0 && filteredContents.notes.length === 0 ? (
+        {searchQuery.trim() !== '' || selectedTag ? (
+          <SearchResults
+            results={getTagFilteredResults()}
+            folders={selectedTag ? [] : filteredContents.folders}
+            isSearching={isSearching}
+            onSelectResult={handleSearchResultPress}
+            onSelectFolder={handleFolderPress}
+          />
+        ) : showAllNotes ? (
+          allNotes.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>No notes yet</Text>
+              <Text style={[styles.emptyStateSubtext, { color: colors.textMuted }]}>
+                Notes from every folder will be listed here
+              </Text>
+            </View>
+          ) : (
+            <MasonryGrid
+              items={allNotes.map(note => (
+                <NoteCard
+                  note={note}
+                  onPress={(notePreview) => handleNotePress({
+                    ...notePreview,
+                    type: 'note' as const,
+                  })}
+                  onLongPress={(notePreview) => handleNoteLongPress({
+                    ...notePreview,
+                    type: 'note' as const,
+                  })}
+                  showTimestamp={showTimestamp}
+                />
+              ))}
+              numColumns={2}
+              spacing={SPACING.margin}
+            />
+          )
+        ) : filteredContents.folders.length === 0 && filteredContents.notes.length === 0 && !hasPinnedItems ? (
           <View style={styles.emptyState}>
             <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>
               {searchQuery ? 'No items found' : 'No items yet'}
@@ -431,9 +1053,10 @@ export default function HomeScreen() {
           </View>
         ) : (
           <MasonryGrid
+            header={hasPinnedItems ? renderPinnedSection() : undefined}
             items={[
               // Render folders first
-              ...filteredContents.folders.map((folder, index) => (
+              ...gridFolders.map((folder, index) => (
                 <FolderCard
                   folder={folder}
                   onPress={handleFolderPress}
@@ -442,7 +1065,7 @@ export default function HomeScreen() {
                 />
               )),
               // Then render notes
-              ...filteredContents.notes.map((note, index) => (
+              ...gridNotes.map((note, index) => (
                 <NoteCard
                   name={note.filename}
                   note={{
@@ -451,6 +1074,7 @@ export default function HomeScreen() {
                     createdAt: note.createdAt,
                     updatedAt: note.updatedAt,
                     filePath: note.filePath,
+                    backlinkCount: note.backlinkCount,
                   }}
                   onPress={(notePreview) => handleNotePress({
                     ...notePreview,
@@ -476,12 +1100,61 @@ export default function HomeScreen() {
             bottom: insets.bottom + 20,
             right: insets.bottom + 15,
           }]}
-          onPress={handleCreateNote}
+          onPress={handleCreatePress}
           activeOpacity={0.7}
         >
           <Plus size={32} color={colors.background} />
         </TouchableOpacity>
       )}
+
+      <ActionMenu
+        visible={actionMenu !== null}
+        title={actionMenu?.title || ''}
+        actions={actionMenu?.actions || []}
+        onClose={() => setActionMenu(null)}
+      />
+
+      <FolderPicker
+        visible={folderPicker !== null}
+        title={folderPicker?.mode === 'copyNote' ? 'Copy to Folder' : 'Move to Folder'}
+        currentFolderPath={folderPicker?.mode === 'moveFolder'
+          ? getFolderParentPath(folderPicker.folder)
+          : folderPicker?.mode === 'moveNote' ? getNoteFolderPath(folderPicker.note) : undefined}
+        excludeFolderPath={folderPicker?.mode === 'moveFolder'
+          ? joinFolderPath(getFolderParentPath(folderPicker.folder), folderPicker.folder.name)
+          : undefined}
+        onSelectFolder={handleFolderSelected}
+        onClose={() => setFolderPicker(null)}
+      />
+
+      <TextPromptModal
+        visible={creatingFolder}
+        title="New Folder"
+        placeholder="Folder name"
+        confirmText="Create"
+        onSubmit={handleCreateFolder}
+        onCancel={() => setCreatingFolder(false)}
+      />
+
+      <TextPromptModal
+        visible={renamingFolder !== null}
+        title="Rename Folder"
+        initialValue={renamingFolder?.name || ''}
+        confirmText="Rename"
+        onSubmit={handleRenameFolder}
+        onCancel={() => setRenamingFolder(null)}
+      />
+
+      <LinkUpdateModal
+        visible={linkUpdatePrompt !== null}
+        oldTitle={linkUpdatePrompt?.oldTitle || ''}
+        newTitle={linkUpdatePrompt?.newTitle || ''}
+        rewrites={linkUpdatePrompt?.rewrites || []}
+        action="move"
+        onApply={() => resolveLinkUpdate('apply')}
+        onSkip={() => resolveLinkUpdate('skip')}
+        onCancel={() => resolveLinkUpdate('cancel')}
+      />
     </SafeAreaView>
   );
 }
@@ -508,6 +1181,25 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     letterSpacing: -0.5,
   },
+  pinnedSection: {
+    paddingTop: SPACING.margin,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginHorizontal: SPACING.margin,
+    marginBottom: 8,
+  },
+  pinnedRow: {
+    alignItems: 'flex-start',
+    gap: SPACING.margin,
+    paddingHorizontal: SPACING.margin,
+  },
+  pinnedItem: {
+    width: 170,
+  },
   headerActions: {
     flexDirection: 'row',
     alignItems: 'center',
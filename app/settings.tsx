@@ -26,11 +26,29 @@ import {
   Clock,
   Save,
   Plus,
+  Trash,
+  Timer,
+  ArrowUpDown,
+  CalendarDays,
+  FileStack,
+  Type,
+  Wrench,
 } from 'lucide-react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { FileSystemService } from '@/services/FileSystemService';
 import { NoteSelector } from '@/components/NoteSelector';
+import ActionMenu from '@/components/ActionMenu';
+import FolderPicker from '@/components/FolderPicker';
+import ToolbarSettingsModal from '@/components/ToolbarSettingsModal';
+import { TOOLBAR_BUTTONS } from '@/components/FormattingToolbar';
+import TextPromptModal from '@/components/TextPromptModal';
 import { NotePreview } from '@/types/Note';
+import { DirectorySort, SortOrder } from '@/types/FileSystemItem';
+import { SORT_OPTIONS, describeSortOrder } from '@/services/Sorting';
+import { DailyNoteSettings } from '@/types/DailyNote';
+import { ToolbarSettings } from '@/types/Editor';
+import { formatDate } from '@/services/DailyNotes';
+import { buildVaultPath } from '@/services/VaultPath';
 
 export default function SettingsScreen() {
   const params = useLocalSearchParams();
@@ -80,6 +98,20 @@ export default function SettingsScreen() {
   const [quickNoteUri, setQuickNoteUri] = useState<string | null>(null);
   const [quickNoteFilename, setQuickNoteFilename] = useState<string | null>(null);
   const [showNoteSelector, setShowNoteSelector] = useState<boolean>(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number>(0);
+  const [showRetentionMenu, setShowRetentionMenu] = useState<boolean>(false);
+  const [autoSaveDelaySeconds, setAutoSaveDelaySeconds] = useState<number>(0);
+  const [showAutoSaveDelayMenu, setShowAutoSaveDelayMenu] = useState<boolean>(false);
+  const [defaultSort, setDefaultSort] = useState<DirectorySort | null>(null);
+  const [sortMenu, setSortMenu] = useState<keyof DirectorySort | null>(null);
+  const [dailyNoteSettings, setDailyNoteSettings] = useState<DailyNoteSettings | null>(null);
+  const [showDailyFolderPicker, setShowDailyFolderPicker] = useState<boolean>(false);
+  const [showDailyFormatPrompt, setShowDailyFormatPrompt] = useState<boolean>(false);
+  const [showDailyTemplateSelector, setShowDailyTemplateSelector] = useState<boolean>(false);
+  const [templatesFolder, setTemplatesFolder] = useState<string>('');
+  const [showTemplatesFolderPicker, setShowTemplatesFolderPicker] = useState<boolean>(false);
+  const [toolbarSettings, setToolbarSettings] = useState<ToolbarSettings | null>(null);
+  const [showToolbarSettings, setShowToolbarSettings] = useState<boolean>(false);
   const insets = useSafeAreaInsets();
   const fileSystemService = FileSystemService.getInstance();  React.useEffect(() => {
     loadNotesCount();
@@ -88,6 +120,11 @@ export default function SettingsScreen() {
     loadAutoSavePreference();
     loadFabPositionPreference();
     loadQuickNotePreference();
+    loadTrashRetentionPreference();
+    loadSortPreference();
+    loadDailyNotePreference();
+    loadTemplatesFolderPreference();
+    loadToolbarPreference();
   }, []);
 
   // Handle toast message from Quick Settings Tile
@@ -129,10 +166,32 @@ export default function SettingsScreen() {
     try {
       const autoSaveOnExit = await fileSystemService.getAutoSaveOnExit();
       setAutoSaveOnExit(autoSaveOnExit);
+      setAutoSaveDelaySeconds(await fileSystemService.getAutoSaveDelaySeconds());
     } catch (error) {
       console.error('Error loading auto-save preference:', error);
     }
   };
+
+  const loadToolbarPreference = async () => {
+    try {
+      setToolbarSettings(await fileSystemService.getToolbarSettings());
+    } catch (error) {
+      console.error('Error loading toolbar preference:', error);
+    }
+  };
+
+  const updateToolbarSettings = async (changes: Partial<ToolbarSettings>) => {
+    if (!toolbarSettings) return;
+    try {
+      const settings = { ...toolbarSettings, ...changes };
+      await fileSystemService.setToolbarSettings(settings);
+      setToolbarSettings(settings);
+    } catch (error) {
+      console.error('Error saving toolbar preference:', error);
+      HapticsService.error();
+    }
+  };
+
   const handleTimestampToggle = async (value: boolean) => {
     try {
       value ? HapticsService.toggleOn() : HapticsService.toggleOff();
@@ -154,6 +213,77 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleAutoSaveDelaySelect = async (seconds: number) => {
+    try {
+      HapticsService.selection();
+      await fileSystemService.setAutoSaveDelaySeconds(seconds);
+      setAutoSaveDelaySeconds(seconds);
+    } catch (error) {
+      console.error('Error saving auto-save delay preference:', error);
+      HapticsService.error();
+    }
+  };
+
+  const loadSortPreference = async () => {
+    try {
+      setDefaultSort(await fileSystemService.getDefaultSort());
+    } catch (error) {
+      console.error('Error loading sort preference:', error);
+    }
+  };
+
+  const handleSortSelect = async (target: keyof DirectorySort, order: SortOrder) => {
+    if (!defaultSort) return;
+    try {
+      HapticsService.selection();
+      const sort = { ...defaultSort, [target]: order };
+      await fileSystemService.setDefaultSort(sort);
+      setDefaultSort(sort);
+    } catch (error) {
+      console.error('Error saving sort preference:', error);
+      HapticsService.error();
+    }
+  };
+
+  const loadDailyNotePreference = async () => {
+    try {
+      setDailyNoteSettings(await fileSystemService.getDailyNoteSettings());
+    } catch (error) {
+      console.error('Error loading daily note preference:', error);
+    }
+  };
+
+  const updateDailyNoteSettings = async (changes: Partial<DailyNoteSettings>) => {
+    if (!dailyNoteSettings) return;
+    try {
+      await fileSystemService.setDailyNoteSettings({ ...dailyNoteSettings, ...changes });
+      setDailyNoteSettings(await fileSystemService.getDailyNoteSettings());
+      HapticsService.success();
+    } catch (error) {
+      console.error('Error saving daily note preference:', error);
+      HapticsService.error();
+    }
+  };
+
+  const loadTemplatesFolderPreference = async () => {
+    try {
+      setTemplatesFolder(await fileSystemService.getTemplatesFolder());
+    } catch (error) {
+      console.error('Error loading templates folder preference:', error);
+    }
+  };
+
+  const handleTemplatesFolderSelect = async (folder: string) => {
+    try {
+      await fileSystemService.setTemplatesFolder(folder);
+      setTemplatesFolder(folder);
+      HapticsService.success();
+    } catch (error) {
+      console.error('Error saving templates folder preference:', error);
+      HapticsService.error();
+    }
+  };
+
   const loadFabPositionPreference = async () => {
     try {
       const fabPositionBottom = await fileSystemService.getFabPositionBottom();
@@ -200,6 +330,26 @@ export default function SettingsScreen() {
     }
   };
 
+  const loadTrashRetentionPreference = async () => {
+    try {
+      setTrashRetentionDays(await fileSystemService.getTrashRetentionDays());
+    } catch (error) {
+      console.error('Error loading trash retention preference:', error);
+    }
+  };
+
+  const handleTrashRetentionSelect = async (days: number) => {
+    try {
+      HapticsService.selection();
+      await fileSystemService.setTrashRetentionDays(days);
+      setTrashRetentionDays(days);
+      await fileSystemService.purgeExpiredTrash();
+    } catch (error) {
+      console.error('Error saving trash retention preference:', error);
+      HapticsService.error();
+    }
+  };
+
   const getQuickNoteDisplayText = () => {
     if (!quickNoteFilename) {
       return 'No quick note selected';
@@ -278,7 +428,9 @@ export default function SettingsScreen() {
     HapticsService.warning();
     Alert.alert(
       'Clear All Notes',
-      'Are you sure you want to delete all notes? This action cannot be undone.',
+      fileSystemService.hasTrash()
+        ? 'Are you sure you want to delete all notes? They will be moved to the trash.'
+        : 'Are you sure you want to delete all notes? This action cannot be undone.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -301,7 +453,7 @@ export default function SettingsScreen() {
       }
       setNotesCount(0);
       HapticsService.success();
-      Alert.alert('Success', 'All notes have been deleted');
+      Alert.alert('Success', fileSystemService.hasTrash() ? 'All notes have been moved to the trash' : 'All notes have been deleted');
     } catch (error) {
       console.error('Error clearing notes:', error);
       HapticsService.error();
@@ -538,6 +690,47 @@ export default function SettingsScreen() {
             onSwitchChange={handleAutoSaveToggle}
           />
 
+          <SettingItem
+            icon={<Timer size={22} color={colors.textMuted} />}
+            title="Auto-save While Typing"
+            subtitle={autoSaveDelaySeconds > 0 ? `Save ${autoSaveDelaySeconds} seconds after you stop typing` : 'Off'}
+            onPress={() => setShowAutoSaveDelayMenu(true)}
+          />
+
+          <SettingItem
+            icon={<Type size={22} color={colors.textMuted} />}
+            title="Formatting Toolbar"
+            subtitle="Show formatting buttons above the keyboard while editing"
+            showSwitch={true}
+            switchValue={toolbarSettings?.enabled ?? true}
+            onSwitchChange={(enabled) => updateToolbarSettings({ enabled })}
+          />
+
+          {toolbarSettings?.enabled && (
+            <SettingItem
+              icon={<Wrench size={22} color={colors.textMuted} />}
+              title="Toolbar Buttons"
+              subtitle={toolbarSettings.actions.length > 0
+                ? toolbarSettings.actions.map(action => TOOLBAR_BUTTONS[action].label).join(', ')
+                : 'No buttons'}
+              onPress={() => setShowToolbarSettings(true)}
+            />
+          )}
+
+          <SettingItem
+            icon={<ArrowUpDown size={22} color={colors.textMuted} />}
+            title="Sort Notes"
+            subtitle={defaultSort ? describeSortOrder(defaultSort.notes) : ''}
+            onPress={() => setSortMenu('notes')}
+          />
+
+          <SettingItem
+            icon={<ArrowUpDown size={22} color={colors.textMuted} />}
+            title="Sort Folders"
+            subtitle={defaultSort ? describeSortOrder(defaultSort.folders) : ''}
+            onPress={() => setSortMenu('folders')}
+          />
+
           <SettingItem
             icon={<Plus size={22} color={colors.textMuted} />}
             title="New Note Button Position"
@@ -562,6 +755,56 @@ export default function SettingsScreen() {
           />
         </View>
 
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Templates</Text>
+
+          <SettingItem
+            icon={<FileStack size={22} color={colors.textMuted} />}
+            title="Templates Folder"
+            subtitle={templatesFolder || 'Not set, choose a folder to create notes from templates'}
+            onPress={() => {
+              HapticsService.tap();
+              setShowTemplatesFolderPicker(true);
+            }}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Daily Notes</Text>
+
+          <SettingItem
+            icon={<Folder size={22} color={colors.textMuted} />}
+            title="Daily Notes Folder"
+            subtitle={dailyNoteSettings?.folder || 'Vault root'}
+            onPress={() => {
+              HapticsService.tap();
+              setShowDailyFolderPicker(true);
+            }}
+          />
+
+          <SettingItem
+            icon={<CalendarDays size={22} color={colors.textMuted} />}
+            title="Date Format"
+            subtitle={dailyNoteSettings
+              ? `${dailyNoteSettings.format} (today: ${formatDate(new Date(), dailyNoteSettings.format)})`
+              : ''}
+            onPress={() => {
+              HapticsService.tap();
+              setShowDailyFormatPrompt(true);
+            }}
+          />
+
+          <SettingItem
+            icon={<FileText size={22} color={colors.textMuted} />}
+            title="Daily Note Template"
+            subtitle={dailyNoteSettings?.template || 'No template, daily notes start empty'}
+            onPress={() => {
+              HapticsService.tap();
+              setShowDailyTemplateSelector(true);
+            }}
+          />
+        </View>
+
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Data Management</Text>
           
@@ -585,6 +828,20 @@ export default function SettingsScreen() {
             subtitle="Import markdown files from a folder"
             onPress={handleImportNotes}
           />
+
+          <SettingItem
+            icon={<Trash size={22} color={colors.textMuted} />}
+            title="Trash"
+            subtitle="Restore or permanently delete removed notes"
+            onPress={() => router.push('/trash')}
+          />
+
+          <SettingItem
+            icon={<Timer size={22} color={colors.textMuted} />}
+            title="Auto-empty Trash"
+            subtitle={trashRetentionDays > 0 ? `Delete items after ${trashRetentionDays} days` : 'Never'}
+            onPress={() => setShowRetentionMenu(true)}
+          />
         </View>
 
         <View style={styles.section}>
@@ -593,7 +850,7 @@ export default function SettingsScreen() {
           <SettingItem
             icon={<Trash2 size={22} color={colors.love} />}
             title="Clear All Notes"
-            subtitle="Delete all notes permanently"
+            subtitle={fileSystemService.hasTrash() ? 'Move all notes to the trash' : 'Delete all notes permanently'}
             onPress={handleClearAllNotes}
             dangerous
           />
@@ -616,6 +873,102 @@ export default function SettingsScreen() {
         onClose={() => setShowNoteSelector(false)}
         onSelectNote={handleQuickNoteSelect}
       />
+
+      <ActionMenu
+        visible={showRetentionMenu}
+        title="Auto-empty Trash"
+        message="Permanently delete trashed items after"
+        actions={[
+          { label: 'Never', onPress: () => handleTrashRetentionSelect(0) },
+          { label: '7 days', onPress: () => handleTrashRetentionSelect(7) },
+          { label: '30 days', onPress: () => handleTrashRetentionSelect(30) },
+          { label: '90 days', onPress: () => handleTrashRetentionSelect(90) },
+        ]}
+        onClose={() => setShowRetentionMenu(false)}
+      />
+
+      <ActionMenu
+        visible={showAutoSaveDelayMenu}
+        title="Auto-save While Typing"
+        message="Save notes in the background after you stop typing for"
+        actions={[
+          { label: 'Off', onPress: () => handleAutoSaveDelaySelect(0) },
+          { label: '2 seconds', onPress: () => handleAutoSaveDelaySelect(2) },
+          { label: '5 seconds', onPress: () => handleAutoSaveDelaySelect(5) },
+          { label: '10 seconds', onPress: () => handleAutoSaveDelaySelect(10) },
+          { label: '30 seconds', onPress: () => handleAutoSaveDelaySelect(30) },
+        ]}
+        onClose={() => setShowAutoSaveDelayMenu(false)}
+      />
+
+      <FolderPicker
+        visible={showDailyFolderPicker}
+        title="Daily Notes Folder"
+        currentFolderPath={dailyNoteSettings?.folder}
+        onSelectFolder={(folder) => {
+          setShowDailyFolderPicker(false);
+          updateDailyNoteSettings({ folder });
+        }}
+        onClose={() => setShowDailyFolderPicker(false)}
+      />
+
+      <FolderPicker
+        visible={showTemplatesFolderPicker}
+        title="Templates Folder"
+        currentFolderPath={templatesFolder}
+        onSelectFolder={(folder) => {
+          setShowTemplatesFolderPicker(false);
+          handleTemplatesFolderSelect(folder);
+        }}
+        onClose={() => setShowTemplatesFolderPicker(false)}
+      />
+
+      <ToolbarSettingsModal
+        visible={showToolbarSettings}
+        actions={toolbarSettings?.actions || []}
+        onSave={(actions) => {
+          setShowToolbarSettings(false);
+          updateToolbarSettings({ actions });
+        }}
+        onClose={() => setShowToolbarSettings(false)}
+      />
+
+      <TextPromptModal
+        visible={showDailyFormatPrompt}
+        title="Date Format"
+        message="Tokens like YYYY, MM, DD and dddd are replaced by the date. Use slashes for subfolders, like YYYY/MM/YYYY-MM-DD."
+        initialValue={dailyNoteSettings?.format}
+        placeholder="YYYY-MM-DD"
+        onSubmit={(format) => {
+          setShowDailyFormatPrompt(false);
+          updateDailyNoteSettings({ format });
+        }}
+        onCancel={() => setShowDailyFormatPrompt(false)}
+      />
+
+      <NoteSelector
+        visible={showDailyTemplateSelector}
+        currentQuickNoteUri={null}
+        selectedPath={dailyNoteSettings?.template}
+        title="Daily Note Template"
+        description="New daily notes start as a copy of this note. {{date}}, {{time}}, {{title}} and {{folder}} in it are filled in."
+        clearLabel="Don't Use a Template"
+        onClose={() => setShowDailyTemplateSelector(false)}
+        onSelectNote={(note) => updateDailyNoteSettings({
+          template: note ? buildVaultPath(note.filename, note.folderPath) : '',
+        })}
+      />
+
+      <ActionMenu
+        visible={sortMenu !== null}
+        title={sortMenu === 'folders' ? 'Sort Folders' : 'Sort Notes'}
+        message="Folders can override this from the view menu on the home screen"
+        actions={SORT_OPTIONS.map(option => ({
+          label: option.label,
+          onPress: () => sortMenu && handleSortSelect(sortMenu, option.order),
+        }))}
+        onClose={() => setSortMenu(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -0,0 +1,250 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ArrowLeft, Hash } from 'lucide-react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { useTheme } from '@/components/ThemeProvider';
+import { FileSystemService } from '@/services/FileSystemService';
+import { TagCount } from '@/types/Tag';
+import { RADIUS, SPACING } from '@/theme';
+
+type TagSort = 'name' | 'count';
+
+export default function TagsScreen() {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<TagSort>('name');
+  const fileSystemService = FileSystemService.getInstance();
+
+  useFocusEffect(
+    useCallback(() => {
+      const loadTags = async () => {
+        try {
+          setTags(await fileSystemService.getAllTags());
+        } catch (error) {
+          console.error('Error loading tags:', error);
+          Alert.alert('Error', 'Failed to load tags');
+        } finally {
+          setLoading(false);
+        }
+      };
+      loadTags();
+    }, [])
+  );
+
+  // Sorting by name keeps nested tags directly under their parent
+  const visibleTags = useMemo(() => {
+    const query = filter.trim().replace(/^#/, '').toLowerCase();
+    const matching = query ? tags.filter(item => item.tag.toLowerCase().includes(query)) : tags;
+    return [...matching].sort((a, b) =>
+      sort === 'name'
+        ? a.tag.toLowerCase().localeCompare(b.tag.toLowerCase())
+        : b.count - a.count || a.tag.localeCompare(b.tag)
+    );
+  }, [tags, filter, sort]);
+
+  const handleBackPress = () => {
+    HapticsService.tap();
+    router.back();
+  };
+
+  const handleTagPress = (tag: string) => {
+    HapticsService.selection();
+    router.push({ pathname: '/', params: { tag } });
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, {
+        backgroundColor: colors.surface,
+        borderBottomColor: colors.border,
+        paddingTop: insets.top,
+      }]}>
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: colors.overlay }]}
+          onPress={handleBackPress}
+          activeOpacity={0.7}
+        >
+          <ArrowLeft size={24} color={colors.textMuted} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Tags</Text>
+        <TouchableOpacity
+          style={[styles.sortButton, { backgroundColor: colors.overlay }]}
+          onPress={() => {
+            HapticsService.press();
+            setSort(sort === 'name' ? 'count' : 'name');
+          }}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.sortButtonText, { color: colors.textMuted }]}>
+            {sort === 'name' ? 'A-Z' : 'Count'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.filterContainer}>
+        <TextInput
+          style={[styles.filterInput, {
+            backgroundColor: colors.overlay,
+            borderColor: colors.border,
+            color: colors.text,
+          }]}
+          placeholder="Filter tags..."
+          placeholderTextColor={colors.textMuted}
+          value={filter}
+          onChangeText={setFilter}
+          autoCapitalize="none"
+        />
+      </View>
+
+      {loading ? (
+        <View style={styles.emptyState}>
+          <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>Collecting tags...</Text>
+        </View>
+      ) : visibleTags.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Hash size={48} color={colors.textMuted} />
+          <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>No tags found</Text>
+          <Text style={[styles.emptyStateSubtext, { color: colors.textMuted }]}>
+            Add #tags to your notes or a tags: property
+          </Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+          {visibleTags.map(item => {
+            const depth = sort === 'name' ? item.tag.split('/').length - 1 : 0;
+            return (
+              <TouchableOpacity
+                // @ts-ignore: Allow key on TouchableOpacity for list items
+                key={item.tag}
+                style={[styles.tagItem, {
+                  backgroundColor: colors.surface,
+                  borderColor: colors.border,
+                  marginLeft: depth * 16,
+                }]}
+                onPress={() => handleTagPress(item.tag)}
+                activeOpacity={0.7}
+              >
+                <Hash size={16} color={colors.pine} />
+                <Text style={[styles.tagText, { color: colors.text }]} numberOfLines={1}>
+                  {depth > 0 ? item.tag.split('/').pop() : item.tag}
+                </Text>
+                <Text style={[styles.tagCount, { color: colors.textMuted }]}>{item.count}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  backButton: {
+    padding: 10,
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  sortButton: {
+    minWidth: 44,
+    paddingHorizontal: 10,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  sortButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  filterContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  filterInput: {
+    borderWidth: 1,
+    borderRadius: RADIUS.small,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  tagItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: RADIUS.small,
+    borderWidth: 1,
+    padding: SPACING.largePadding,
+    marginBottom: 6,
+  },
+  tagText: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginLeft: 8,
+    flex: 1,
+  },
+  tagCount: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyStateText: {
+    fontSize: 20,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
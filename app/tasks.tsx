@@ -0,0 +1,445 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ArrowLeft, Square, CheckSquare, Calendar, FileText, Folder } from 'lucide-react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { useTheme } from '@/components/ThemeProvider';
+import { FileSystemService } from '@/services/FileSystemService';
+import { TaskPriority, VaultTask } from '@/types/Task';
+import { RADIUS, SPACING } from '@/theme';
+
+type TaskFilter = 'open' | 'done' | 'all';
+type TaskGrouping = 'note' | 'folder';
+
+const FILTER_OPTIONS: { label: string; value: TaskFilter }[] = [
+  { label: 'Open', value: 'open' },
+  { label: 'Done', value: 'done' },
+  { label: 'All', value: 'all' },
+];
+
+const GROUPING_OPTIONS: { label: string; value: TaskGrouping }[] = [
+  { label: 'By Note', value: 'note' },
+  { label: 'By Folder', value: 'folder' },
+];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  highest: 0,
+  high: 1,
+  medium: 2,
+  low: 4,
+  lowest: 5,
+};
+const NO_PRIORITY_RANK = 3;
+
+const getTodayString = (): string => {
+  const today = new Date();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const day = String(today.getDate()).padStart(2, '0');
+  return `${today.getFullYear()}-${month}-${day}`;
+};
+
+// Due date first (undated last), then priority, then position in the note
+const compareTasks = (a: VaultTask, b: VaultTask): number => {
+  if (a.dueDate !== b.dueDate) {
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return a.dueDate.localeCompare(b.dueDate);
+  }
+  const aRank = a.priority ? PRIORITY_RANK[a.priority] : NO_PRIORITY_RANK;
+  const bRank = b.priority ? PRIORITY_RANK[b.priority] : NO_PRIORITY_RANK;
+  return aRank - bRank || a.path.localeCompare(b.path) || a.line - b.line;
+};
+
+export default function TasksScreen() {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [tasks, setTasks] = useState<VaultTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TaskFilter>('open');
+  const [grouping, setGrouping] = useState<TaskGrouping>('note');
+  const fileSystemService = FileSystemService.getInstance();
+
+  const loadTasks = async () => {
+    try {
+      const vaultTasks = await fileSystemService.getVaultTasks();
+      setTasks(vaultTasks);
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+      Alert.alert('Error', 'Failed to load tasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload when returning from the editor, where tasks may have changed
+  useFocusEffect(
+    useCallback(() => {
+      loadTasks();
+    }, [])
+  );
+
+  const groups = useMemo(() => {
+    const visible = tasks.filter(task =>
+      filter === 'all' || (filter === 'done' ? task.completed : !task.completed)
+    );
+
+    const grouped = new Map<string, VaultTask[]>();
+    for (const task of visible) {
+      const key = grouping === 'note' ? task.path : task.folderPath;
+      grouped.set(key, [...(grouped.get(key) || []), task]);
+    }
+
+    return Array.from(grouped.entries())
+      .map(([key, groupTasks]) => ({ key, tasks: groupTasks.sort(compareTasks) }))
+      .sort((a, b) => compareTasks(a.tasks[0], b.tasks[0]) || a.key.localeCompare(b.key));
+  }, [tasks, filter, grouping]);
+
+  const openCount = tasks.filter(task => !task.completed).length;
+  const today = getTodayString();
+
+  const handleBackPress = () => {
+    HapticsService.tap();
+    router.back();
+  };
+
+  const handleToggleTask = async (task: VaultTask) => {
+    if (task.completed) {
+      HapticsService.toggleOff();
+    } else {
+      HapticsService.toggleOn();
+    }
+    try {
+      const updated = await fileSystemService.toggleVaultTask(task);
+      setTasks(current => current.map(item => (item === task ? updated : item)));
+    } catch (error) {
+      console.error('Error toggling task:', error);
+      HapticsService.error();
+      Alert.alert('Error', 'Failed to update task. The note may have changed, so the list has been refreshed.');
+      loadTasks();
+    }
+  };
+
+  const handleOpenTask = (task: VaultTask) => {
+    HapticsService.selection();
+    router.push({
+      pathname: '/editor',
+      params: { mode: 'edit', noteId: task.filename, folderPath: task.folderPath, line: String(task.line) }
+    });
+  };
+
+  const getGroupTitle = (key: string): string => {
+    if (grouping === 'folder') {
+      return key || 'Vault root';
+    }
+    return key.replace(/\.md$/, '');
+  };
+
+  const getDueColor = (dueDate: string): string => {
+    if (dueDate < today) return colors.love;
+    if (dueDate === today) return colors.gold;
+    return colors.textMuted;
+  };
+
+  const getPriorityColor = (priority: TaskPriority): string => {
+    switch (priority) {
+      case 'highest':
+      case 'high':
+        return colors.love;
+      case 'medium':
+        return colors.gold;
+      default:
+        return colors.foam;
+    }
+  };
+
+  const renderSegmentedControl = <T extends string>(
+    options: { label: string; value: T }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={[styles.segmentedControl, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      {options.map(option => (
+        <TouchableOpacity
+          // @ts-ignore: Allow key on TouchableOpacity for list items
+          key={option.value}
+          style={[styles.segment, selected === option.value && { backgroundColor: colors.highlightMed }]}
+          onPress={() => {
+            HapticsService.press();
+            onSelect(option.value);
+          }}
+          activeOpacity={0.8}
+        >
+          <Text style={[styles.segmentText, { color: selected === option.value ? colors.text : colors.textMuted }]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, {
+        backgroundColor: colors.surface,
+        borderBottomColor: colors.border,
+        paddingTop: insets.top,
+      }]}>
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: colors.overlay }]}
+          onPress={handleBackPress}
+          activeOpacity={0.7}
+        >
+          <ArrowLeft size={24} color={colors.textMuted} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Tasks</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.controls}>
+        {renderSegmentedControl(FILTER_OPTIONS, filter, setFilter)}
+        {renderSegmentedControl(GROUPING_OPTIONS, grouping, setGrouping)}
+      </View>
+
+      {loading ? (
+        <View style={styles.emptyState}>
+          <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>Collecting tasks...</Text>
+        </View>
+      ) : groups.length === 0 ? (
+        <View style={styles.emptyState}>
+          <CheckSquare size={48} color={colors.textMuted} />
+          <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>
+            {filter === 'done' ? 'No completed tasks' : 'No open tasks'}
+          </Text>
+          <Text style={[styles.emptyStateSubtext, { color: colors.textMuted }]}>
+            Add tasks to any note with "- [ ]"
+          </Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} showsVerticalScrollIndicator={false}>
+          <Text style={[styles.summary, { color: colors.textMuted }]}>
+            {`${openCount} open ${openCount === 1 ? 'task' : 'tasks'} across the vault`}
+          </Text>
+
+          {groups.map(group => (
+            // @ts-ignore: Allow key on View for list items
+            <View key={group.key} style={styles.group}>
+              <View style={styles.groupHeader}>
+                {grouping === 'note' ? (
+                  <FileText size={16} color={colors.foam} />
+                ) : (
+                  <Folder size={16} color={colors.accent} />
+                )}
+                <Text style={[styles.groupTitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {getGroupTitle(group.key)}
+                </Text>
+                <Text style={[styles.groupCount, { color: colors.textMuted }]}>{group.tasks.length}</Text>
+              </View>
+
+              {group.tasks.map(task => (
+                <View
+                  // @ts-ignore: Allow key on View for list items
+                  key={`${task.path}:${task.line}`}
+                  style={[styles.taskItem, {
+                    backgroundColor: colors.surface,
+                    borderColor: colors.border,
+                    marginLeft: grouping === 'note' ? task.depth * 16 : 0,
+                  }]}
+                >
+                  <TouchableOpacity
+                    style={styles.checkbox}
+                    onPress={() => handleToggleTask(task)}
+                    activeOpacity={0.7}
+                  >
+                    {task.completed ? (
+                      <CheckSquare size={22} color={colors.pine} />
+                    ) : (
+                      <Square size={22} color={colors.textMuted} />
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.taskBody} onPress={() => handleOpenTask(task)} activeOpacity={0.7}>
+                    <Text
+                      style={[styles.taskText, {
+                        color: task.completed ? colors.textMuted : colors.text,
+                        textDecorationLine: task.completed ? 'line-through' : 'none',
+                      }]}
+                    >
+                      {task.text || 'Untitled task'}
+                    </Text>
+                    {(task.dueDate || task.priority || grouping === 'folder') && (
+                      <View style={styles.taskMeta}>
+                        {task.dueDate && (
+                          <View style={styles.metaItem}>
+                            <Calendar size={12} color={getDueColor(task.dueDate)} />
+                            <Text style={[styles.metaText, { color: getDueColor(task.dueDate) }]}>
+                              {task.dueDate === today ? 'Today' : task.dueDate}
+                            </Text>
+                          </View>
+                        )}
+                        {task.priority && (
+                          <Text style={[styles.metaText, { color: getPriorityColor(task.priority) }]}>
+                            {task.priority}
+                          </Text>
+                        )}
+                        {grouping === 'folder' && (
+                          <Text style={[styles.metaText, { color: colors.textMuted }]} numberOfLines={1}>
+                            {task.filename}
+                          </Text>
+                        )}
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  backButton: {
+    padding: 10,
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  placeholder: {
+    width: 44,
+  },
+  controls: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    gap: 8,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 4,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  summary: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginVertical: 16,
+  },
+  group: {
+    marginBottom: 20,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  groupTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+    flex: 1,
+  },
+  groupCount: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  taskItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderRadius: RADIUS.small,
+    borderWidth: 1,
+    padding: SPACING.largePadding,
+    marginBottom: 6,
+  },
+  checkbox: {
+    paddingRight: 10,
+  },
+  taskBody: {
+    flex: 1,
+  },
+  taskText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  taskMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 4,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  metaText: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyStateText: {
+    fontSize: 20,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
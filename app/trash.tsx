@@ -0,0 +1,293 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ArrowLeft, FileText, Folder, Trash2 } from 'lucide-react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { useTheme } from '@/components/ThemeProvider';
+import { FileSystemService } from '@/services/FileSystemService';
+import { splitVaultPath } from '@/services/VaultPath';
+import { TrashItem } from '@/types/Trash';
+import { RADIUS, SPACING } from '@/theme';
+
+export default function TrashScreen() {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const fileSystemService = FileSystemService.getInstance();
+
+  const loadTrash = async () => {
+    try {
+      setItems(await fileSystemService.getTrashItems());
+      setRetentionDays(await fileSystemService.getTrashRetentionDays());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [])
+  );
+
+  const handleBackPress = () => {
+    HapticsService.tap();
+    router.back();
+  };
+
+  const formatDeletedAt = (deletedAt: number): string => {
+    const diffDays = Math.floor((Date.now() - deletedAt) / (1000 * 60 * 60 * 24));
+    if (diffDays === 0) return 'Deleted today';
+    if (diffDays === 1) return 'Deleted yesterday';
+    if (diffDays <= 7) return `Deleted ${diffDays} days ago`;
+    return `Deleted ${new Date(deletedAt).toLocaleDateString()}`;
+  };
+
+  const getOriginalFolder = (item: TrashItem): string => {
+    return splitVaultPath(item.originalPath).folderPath || 'Vault root';
+  };
+
+  const handleItemPress = (item: TrashItem) => {
+    HapticsService.selection();
+    Alert.alert(
+      item.name,
+      `Restore to "${getOriginalFolder(item)}" or delete it permanently?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: () => {
+            HapticsService.warning();
+            deleteItem(item);
+          }
+        },
+        {
+          text: 'Restore',
+          onPress: () => {
+            HapticsService.tap();
+            restoreItem(item);
+          }
+        },
+      ]
+    );
+  };
+
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      const restoredPath = await fileSystemService.restoreTrashItem(item);
+      await loadTrash();
+      HapticsService.success();
+      if (restoredPath !== item.originalPath) {
+        Alert.alert('Restored', `"${item.originalPath}" was taken, so the ${item.type} was restored as "${restoredPath}".`);
+      }
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      HapticsService.error();
+      Alert.alert('Error', 'Failed to restore item. Please try again.');
+    }
+  };
+
+  const deleteItem = async (item: TrashItem) => {
+    try {
+      await fileSystemService.deleteTrashItem(item);
+      await loadTrash();
+      HapticsService.success();
+    } catch (error) {
+      console.error('Error deleting item:', error);
+      HapticsService.error();
+      Alert.alert('Error', 'Failed to delete item. Please try again.');
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    HapticsService.warning();
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${items.length} ${items.length === 1 ? 'item' : 'items'}? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await fileSystemService.emptyTrash();
+              await loadTrash();
+              HapticsService.success();
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              HapticsService.error();
+              Alert.alert('Error', 'Failed to empty trash. Please try again.');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, {
+        backgroundColor: colors.surface,
+        borderBottomColor: colors.border,
+        paddingTop: insets.top,
+      }]}>
+        <TouchableOpacity
+          style={[styles.headerButton, { backgroundColor: colors.overlay }]}
+          onPress={handleBackPress}
+          activeOpacity={0.7}
+        >
+          <ArrowLeft size={24} color={colors.textMuted} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Trash</Text>
+        <TouchableOpacity
+          style={[styles.headerButton, { backgroundColor: colors.overlay, opacity: items.length > 0 ? 1 : 0.4 }]}
+          onPress={handleEmptyTrash}
+          disabled={items.length === 0}
+          activeOpacity={0.7}
+        >
+          <Trash2 size={24} color={colors.love} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.emptyState}>
+          <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>Loading trash...</Text>
+        </View>
+      ) : items.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Trash2 size={48} color={colors.textMuted} />
+          <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>Trash is empty</Text>
+          <Text style={[styles.emptyStateSubtext, { color: colors.textMuted }]}>
+            Deleted notes and folders appear here until the trash is emptied
+          </Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {retentionDays > 0 && (
+            <Text style={[styles.retentionText, { color: colors.textMuted }]}>
+              {`Items are permanently deleted after ${retentionDays} days`}
+            </Text>
+          )}
+          {items.map(item => (
+            <TouchableOpacity
+              // @ts-ignore: Allow key on TouchableOpacity for list items
+              key={item.id}
+              style={[styles.item, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              onPress={() => handleItemPress(item)}
+              activeOpacity={0.7}
+            >
+              {item.type === 'folder'
+                ? <Folder size={20} color={colors.accent} />
+                : <FileText size={20} color={colors.textMuted} />}
+              <View style={styles.itemContent}>
+                <Text style={[styles.itemName, { color: colors.text }]} numberOfLines={1}>
+                  {item.name}
+                </Text>
+                <Text style={[styles.itemDetail, { color: colors.textMuted }]} numberOfLines={1}>
+                  {`${getOriginalFolder(item)} · ${formatDeletedAt(item.deletedAt)}`}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  headerButton: {
+    padding: 10,
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  retentionText: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: RADIUS.small,
+    borderWidth: 1,
+    padding: SPACING.largePadding,
+    marginBottom: 6,
+  },
+  itemContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  itemDetail: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyStateText: {
+    fontSize: 20,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,132 @@
+import React, { useRef } from 'react';
+import { Text, StyleSheet, TouchableOpacity, Modal, Pressable, Platform } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { HapticsService } from '@/services/HapticsService';
+import { RADIUS } from '../theme';
+import { useTheme } from './ThemeProvider';
+
+export interface ActionMenuItem {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+}
+
+interface ActionMenuProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  actions: ActionMenuItem[];
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet of actions. Used instead of Alert where Android's three-button limit is too few.
+ */
+export default function ActionMenu({ visible, title, message, actions, onClose }: ActionMenuProps) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const pendingAction = useRef<(() => void) | null>(null);
+
+  const handleActionPress = (action: ActionMenuItem) => {
+    if (Platform.OS === 'ios') {
+      // iOS cannot present another modal until this one has finished dismissing
+      pendingAction.current = action.onPress;
+      onClose();
+    } else {
+      onClose();
+      action.onPress();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+      onDismiss={() => {
+        pendingAction.current?.();
+        pendingAction.current = null;
+      }}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable
+          style={[styles.sheet, {
+            backgroundColor: colors.surface,
+            borderColor: colors.border,
+            paddingBottom: insets.bottom + 12,
+          }]}
+        >
+          <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>{title}</Text>
+          {message && (
+            <Text style={[styles.message, { color: colors.textMuted }]} numberOfLines={2}>{message}</Text>
+          )}
+
+          {actions.map(action => (
+            <TouchableOpacity
+              // @ts-ignore: Allow key on TouchableOpacity for list items
+              key={action.label}
+              style={[styles.action, { borderTopColor: colors.border }]}
+              onPress={() => handleActionPress(action)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: action.destructive ? colors.love : colors.text }]}>
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: colors.overlay }]}
+            onPress={() => {
+              HapticsService.tap();
+              onClose();
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.actionText, { color: colors.textMuted }]}>Cancel</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: RADIUS.large,
+    borderTopRightRadius: RADIUS.large,
+    borderWidth: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  message: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  action: {
+    paddingVertical: 14,
+    borderTopWidth: 1,
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  cancelButton: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: RADIUS.small,
+    alignItems: 'center',
+  },
+});
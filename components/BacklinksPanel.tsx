@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronDown, ChevronRight, Link } from 'lucide-react-native';
+import { Backlink } from '@/types/Link';
+import { FileSystemService } from '@/services/FileSystemService';
+import { RADIUS, SPACING } from '../theme';
+import { useTheme } from './ThemeProvider';
+import { HapticsService } from '@/services/HapticsService';
+
+interface BacklinksPanelProps {
+  filename: string;
+  folderPath?: string;
+  refreshKey?: number;
+  onSelect: (backlink: Backlink) => void;
+}
+
+export default function BacklinksPanel({ filename, folderPath, refreshKey, onSelect }: BacklinksPanelProps) {
+  const { colors } = useTheme();
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+  const [mentions, setMentions] = useState<Backlink[]>([]);
+  const [showBacklinks, setShowBacklinks] = useState(true);
+  const [showMentions, setShowMentions] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fileSystemService = FileSystemService.getInstance();
+
+    const loadLinks = async () => {
+      try {
+        const [linked, unlinked] = await Promise.all([
+          fileSystemService.getBacklinks(filename, folderPath),
+          fileSystemService.getUnlinkedMentions(filename, folderPath),
+        ]);
+        if (!cancelled) {
+          setBacklinks(linked);
+          setMentions(unlinked);
+        }
+      } catch (error) {
+        console.error('Error loading backlinks:', error);
+      }
+    };
+
+    loadLinks();
+    return () => {
+      cancelled = true;
+    };
+  }, [filename, folderPath, refreshKey]);
+
+  const renderSection = (
+    title: string,
+    items: Backlink[],
+    expanded: boolean,
+    onToggle: () => void
+  ) => (
+    <View style={styles.section}>
+      <TouchableOpacity
+        style={styles.sectionHeader}
+        onPress={() => {
+          HapticsService.tap();
+          onToggle();
+        }}
+        activeOpacity={0.7}
+      >
+        {expanded ? (
+          <ChevronDown size={16} color={colors.textMuted} />
+        ) : (
+          <ChevronRight size={16} color={colors.textMuted} />
+        )}
+        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+          {title}
+        </Text>
+        <Text style={[styles.sectionCount, { color: colors.textMuted }]}>{items.length}</Text>
+      </TouchableOpacity>
+
+      {expanded && items.length === 0 && (
+        <Text style={[styles.emptyText, { color: colors.textMuted }]}>None</Text>
+      )}
+
+      {expanded && items.map(item => (
+        <TouchableOpacity
+          // @ts-ignore: Allow key on TouchableOpacity for list items
+          key={`${item.path}:${item.line}`}
+          style={[styles.item, { backgroundColor: colors.surface, borderColor: colors.border }]}
+          onPress={() => {
+            HapticsService.selection();
+            onSelect(item);
+          }}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={1}>
+            {item.folderPath ? `${item.folderPath}/${item.filename}` : item.filename}
+          </Text>
+          <Text style={[styles.itemContext, { color: colors.textSecondary }]} numberOfLines={2}>
+            {item.context}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { borderTopColor: colors.border }]}>
+      <View style={styles.header}>
+        <Link size={16} color={colors.iris} />
+        <Text style={[styles.headerText, { color: colors.text }]}>Links to this note</Text>
+      </View>
+      {renderSection('Linked mentions', backlinks, showBacklinks, () => setShowBacklinks(!showBacklinks))}
+      {renderSection('Unlinked mentions', mentions, showMentions, () => setShowMentions(!showMentions))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    paddingHorizontal: 25,
+    paddingTop: SPACING.largePadding,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.padding,
+  },
+  headerText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  section: {
+    marginBottom: SPACING.padding,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+    flex: 1,
+  },
+  sectionCount: {
+    fontSize: 13,
+  },
+  emptyText: {
+    fontSize: 13,
+    marginLeft: 20,
+    marginBottom: 4,
+  },
+  item: {
+    borderRadius: RADIUS.small,
+    borderWidth: 1,
+    padding: SPACING.padding,
+    marginTop: 6,
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  itemContext: {
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+});
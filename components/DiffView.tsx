@@ -0,0 +1,60 @@
+import React from 'react';
+import { Text, StyleSheet, ScrollView } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { CollapsedDiffLine } from '../services/TextDiff';
+
+interface DiffViewProps {
+  lines: CollapsedDiffLine[] | null; // null while the texts are loading
+  emptyText?: string;
+}
+
+export default function DiffView({ lines, emptyText = 'No differences' }: DiffViewProps) {
+  const { colors } = useTheme();
+  const hasChanges = lines !== null && lines.some(line => line.type === 'added' || line.type === 'removed');
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      {lines === null ? (
+        <Text style={[styles.line, { color: colors.textMuted }]}>Loading...</Text>
+      ) : !hasChanges ? (
+        <Text style={[styles.line, { color: colors.textMuted }]}>{emptyText}</Text>
+      ) : (
+        lines.map((line, index) => line.type === 'skipped' ? (
+          <Text
+            // @ts-ignore: Allow key on Text for list items
+            key={index}
+            style={[styles.line, { color: colors.textMuted }]}
+          >
+            {`⋯ ${line.count} unchanged ${line.count === 1 ? 'line' : 'lines'}`}
+          </Text>
+        ) : (
+          <Text
+            // @ts-ignore: Allow key on Text for list items
+            key={index}
+            style={[styles.line, {
+              color: line.type === 'added' ? colors.pine : line.type === 'removed' ? colors.love : colors.text,
+              backgroundColor: line.type === 'same' ? 'transparent' : colors.overlay,
+            }]}
+          >
+            {`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} ${line.text}`}
+          </Text>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 8,
+  },
+  line: {
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: 'monospace',
+    paddingHorizontal: 4,
+  },
+});
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { X } from 'lucide-react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { useTheme } from './ThemeProvider';
+import DiffView from './DiffView';
+import { FileSystemService } from '../services/FileSystemService';
+import { CollapsedDiffLine, collapseDiff, diffLines } from '../services/TextDiff';
+import { NoteDraft } from '../types/Draft';
+
+/**
+ * Offers to recover editor drafts left behind when the app was killed with unsaved changes
+ */
+export default function DraftRecovery() {
+  const { colors } = useTheme();
+  const [comparing, setComparing] = useState<{
+    draft: NoteDraft;
+    remaining: NoteDraft[];
+    diff: CollapsedDiffLine[];
+  } | null>(null);
+  const fileSystemService = FileSystemService.getInstance();
+
+  useEffect(() => {
+    const checkDrafts = async () => {
+      try {
+        promptDrafts(await fileSystemService.getDrafts());
+      } catch (error) {
+        console.error('Error checking drafts:', error);
+      }
+    };
+    checkDrafts();
+  }, []);
+
+  const getDraftTitle = (draft: NoteDraft): string => draft.title.trim() || draft.filename || 'Untitled';
+
+  const promptDrafts = (drafts: NoteDraft[]) => {
+    const [draft, ...remaining] = drafts;
+    if (!draft) return;
+
+    HapticsService.warning();
+    Alert.alert(
+      'Recover Unsaved Changes',
+      `"${getDraftTitle(draft)}" had unsaved changes when the app closed (${new Date(draft.updatedAt).toLocaleString()}).`,
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => discardDraft(draft, remaining),
+        },
+        {
+          text: 'Compare',
+          onPress: () => compareDraft(draft, remaining),
+        },
+        {
+          text: 'Restore',
+          onPress: () => restoreDraft(draft),
+        },
+      ],
+      { cancelable: false }
+    );
+  };
+
+  const discardDraft = async (draft: NoteDraft, remaining: NoteDraft[]) => {
+    HapticsService.tap();
+    setComparing(null);
+    await fileSystemService.clearDraft(draft.key);
+    promptDrafts(remaining);
+  };
+
+  // Remaining drafts are offered again on the next launch
+  const restoreDraft = (draft: NoteDraft) => {
+    HapticsService.success();
+    setComparing(null);
+    router.push({
+      pathname: '/editor',
+      params: draft.filename
+        ? { mode: 'edit', noteId: draft.filename, folderPath: draft.folderPath, draft: draft.key }
+        : { mode: 'create', folderPath: draft.folderPath, draft: draft.key },
+    });
+  };
+
+  const compareDraft = async (draft: NoteDraft, remaining: NoteDraft[]) => {
+    HapticsService.tap();
+    try {
+      const saved = draft.filename ? await fileSystemService.getNote(draft.filename, draft.folderPath) : null;
+      setComparing({ draft, remaining, diff: collapseDiff(diffLines(saved?.content || '', draft.content)) });
+    } catch (error) {
+      console.error('Error comparing draft:', error);
+      promptDrafts([draft, ...remaining]);
+    }
+  };
+
+  // Closing the comparison goes back to the recovery prompt for the same draft
+  const closeCompare = () => {
+    if (!comparing) return;
+    HapticsService.tap();
+    setComparing(null);
+    promptDrafts([comparing.draft, ...comparing.remaining]);
+  };
+
+  return (
+    <Modal
+      visible={comparing !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={closeCompare}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+            {comparing ? getDraftTitle(comparing.draft) : ''}
+          </Text>
+          <TouchableOpacity
+            style={[styles.closeButton, { backgroundColor: colors.overlay }]}
+            onPress={closeCompare}
+            activeOpacity={0.7}
+          >
+            <X size={20} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.content}>
+          <Text style={[styles.description, { color: colors.textMuted }]}>
+            {comparing?.draft.filename
+              ? 'Changes in the unsaved draft compared with the saved note:'
+              : 'This note was never saved. The draft contains:'}
+          </Text>
+          <DiffView lines={comparing?.diff || null} emptyText="The draft matches the saved note" />
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.overlay, borderColor: colors.border }]}
+              onPress={() => comparing && discardDraft(comparing.draft, comparing.remaining)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.love }]}>Discard Draft</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+              onPress={() => comparing && restoreDraft(comparing.draft)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.background }]}>Restore Draft</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    flex: 1,
+    marginRight: 12,
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { X, Folder, Home } from 'lucide-react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { useTheme } from './ThemeProvider';
+import { FileSystemService } from '../services/FileSystemService';
+
+interface FolderPickerProps {
+  visible: boolean;
+  title: string;
+  currentFolderPath?: string; // Disabled, since moving there would do nothing
+  excludeFolderPath?: string; // A folder being moved, hidden along with its subfolders
+  onSelectFolder: (folderPath: string) => void;
+  onClose: () => void;
+}
+
+export default function FolderPicker({ visible, title, currentFolderPath, excludeFolderPath, onSelectFolder, onClose }: FolderPickerProps) {
+  const { colors } = useTheme();
+  const [folders, setFolders] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const fileSystemService = FileSystemService.getInstance();
+
+  useEffect(() => {
+    if (visible) {
+      loadFolders();
+    }
+  }, [visible]);
+
+  const loadFolders = async () => {
+    try {
+      setLoading(true);
+      const allFolders = await fileSystemService.getVaultFolders();
+      setFolders(excludeFolderPath
+        ? allFolders.filter(folder => folder !== excludeFolderPath && !folder.startsWith(`${excludeFolderPath}/`))
+        : allFolders);
+    } catch (error) {
+      console.error('Error loading folders:', error);
+      Alert.alert('Error', 'Failed to load folders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectFolder = (folderPath: string) => {
+    HapticsService.selection();
+    onSelectFolder(folderPath);
+  };
+
+  const renderFolder = (folderPath: string, name: string, depth: number) => {
+    const isCurrent = folderPath === currentFolderPath;
+    const Icon = folderPath === '' ? Home : Folder;
+
+    return (
+      <TouchableOpacity
+        // @ts-ignore: Allow key on TouchableOpacity for list items
+        key={folderPath || '/'}
+        style={[styles.folderItem, {
+          backgroundColor: isCurrent ? colors.highlightMed : colors.surface,
+          borderColor: isCurrent ? colors.accent : colors.border,
+          marginLeft: depth * 16,
+        }]}
+        onPress={() => handleSelectFolder(folderPath)}
+        disabled={isCurrent}
+        activeOpacity={0.7}
+      >
+        <Icon size={18} color={isCurrent ? colors.accent : colors.textMuted} />
+        <Text style={[styles.folderName, { color: colors.text }]} numberOfLines={1}>
+          {name}
+        </Text>
+        {isCurrent && (
+          <Text style={[styles.currentLabel, { color: colors.textMuted }]}>Current</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>{title}</Text>
+          <TouchableOpacity
+            style={[styles.closeButton, { backgroundColor: colors.overlay }]}
+            onPress={() => {
+              HapticsService.tap();
+              onClose();
+            }}
+            activeOpacity={0.7}
+          >
+            <X size={20} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.content}>
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <Text style={[styles.loadingText, { color: colors.textMuted }]}>Loading folders...</Text>
+            </View>
+          ) : (
+            <ScrollView style={styles.folderList} showsVerticalScrollIndicator={false}>
+              {renderFolder('', 'Vault root', 0)}
+              {folders.map(folderPath => {
+                const segments = folderPath.split('/');
+                return renderFolder(folderPath, segments[segments.length - 1], segments.length);
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    flex: 1,
+    marginRight: 12,
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+  },
+  folderList: {
+    flex: 1,
+  },
+  folderItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  folderName: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 10,
+    flex: 1,
+  },
+  currentLabel: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import {
+  Undo2,
+  Redo2,
+  Bold,
+  Italic,
+  Heading,
+  List,
+  ListOrdered,
+  ListChecks,
+  IndentIncrease,
+  IndentDecrease,
+  Link,
+  Brackets,
+  Code,
+} from 'lucide-react-native';
+import { FormattingAction } from '@/types/Editor';
+import { useTheme } from './ThemeProvider';
+import { HapticsService } from '@/services/HapticsService';
+
+export const TOOLBAR_BUTTONS: Record<FormattingAction, { label: string; Icon: React.ComponentType<{ size?: number; color?: string }> }> = {
+  undo: { label: 'Undo', Icon: Undo2 },
+  redo: { label: 'Redo', Icon: Redo2 },
+  bold: { label: 'Bold', Icon: Bold },
+  italic: { label: 'Italic', Icon: Italic },
+  heading: { label: 'Heading', Icon: Heading },
+  bulletList: { label: 'Bullet List', Icon: List },
+  numberedList: { label: 'Numbered List', Icon: ListOrdered },
+  task: { label: 'Task', Icon: ListChecks },
+  indent: { label: 'Indent', Icon: IndentIncrease },
+  outdent: { label: 'Outdent', Icon: IndentDecrease },
+  link: { label: 'Link', Icon: Link },
+  wikilink: { label: 'Wikilink', Icon: Brackets },
+  code: { label: 'Code', Icon: Code },
+};
+
+interface FormattingToolbarProps {
+  actions: FormattingAction[];
+  onAction: (action: FormattingAction) => void;
+}
+
+export default function FormattingToolbar({ actions, onAction }: FormattingToolbarProps) {
+  const { colors } = useTheme();
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={[styles.toolbar, { backgroundColor: colors.surface, borderTopColor: colors.border }]}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="always"
+    >
+      {actions.map(action => {
+        const { label, Icon } = TOOLBAR_BUTTONS[action];
+        return (
+          <TouchableOpacity
+            // @ts-ignore: Allow key on TouchableOpacity for list items
+            key={action}
+            style={styles.button}
+            onPress={() => {
+              HapticsService.tap();
+              onAction(action);
+            }}
+            accessibilityLabel={label}
+            activeOpacity={0.6}
+          >
+            <Icon size={20} color={colors.text} />
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolbar: {
+    flexGrow: 0,
+    borderTopWidth: 1,
+  },
+  container: {
+    paddingHorizontal: 8,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+});
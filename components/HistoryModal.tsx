@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { X, ArrowLeft, History } from 'lucide-react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { useTheme } from './ThemeProvider';
+import DiffView from './DiffView';
+import { FileSystemService } from '../services/FileSystemService';
+import { collapseDiff, diffLines } from '../services/TextDiff';
+import { NoteVersion } from '../types/History';
+
+interface HistoryModalProps {
+  visible: boolean;
+  filename: string;
+  folderPath?: string;
+  currentContent: string;
+  onRestore: (content: string) => void;
+  onClose: () => void;
+}
+
+export default function HistoryModal({ visible, filename, folderPath, currentContent, onRestore, onClose }: HistoryModalProps) {
+  const { colors } = useTheme();
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedVersion, setSelectedVersion] = useState<NoteVersion | null>(null);
+  const [versionContent, setVersionContent] = useState<string | null>(null);
+  // Counts version selections, so a slow read is dropped once another version was picked
+  const latestRequest = useRef(0);
+  const fileSystemService = FileSystemService.getInstance();
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedVersion(null);
+      loadVersions();
+    }
+  }, [visible, filename, folderPath]);
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true);
+      setVersions(await fileSystemService.getNoteVersions(filename, folderPath));
+    } catch (error) {
+      console.error('Error loading history:', error);
+      Alert.alert('Error', 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectVersion = async (version: NoteVersion) => {
+    HapticsService.selection();
+    const request = ++latestRequest.current;
+    try {
+      setVersionContent(null);
+      setSelectedVersion(version);
+      const content = await fileSystemService.getNoteVersionContent(version);
+      if (request === latestRequest.current) {
+        setVersionContent(content);
+      }
+    } catch (error) {
+      if (request !== latestRequest.current) return;
+      console.error('Error loading version:', error);
+      setSelectedVersion(null);
+      Alert.alert('Error', 'Failed to load this version');
+    }
+  };
+
+  // What restoring the selected version would change in the current note
+  const diff = useMemo(
+    () => (versionContent !== null ? collapseDiff(diffLines(currentContent, versionContent)) : null),
+    [currentContent, versionContent]
+  );
+
+  const formatSavedAt = (savedAt: number): string => {
+    const date = new Date(savedAt);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
+  const formatSize = (size: number): string => {
+    return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={selectedVersion ? () => setSelectedVersion(null) : onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          {selectedVersion && (
+            <TouchableOpacity
+              style={[styles.closeButton, styles.backButton, { backgroundColor: colors.overlay }]}
+              onPress={() => {
+                HapticsService.tap();
+                setSelectedVersion(null);
+              }}
+              activeOpacity={0.7}
+            >
+              <ArrowLeft size={20} color={colors.textMuted} />
+            </TouchableOpacity>
+          )}
+          <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+            {selectedVersion ? formatSavedAt(selectedVersion.savedAt) : 'History'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.closeButton, { backgroundColor: colors.overlay }]}
+            onPress={() => {
+              HapticsService.tap();
+              onClose();
+            }}
+            activeOpacity={0.7}
+          >
+            <X size={20} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        {selectedVersion ? (
+          <View style={styles.content}>
+            <Text style={[styles.description, { color: colors.textMuted }]}>
+              Restoring this version makes these changes to the note:
+            </Text>
+            <DiffView
+              lines={diff}
+              emptyText="Identical to the current note"
+            />
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+                onPress={() => {
+                  if (versionContent === null) return;
+                  HapticsService.success();
+                  onRestore(versionContent);
+                }}
+                disabled={versionContent === null}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.actionText, { color: colors.background }]}>Restore This Version</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.content}>
+            {loading ? (
+              <View style={styles.emptyContainer}>
+                <Text style={[styles.emptySubtext, { color: colors.textMuted }]}>Loading history...</Text>
+              </View>
+            ) : versions.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <History size={48} color={colors.textMuted} />
+                <Text style={[styles.emptyText, { color: colors.textMuted }]}>No history yet</Text>
+                <Text style={[styles.emptySubtext, { color: colors.textMuted }]}>
+                  A version is kept each time this note is saved with changes
+                </Text>
+              </View>
+            ) : (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                {versions.map(version => (
+                  <TouchableOpacity
+                    // @ts-ignore: Allow key on TouchableOpacity for list items
+                    key={version.id}
+                    style={[styles.versionItem, { backgroundColor: colors.surface, borderColor: colors.border }]}
+                    onPress={() => handleSelectVersion(version)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.versionDate, { color: colors.text }]}>{formatSavedAt(version.savedAt)}</Text>
+                    <Text style={[styles.versionSize, { color: colors.textMuted }]}>{formatSize(version.size)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    flex: 1,
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 8,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  actions: {
+    paddingTop: 16,
+  },
+  actionButton: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  versionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  versionDate: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  versionSize: {
+    fontSize: 14,
+  },
+});
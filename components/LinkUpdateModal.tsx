@@ -0,0 +1,194 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+import { X, FileText } from 'lucide-react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { useTheme } from './ThemeProvider';
+import { LinkRewrite } from '@/types/Link';
+
+interface LinkUpdateModalProps {
+  visible: boolean;
+  oldTitle: string;
+  newTitle: string;
+  rewrites: LinkRewrite[];
+  action?: 'rename' | 'move';
+  onApply: () => void;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+export default function LinkUpdateModal({ visible, oldTitle, newTitle, rewrites, action = 'rename', onApply, onSkip, onCancel }: LinkUpdateModalProps) {
+  const { colors } = useTheme();
+  const linkCount = rewrites.reduce((total, rewrite) => total + rewrite.linkCount, 0);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.text }]}>Update Links</Text>
+          <TouchableOpacity
+            style={[styles.closeButton, { backgroundColor: colors.overlay }]}
+            onPress={() => {
+              HapticsService.tap();
+              onCancel();
+            }}
+            activeOpacity={0.7}
+          >
+            <X size={20} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.content}>
+          <Text style={[styles.description, { color: colors.textMuted }]}>
+            {`${action === 'move' ? 'Moving' : 'Renaming'} "${oldTitle}" to "${newTitle}" affects ${linkCount} ${linkCount === 1 ? 'link' : 'links'} in ${rewrites.length} ${rewrites.length === 1 ? 'note' : 'notes'}.`}
+          </Text>
+
+          <ScrollView style={styles.notesList} showsVerticalScrollIndicator={false}>
+            {rewrites.map(rewrite => (
+              // @ts-ignore: Allow key on View for list items
+              <View
+                key={rewrite.path}
+                style={[styles.noteItem, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              >
+                <View style={styles.noteHeader}>
+                  <FileText size={18} color={colors.textMuted} />
+                  <Text style={[styles.noteTitle, { color: colors.text }]} numberOfLines={1}>
+                    {rewrite.folderPath ? `${rewrite.folderPath}/${rewrite.filename}` : rewrite.filename}
+                  </Text>
+                  <Text style={[styles.linkCount, { color: colors.textMuted }]}>
+                    {rewrite.linkCount}
+                  </Text>
+                </View>
+                {rewrite.changes.map(change => (
+                  // @ts-ignore: Allow key on View for list items
+                  <View key={change.line} style={styles.change}>
+                    <Text style={[styles.changeLine, { color: colors.love }]} numberOfLines={2}>
+                      {`- ${change.before.trim()}`}
+                    </Text>
+                    <Text style={[styles.changeLine, { color: colors.pine }]} numberOfLines={2}>
+                      {`+ ${change.after.trim()}`}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.overlay, borderColor: colors.border }]}
+              onPress={() => {
+                HapticsService.tap();
+                onSkip();
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.textMuted }]}>{action === 'move' ? 'Move Only' : 'Rename Only'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+              onPress={() => {
+                HapticsService.success();
+                onApply();
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.background }]}>Update Links</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  notesList: {
+    flex: 1,
+  },
+  noteItem: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  noteHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  noteTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 8,
+    flex: 1,
+  },
+  linkCount: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  change: {
+    marginTop: 4,
+  },
+  changeLine: {
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: 'monospace',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
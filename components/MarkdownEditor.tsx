@@ -1,18 +1,52 @@
-import React, { useMemo } from 'react';
-import { View, StyleSheet, TouchableOpacity, Text, Dimensions, Platform } from 'react-native';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  Text,
+  Dimensions,
+  Platform,
+  NativeSyntheticEvent,
+  TextInputSelectionChangeEventData,
+  TextInputKeyPressEventData,
+} from 'react-native';
 import { MarkdownTextInput, type MarkdownRange, type MarkdownStyle } from '@expensify/react-native-live-markdown';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from './ThemeProvider';
+import { findOpenWikilink, getTaskCheckboxEnd, getTaskLineAtOffset, toggleTaskAtLine } from '@/services/NoteParser';
+import { HapticsService } from '@/services/HapticsService';
+import { applyFormatting, applyListEditing } from '@/services/MarkdownFormatting';
+import { FormattingAction, TextSelection } from '@/types/Editor';
 
 interface MarkdownEditorProps {
   value: string;
   onChangeText: (text: string) => void;
   onSave: () => void;
   placeholder?: string;
+  cursorPosition?: number;
+  onFocusChange?: (focused: boolean) => void;
+  onWikilinkQueryChange?: (query: string | null) => void; // Text typed after an unclosed [[, null when there is none
+}
+
+export interface MarkdownEditorHandle {
+  applyAction: (action: FormattingAction) => void;
+  completeWikilink: (link: string) => void;
+}
+
+interface HistoryEntry {
+  text: string;
+  selection: TextSelection;
 }
 
 const { height } = Dimensions.get('window');
 
+// A selection change this soon after a press on the text counts as where the press landed
+const PRESS_SELECTION_MS = 600;
+
+// Typing with pauses shorter than this is undone in one step
+const HISTORY_GROUP_MS = 1000;
+const HISTORY_LIMIT = 100;
+
 const FONT_FAMILY_MONOSPACE = Platform.select({
   ios: 'Courier',
   default: 'monospace',
@@ -237,8 +271,23 @@ function parseObsidianMarkdown(input: string): MarkdownRange[] {
     });
   }
   
-  // Task lists - [ ] and - [x]
-  const taskRegex = /^(\s*-\s+)\[([ x])\]/gm;
+  // Tags #tag and nested #project/sub (headings need a space after #, so they never match)
+  const tagRegex = /(^|\s)(#[^\s!-,.:-@\[-^`{-~]+)/gm;
+  while ((match = tagRegex.exec(input)) !== null) {
+    const tagStart = match.index + match[1].length;
+    // Tags need at least one non-numeric character
+    if (isInsideCodeBlock(tagStart) || /^#[0-9/]*$/.test(match[2])) {
+      continue;
+    }
+    ranges.push({
+      start: tagStart,
+      length: match[2].length,
+      type: 'mention-here'
+    });
+  }
+  
+  // Task lists - [ ] and - [x], also with * + or 1. markers
+  const taskRegex = /^((?:[ \t]|>)*(?:[-*+]|\d+[.)])[ \t]+)\[([ xX])\]/gm;
   while ((match = taskRegex.exec(input)) !== null) {
     ranges.push({
       start: match.index + match[1].length,
@@ -275,13 +324,174 @@ function parseObsidianMarkdown(input: string): MarkdownRange[] {
   return ranges;
 }
 
-export default function MarkdownEditor({
+const MarkdownEditor = forwardRef<MarkdownEditorHandle, MarkdownEditorProps>(function MarkdownEditor({
   value,
   onChangeText,
   onSave,
   placeholder = 'Start typing your note...',
-}: MarkdownEditorProps) {  const insets = useSafeAreaInsets();
+  cursorPosition,
+  onFocusChange,
+  onWikilinkQueryChange,
+}, ref) {
+  const insets = useSafeAreaInsets();
   const { colors } = useTheme();
+  const inputRef = useRef<MarkdownTextInput>(null);
+  const lastSelection = useRef<number | null>(null);
+  const selection = useRef<TextSelection>({ start: 0, end: 0 });
+  // When the text was last pressed, cleared once that press has moved the caret
+  const pressedAt = useRef(0);
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const lastTypedAt = useRef(0);
+  // Latest text, ahead of `value` between a change and the next render
+  const currentText = useRef(value);
+  currentText.current = value;
+  const wikilinkQuery = useRef<string | null>(null);
+  // Caret when the last key was pressed, before the key's text went in
+  const keyPressCaret = useRef<number | null>(null);
+
+  // Move the caret when the screen asks for a specific position (e.g. a search hit)
+  useEffect(() => {
+    if (cursorPosition === undefined) return;
+
+    const timeout = setTimeout(() => {
+      const position = Math.min(cursorPosition, value.length);
+      inputRef.current?.focus();
+      inputRef.current?.setSelection(position, position);
+    }, 100);
+    return () => clearTimeout(timeout);
+  }, [cursorPosition]);
+
+  // Record the text before each change for undo. Keystrokes in quick succession share one
+  // entry; toolbar actions and checkbox toggles always get their own.
+  const handleChangeText = (text: string, typed: boolean = true) => {
+    const now = Date.now();
+    if (!typed || now - lastTypedAt.current > HISTORY_GROUP_MS) {
+      undoStack.current.push({ text: value, selection: selection.current });
+      if (undoStack.current.length > HISTORY_LIMIT) {
+        undoStack.current.shift();
+      }
+    }
+    lastTypedAt.current = typed ? now : 0;
+    redoStack.current = [];
+
+    pressedAt.current = 0;
+    currentText.current = text;
+    onChangeText(text);
+  };
+
+  // Platforms differ in whether the text or the selection update arrives first, so this runs after both
+  const updateWikilinkQuery = () => {
+    const query = findOpenWikilink(currentText.current, selection.current.start)?.query ?? null;
+    if (query !== wikilinkQuery.current) {
+      wikilinkQuery.current = query;
+      onWikilinkQueryChange?.(query);
+    }
+  };
+
+  useEffect(updateWikilinkQuery, [value]);
+
+  const moveSelection = (target: TextSelection) => {
+    selection.current = target;
+    lastSelection.current = target.start;
+    setTimeout(() => inputRef.current?.setSelection(target.start, target.end), 0);
+  };
+
+  const restoreHistory = (from: HistoryEntry[], to: HistoryEntry[]) => {
+    const entry = from.pop();
+    if (!entry) return;
+
+    to.push({ text: value, selection: selection.current });
+    lastTypedAt.current = 0;
+    pressedAt.current = 0;
+    currentText.current = entry.text;
+    onChangeText(entry.text);
+    moveSelection(entry.selection);
+  };
+
+  const applyAction = (action: FormattingAction) => {
+    if (action === 'undo') {
+      restoreHistory(undoStack.current, redoStack.current);
+    } else if (action === 'redo') {
+      restoreHistory(redoStack.current, undoStack.current);
+    } else {
+      const result = applyFormatting(action, value, selection.current);
+      handleChangeText(result.text, false);
+      moveSelection(result.selection);
+    }
+  };
+
+  // Enter and Tab typed on a list item continue or indent the list instead of going in as typed
+  const handleTyping = (text: string) => {
+    // iOS can report the moved caret before the new text, so prefer where it was at the key press
+    const caret = keyPressCaret.current ?? selection.current.start;
+    keyPressCaret.current = null;
+
+    const edit = applyListEditing(value, text, caret);
+    if (edit) {
+      handleChangeText(edit.text, false);
+      moveSelection(edit.selection);
+    } else {
+      handleChangeText(text);
+    }
+  };
+
+  // Only the web reports Tab before it's typed, with Shift, so Shift-Tab can outdent there.
+  // On devices, Tab arrives as typed text and Shift-Tab is left to the toolbar.
+  const handleKeyPress = (event: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+    keyPressCaret.current = selection.current.start;
+    if (Platform.OS !== 'web' || event.nativeEvent.key !== 'Tab') return;
+
+    event.preventDefault();
+    keyPressCaret.current = null;
+    applyAction((event.nativeEvent as TextInputKeyPressEventData & { shiftKey?: boolean }).shiftKey ? 'outdent' : 'indent');
+  };
+
+  useImperativeHandle(ref, () => ({
+    applyAction,
+    // Replace the link being typed, including anything up to a closing ]] already after the caret
+    completeWikilink: (link: string) => {
+      const text = currentText.current;
+      const caret = selection.current.start;
+      const openLink = findOpenWikilink(text, caret);
+      if (!openLink) return;
+
+      const closing = text.substring(caret).match(/^[^\[\]\n]*\]\]/);
+      const end = closing ? caret + closing[0].length : caret;
+      const inserted = `[[${link}]]`;
+      handleChangeText(text.substring(0, openLink.start) + inserted + text.substring(end), false);
+
+      const position = openLink.start + inserted.length;
+      moveSelection({ start: position, end: position });
+    },
+  }), [value]);
+
+  // Tapping inside a task's [ ] flips it. Only a caret placed by a press on the text
+  // counts, so typing, arrow keys, autofocus and programmatic moves never toggle a task.
+  const handleSelectionChange = (event: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+    const { start, end } = event.nativeEvent.selection;
+    const previous = lastSelection.current;
+    lastSelection.current = start;
+    selection.current = { start, end };
+    updateWikilinkQuery();
+
+    const pressed = Date.now() - pressedAt.current < PRESS_SELECTION_MS;
+    pressedAt.current = 0;
+    if (!pressed || start !== end || start === previous) {
+      return;
+    }
+
+    const taskLine = getTaskLineAtOffset(value, start);
+    if (taskLine === -1) return;
+
+    HapticsService.selection();
+    const toggled = toggleTaskAtLine(value, taskLine);
+    handleChangeText(toggled, false);
+
+    // Park the caret just after the checkbox so tapping it again registers as a new selection
+    const caret = getTaskCheckboxEnd(toggled, taskLine);
+    moveSelection({ start: caret, end: caret });
+  };
 
   // Dynamic markdown style based on theme - memoized to prevent unnecessary re-renders
   const dynamicMarkdownStyle: MarkdownStyle = useMemo(() => ({
@@ -328,8 +538,14 @@ export default function MarkdownEditor({
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <MarkdownTextInput
+        ref={inputRef}
         value={value}
-        onChangeText={onChangeText}
+        onChangeText={handleTyping}
+        onKeyPress={handleKeyPress}
+        onSelectionChange={handleSelectionChange}
+        onPressIn={() => { pressedAt.current = Date.now(); }}
+        onFocus={() => onFocusChange?.(true)}
+        onBlur={() => onFocusChange?.(false)}
         parser={parseObsidianMarkdown}
         placeholder={placeholder}
         placeholderTextColor={colors.textMuted}
@@ -342,7 +558,9 @@ export default function MarkdownEditor({
       />
     </View>
   );
-}
+});
+
+export default MarkdownEditor;
 
 const styles = StyleSheet.create({
   container: {
@@ -6,6 +6,7 @@ interface MasonryGridProps {
   items: React.ReactElement[];
   numColumns?: number;
   spacing?: number;
+  header?: React.ReactNode; // Scrolls with the grid, above the columns
 }
 
 interface ItemLayout {
@@ -17,7 +18,8 @@ interface ItemLayout {
 export default function MasonryGrid({
   items,
   numColumns = 2,
-  spacing = 0
+  spacing = 0,
+  header
 }: MasonryGridProps) {
   const [itemLayouts, setItemLayouts] = useState<ItemLayout[]>([]);
   const [columns, setColumns] = useState<ItemLayout[][]>([]);
@@ -60,6 +62,15 @@ export default function MasonryGrid({
     });
   }, [items]);
 
+  // Drop measurements of items that no longer exist, e.g. notes removed while the folder is open
+  useEffect(() => {
+    setItemLayouts(prev =>
+      prev.some(layout => layout.index >= items.length)
+        ? prev.filter(layout => layout.index < items.length)
+        : prev
+    );
+  }, [items.length]);
+
   // Arrange items into columns when layouts change
   useEffect(() => {
     if (itemLayouts.length === 0) {
@@ -105,6 +116,8 @@ export default function MasonryGrid({
       contentContainerStyle={styles.contentContainer}
       showsVerticalScrollIndicator={false}
     >
+      {header}
+
       {/* Render invisible items for measurement */}
       <View style={styles.measurementContainer}>
         {items.map((item, idx) => (
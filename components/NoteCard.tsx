@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
 import { NotePreview } from '@/types/Note';
-import { Clock } from 'lucide-react-native';
+import { Clock, Link } from 'lucide-react-native';
 import { RADIUS, SPACING } from '../theme';
 import { useTheme } from './ThemeProvider';
 import { HapticsService } from '@/services/HapticsService';
@@ -84,6 +84,13 @@ export default function NoteCard({ note, onPress, onLongPress, showTimestamp = t
         <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
           {note.filename.replace(/\.md$/, '')}
         </Text>
+
+        {/* Folder, when notes from several folders are shown together */}
+        {!!note.folderPath && (
+          <Text style={[styles.folderPath, { color: colors.textMuted }]} numberOfLines={1}>
+            {note.folderPath}
+          </Text>
+        )}
         
         {/* Text Display */}
         <Text style={[styles.textDisplay, {
@@ -93,13 +100,25 @@ export default function NoteCard({ note, onPress, onLongPress, showTimestamp = t
           {truncateText(note.preview || '')}
         </Text>
         
-        {/* Timestamp */}
-        {showTimestamp && (
+        {/* Timestamp and backlink count */}
+        {(showTimestamp || !!note.backlinkCount) && (
           <View style={[styles.timestamp, { borderTopColor: colors.border }]}>
-            <Clock size={12} color={colors.textMuted} />
-            <Text style={[styles.timestampText, { color: colors.textMuted }]}>
-              {formatDate(note.updatedAt)}
-            </Text>
+            {!!note.backlinkCount && (
+              <View style={styles.backlinks}>
+                <Link size={12} color={colors.iris} />
+                <Text style={[styles.timestampText, { color: colors.iris }]}>
+                  {note.backlinkCount}
+                </Text>
+              </View>
+            )}
+            {showTimestamp && (
+              <>
+                <Clock size={12} color={colors.textMuted} />
+                <Text style={[styles.timestampText, { color: colors.textMuted }]}>
+                  {formatDate(note.updatedAt)}
+                </Text>
+              </>
+            )}
           </View>
         )}
       </View>
@@ -126,6 +145,12 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.smallMargin,
     paddingHorizontal: 4,
   },
+  folderPath: {
+    fontSize: 12,
+    marginTop: -SPACING.smallMargin / 2,
+    marginBottom: SPACING.smallMargin,
+    paddingHorizontal: 4,
+  },
   textDisplay: {
     borderRadius: RADIUS.small,
     fontSize: 14,
@@ -144,4 +169,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 4,
   },
+  backlinks: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 'auto',
+  },
 });
\ No newline at end of file
@@ -14,15 +14,29 @@ import { HapticsService } from '@/services/HapticsService';
 import { useTheme } from './ThemeProvider';
 import { FileSystemService } from '../services/FileSystemService';
 import { NotePreview } from '../types/Note';
+import { buildVaultPath } from '../services/VaultPath';
 
 interface NoteSelectorProps {
   visible: boolean;
   onClose: () => void;
   onSelectNote: (note: NotePreview | null) => void;
   currentQuickNoteUri: string | null;
+  selectedPath?: string | null; // Vault path of the selected note, for choices stored by path rather than URI
+  title?: string;
+  description?: string;
+  clearLabel?: string;
 }
 
-export function NoteSelector({ visible, onClose, onSelectNote, currentQuickNoteUri }: NoteSelectorProps) {
+export function NoteSelector({
+  visible,
+  onClose,
+  onSelectNote,
+  currentQuickNoteUri,
+  selectedPath = null,
+  title = 'Select Quick Note',
+  description = 'Choose a note to set as your Quick Note. This will be used for quick access in future features.',
+  clearLabel = 'Clear Quick Note Selection',
+}: NoteSelectorProps) {
   const { colors } = useTheme();
   const [notes, setNotes] = useState<NotePreview[]>([]);
   const [loading, setLoading] = useState(true);
@@ -37,8 +51,11 @@ export function NoteSelector({ visible, onClose, onSelectNote, currentQuickNoteU
   const loadNotes = async () => {
     try {
       setLoading(true);
-      const allNotes = await fileSystemService.getAllNotes();
-      setNotes(allNotes.sort((a, b) => a.filename.localeCompare(b.filename)));
+      // Notes from every folder, grouped by folder with root notes first
+      const allNotes = await fileSystemService.getVaultNotes();
+      setNotes(allNotes.sort((a, b) =>
+        (a.folderPath || '').localeCompare(b.folderPath || '') || a.filename.localeCompare(b.filename)
+      ));
     } catch (error) {
       console.error('Error loading notes:', error);
       Alert.alert('Error', 'Failed to load notes');
@@ -68,7 +85,7 @@ export function NoteSelector({ visible, onClose, onSelectNote, currentQuickNoteU
     >
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
         <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
-          <Text style={[styles.title, { color: colors.text }]}>Select Quick Note</Text>
+          <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
           <TouchableOpacity
             style={[styles.closeButton, { backgroundColor: colors.overlay }]}
             onPress={() => {
@@ -83,18 +100,18 @@ export function NoteSelector({ visible, onClose, onSelectNote, currentQuickNoteU
 
         <View style={styles.content}>
           <Text style={[styles.description, { color: colors.textMuted }]}>
-            Choose a note to set as your Quick Note. This will be used for quick access in future features.
+            {description}
           </Text>
 
           {/* Clear Selection Button */}
-          {currentQuickNoteUri && (
+          {(currentQuickNoteUri || selectedPath) && (
             <TouchableOpacity
               style={[styles.clearButton, { backgroundColor: colors.overlay, borderColor: colors.border }]}
               onPress={handleClearSelection}
               activeOpacity={0.7}
             >
               <Text style={[styles.clearButtonText, { color: colors.textMuted }]}>
-                Clear Quick Note Selection
+                {clearLabel}
               </Text>
             </TouchableOpacity>
           )}
@@ -108,19 +125,20 @@ export function NoteSelector({ visible, onClose, onSelectNote, currentQuickNoteU
               <FileText size={48} color={colors.textMuted} />
               <Text style={[styles.emptyText, { color: colors.textMuted }]}>No notes available</Text>
               <Text style={[styles.emptySubtext, { color: colors.textMuted }]}>
-                Create some notes first to set a Quick Note
+                Create some notes first to choose one
               </Text>
             </View>
           ) : (
             <ScrollView style={styles.notesList} showsVerticalScrollIndicator={false}>
               {notes.map((note, index) => {
-                const isSelected = currentQuickNoteUri === note.filePath;
-                const title = note.filename || 'Untitled';
+                const isSelected = currentQuickNoteUri === note.filePath
+                  || (!!selectedPath && selectedPath === buildVaultPath(note.filename, note.folderPath));
+                const noteTitle = note.filename || 'Untitled';
                 const preview = note.preview.replace(/^#\s*/, '').trim().split('\n')[0] || 'No content';
 
                 return (
                   // @ts-ignore: Allow key on View for list items
-                  <View key={`${note.filename}-${index}`}>
+                  <View key={note.filePath || `${note.filename}-${index}`}>
                     <TouchableOpacity
                       style={[
                         styles.noteItem,
@@ -147,8 +165,13 @@ export function NoteSelector({ visible, onClose, onSelectNote, currentQuickNoteU
                           ]}
                           numberOfLines={1}
                         >
-                          {title}
+                          {noteTitle}
                         </Text>
+                        {!!note.folderPath && (
+                          <Text style={[styles.noteFolder, { color: colors.textMuted }]} numberOfLines={1}>
+                            {note.folderPath}
+                          </Text>
+                        )}
                       </View>
                       <Text
                         style={[styles.notePreview, { color: colors.textMuted }]}
@@ -251,6 +274,11 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     flex: 1,
   },
+  noteFolder: {
+    fontSize: 13,
+    marginLeft: 8,
+    maxWidth: '40%',
+  },
   notePreview: {
     fontSize: 14,
     lineHeight: 20,
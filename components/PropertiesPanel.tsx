@@ -0,0 +1,435 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch, Alert } from 'react-native';
+import { ChevronDown, ChevronRight, Plus, X } from 'lucide-react-native';
+import { NoteProperties, PropertyType, PropertyValue } from '@/types/Note';
+import { getDefaultPropertyValue, getPropertyList, getPropertyType } from '@/services/Frontmatter';
+import { RADIUS, SPACING } from '../theme';
+import { useTheme } from './ThemeProvider';
+import { HapticsService } from '@/services/HapticsService';
+
+interface PropertiesPanelProps {
+  properties: NoteProperties;
+  onChange: (key: string, value: PropertyValue) => void;
+  onRemove: (key: string) => void;
+}
+
+const PROPERTY_TYPES: { label: string; value: PropertyType }[] = [
+  { label: 'Text', value: 'text' },
+  { label: 'List', value: 'list' },
+  { label: 'Number', value: 'number' },
+  { label: 'Checkbox', value: 'checkbox' },
+  { label: 'Date', value: 'date' },
+  { label: 'Tags', value: 'tags' },
+];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function PropertiesPanel({ properties, onChange, onRemove }: PropertiesPanelProps) {
+  const { colors } = useTheme();
+  const [expanded, setExpanded] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newKey, setNewKey] = useState('');
+  const [newType, setNewType] = useState<PropertyType>('text');
+  const [listDrafts, setListDrafts] = useState<Record<string, string>>({});
+  // Each property keeps the type it had when it was loaded or added, so a text value that
+  // comes to look like a date while typing doesn't switch editors mid-edit
+  const [propertyTypes, setPropertyTypes] = useState<Record<string, PropertyType>>({});
+  const keys = Object.keys(properties);
+
+  useEffect(() => {
+    setPropertyTypes(current => {
+      const next: Record<string, PropertyType> = {};
+      for (const [key, value] of Object.entries(properties)) {
+        next[key] = current[key] ?? getPropertyType(key, value);
+      }
+      const unchanged = Object.keys(next).length === Object.keys(current).length
+        && Object.keys(next).every(key => current[key] === next[key]);
+      return unchanged ? current : next;
+    });
+  }, [properties]);
+
+  const handleRemove = (key: string) => {
+    HapticsService.warning();
+    Alert.alert(
+      'Remove Property',
+      `Remove "${key}" from this note?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            HapticsService.success();
+            onRemove(key);
+          }
+        },
+      ]
+    );
+  };
+
+  const handleAdd = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    if (key in properties) {
+      HapticsService.error();
+      Alert.alert('Property Exists', `This note already has a "${key}" property.`);
+      return;
+    }
+
+    HapticsService.success();
+    const type = key === 'tags' ? 'tags' : newType;
+    setPropertyTypes(current => ({ ...current, [key]: type }));
+    onChange(key, getDefaultPropertyValue(type));
+    setNewKey('');
+    setNewType('text');
+    setIsAdding(false);
+  };
+
+  const addListItem = (key: string, value: PropertyValue) => {
+    const item = (listDrafts[key] || '').trim().replace(/^#/, '');
+    if (!item) return;
+    onChange(key, [...getPropertyList(value), item]);
+    setListDrafts({ ...listDrafts, [key]: '' });
+  };
+
+  const renderValueEditor = (key: string, value: PropertyValue) => {
+    const type = propertyTypes[key] ?? getPropertyType(key, value);
+
+    switch (type) {
+      case 'checkbox':
+        return (
+          <Switch
+            value={value === true}
+            onValueChange={checked => {
+              if (checked) {
+                HapticsService.toggleOn();
+              } else {
+                HapticsService.toggleOff();
+              }
+              onChange(key, checked);
+            }}
+            trackColor={{ false: colors.border, true: colors.accent }}
+            thumbColor={value === true ? colors.surface : colors.textMuted}
+          />
+        );
+      case 'list':
+      case 'tags':
+        return (
+          <View style={styles.chips}>
+            {getPropertyList(value).map((item, index) => (
+              <View
+                // @ts-ignore: Allow key on View for list items
+                key={`${item}-${index}`}
+                style={[styles.chip, { backgroundColor: colors.overlay, borderColor: colors.border }]}
+              >
+                <Text style={[styles.chipText, { color: type === 'tags' ? colors.iris : colors.text }]}>
+                  {type === 'tags' ? `#${item}` : item}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => {
+                    HapticsService.tap();
+                    onChange(key, getPropertyList(value).filter((_, itemIndex) => itemIndex !== index));
+                  }}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <X size={12} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TextInput
+              style={[styles.chipInput, { color: colors.text }]}
+              value={listDrafts[key] || ''}
+              onChangeText={text => setListDrafts({ ...listDrafts, [key]: text })}
+              onSubmitEditing={() => addListItem(key, value)}
+              onBlur={() => addListItem(key, value)}
+              placeholder={type === 'tags' ? 'Add tag' : 'Add item'}
+              placeholderTextColor={colors.textMuted}
+              returnKeyType="done"
+              blurOnSubmit={false}
+              autoCapitalize="none"
+            />
+          </View>
+        );
+      case 'number':
+        return (
+          <TextInput
+            style={[styles.valueInput, { color: colors.text }]}
+            defaultValue={String(value)}
+            onEndEditing={event => {
+              const number = Number(event.nativeEvent.text);
+              onChange(key, event.nativeEvent.text.trim() === '' || isNaN(number) ? null : number);
+            }}
+            keyboardType="numeric"
+            placeholder="Empty"
+            placeholderTextColor={colors.textMuted}
+          />
+        );
+      case 'date':
+        return (
+          <TextInput
+            style={[styles.valueInput, { color: colors.text }]}
+            defaultValue={String(value)}
+            onEndEditing={event => {
+              const text = event.nativeEvent.text.trim();
+              if (text && !DATE_REGEX.test(text)) {
+                HapticsService.error();
+                Alert.alert('Invalid Date', 'Dates must use the YYYY-MM-DD format.');
+                return;
+              }
+              onChange(key, text || null);
+            }}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textMuted}
+          />
+        );
+      default:
+        return (
+          <TextInput
+            style={[styles.valueInput, { color: colors.text }]}
+            value={value === null ? '' : String(value)}
+            onChangeText={text => onChange(key, text === '' ? null : text)}
+            placeholder="Empty"
+            placeholderTextColor={colors.textMuted}
+            multiline
+          />
+        );
+    }
+  };
+
+  // Notes without frontmatter only get a subtle way to add the first property
+  if (keys.length === 0 && !isAdding) {
+    return (
+      <TouchableOpacity
+        style={[styles.addButton, styles.emptyAddButton]}
+        onPress={() => {
+          HapticsService.tap();
+          setIsAdding(true);
+        }}
+        activeOpacity={0.7}
+      >
+        <Plus size={16} color={colors.textMuted} />
+        <Text style={[styles.addButtonText, { color: colors.textMuted }]}>Add property</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => {
+          HapticsService.tap();
+          setExpanded(!expanded);
+        }}
+        activeOpacity={0.7}
+      >
+        {expanded ? (
+          <ChevronDown size={16} color={colors.textMuted} />
+        ) : (
+          <ChevronRight size={16} color={colors.textMuted} />
+        )}
+        <Text style={[styles.headerText, { color: colors.textSecondary }]}>Properties</Text>
+        <Text style={[styles.headerCount, { color: colors.textMuted }]}>{keys.length}</Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <>
+          {keys.map(key => (
+            // @ts-ignore: Allow key on View for list items
+            <View key={key} style={styles.row}>
+              <TouchableOpacity
+                style={styles.keyCell}
+                onLongPress={() => handleRemove(key)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.keyText, { color: colors.textMuted }]} numberOfLines={1}>
+                  {key}
+                </Text>
+              </TouchableOpacity>
+              <View style={styles.valueCell}>{renderValueEditor(key, properties[key])}</View>
+            </View>
+          ))}
+
+          {isAdding ? (
+            <View style={[styles.addForm, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <TextInput
+                style={[styles.addInput, { color: colors.text, borderBottomColor: colors.border }]}
+                value={newKey}
+                onChangeText={setNewKey}
+                onSubmitEditing={handleAdd}
+                placeholder="Property name"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="none"
+                autoFocus
+              />
+              <View style={styles.typeOptions}>
+                {PROPERTY_TYPES.map(option => (
+                  <TouchableOpacity
+                    // @ts-ignore: Allow key on TouchableOpacity for list items
+                    key={option.value}
+                    style={[styles.typeOption, {
+                      backgroundColor: newType === option.value ? colors.highlightMed : colors.overlay,
+                      borderColor: newType === option.value ? colors.accent : colors.border,
+                    }]}
+                    onPress={() => {
+                      HapticsService.press();
+                      setNewType(option.value);
+                    }}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.typeOptionText, { color: colors.text }]}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.addActions}>
+                <TouchableOpacity
+                  onPress={() => {
+                    HapticsService.tap();
+                    setIsAdding(false);
+                    setNewKey('');
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.addActionText, { color: colors.textMuted }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleAdd} activeOpacity={0.7}>
+                  <Text style={[styles.addActionText, { color: colors.accent }]}>Add</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => {
+                HapticsService.tap();
+                setIsAdding(true);
+              }}
+              activeOpacity={0.7}
+            >
+              <Plus size={16} color={colors.textMuted} />
+              <Text style={[styles.addButtonText, { color: colors.textMuted }]}>Add property</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 25,
+    paddingBottom: SPACING.padding,
+    marginBottom: SPACING.margin,
+    borderBottomWidth: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  headerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+    flex: 1,
+  },
+  headerCount: {
+    fontSize: 13,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 4,
+  },
+  keyCell: {
+    width: '35%',
+    paddingTop: 8,
+    paddingRight: 8,
+  },
+  keyText: {
+    fontSize: 14,
+  },
+  valueCell: {
+    flex: 1,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  valueInput: {
+    fontSize: 14,
+    paddingVertical: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: RADIUS.small,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipInput: {
+    fontSize: 13,
+    minWidth: 80,
+    paddingVertical: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  emptyAddButton: {
+    paddingHorizontal: 25,
+    paddingVertical: 4,
+  },
+  addButtonText: {
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  addForm: {
+    borderWidth: 1,
+    borderRadius: RADIUS.small,
+    padding: SPACING.largePadding,
+    marginTop: 6,
+  },
+  addInput: {
+    fontSize: 14,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    marginBottom: 8,
+  },
+  typeOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  typeOption: {
+    borderWidth: 1,
+    borderRadius: RADIUS.small,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  typeOptionText: {
+    fontSize: 13,
+  },
+  addActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 10,
+  },
+  addActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,174 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { FileText, Folder } from 'lucide-react-native';
+import { SearchResult } from '@/types/Search';
+import { FolderItem } from '@/types/FileSystemItem';
+import { RADIUS, SPACING } from '../theme';
+import { useTheme } from './ThemeProvider';
+import { HapticsService } from '@/services/HapticsService';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  folders: FolderItem[];
+  isSearching: boolean;
+  onSelectResult: (result: SearchResult) => void;
+  onSelectFolder: (folder: FolderItem) => void;
+}
+
+export default function SearchResults({ results, folders, isSearching, onSelectResult, onSelectFolder }: SearchResultsProps) {
+  const { colors } = useTheme();
+
+  // Split the snippet into plain and highlighted segments
+  const renderSnippet = (result: SearchResult) => {
+    const segments: React.ReactNode[] = [];
+    let position = 0;
+
+    result.matches.forEach((match, index) => {
+      if (match.start > position) {
+        segments.push(result.snippet.substring(position, match.start));
+      }
+      segments.push(
+        <Text
+          // @ts-ignore: Allow key on Text for list items
+          key={`match-${index}`}
+          style={[styles.highlight, { backgroundColor: colors.highlightMed, color: colors.gold }]}
+        >
+          {result.snippet.substring(match.start, match.start + match.length)}
+        </Text>
+      );
+      position = match.start + match.length;
+    });
+
+    if (position < result.snippet.length) {
+      segments.push(result.snippet.substring(position));
+    }
+    return segments;
+  };
+
+  if (!isSearching && results.length === 0 && folders.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>No items found</Text>
+        <Text style={[styles.emptyStateSubtext, { color: colors.textMuted }]}>Try adjusting your search terms</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+      {folders.map(folder => (
+        <TouchableOpacity
+          // @ts-ignore: Allow key on TouchableOpacity for list items
+          key={`folder-${folder.path}`}
+          style={[styles.resultItem, { backgroundColor: colors.surface, borderColor: colors.border }]}
+          onPress={() => onSelectFolder(folder)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.resultHeader}>
+            <Folder size={18} color={colors.accent} />
+            <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1}>
+              {folder.name}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>
+        {isSearching ? 'Searching vault...' : `${results.length} ${results.length === 1 ? 'note' : 'notes'} across the vault`}
+      </Text>
+
+      {results.map(result => (
+        <TouchableOpacity
+          // @ts-ignore: Allow key on TouchableOpacity for list items
+          key={result.path}
+          style={[styles.resultItem, { backgroundColor: colors.surface, borderColor: colors.border }]}
+          onPress={() => {
+            HapticsService.selection();
+            onSelectResult(result);
+          }}
+          activeOpacity={0.7}
+        >
+          <View style={styles.resultHeader}>
+            <FileText size={18} color={colors.foam} />
+            <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1}>
+              {result.filename}
+            </Text>
+          </View>
+          {result.folderPath !== '' && (
+            <Text style={[styles.resultPath, { color: colors.textMuted }]} numberOfLines={1}>
+              {result.folderPath}
+            </Text>
+          )}
+          {result.snippet !== '' && (
+            <Text style={[styles.resultSnippet, { color: colors.textSecondary }]} numberOfLines={3}>
+              {renderSnippet(result)}
+            </Text>
+          )}
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: SPACING.margin,
+    paddingBottom: 100,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginVertical: SPACING.margin,
+    marginHorizontal: 4,
+  },
+  resultItem: {
+    borderRadius: RADIUS.large,
+    borderWidth: 1,
+    padding: SPACING.largePadding,
+    marginBottom: SPACING.margin,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+    flex: 1,
+  },
+  resultPath: {
+    fontSize: 12,
+    marginTop: 2,
+    marginLeft: 26,
+  },
+  resultSnippet: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontFamily: 'monospace',
+    marginTop: SPACING.padding,
+  },
+  highlight: {
+    fontWeight: '700',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyStateText: {
+    fontSize: 20,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { Hash } from 'lucide-react-native';
+import { TagCount } from '@/types/Tag';
+import { RADIUS } from '../theme';
+import { useTheme } from './ThemeProvider';
+import { HapticsService } from '@/services/HapticsService';
+
+interface TagFilterBarProps {
+  tags: TagCount[];
+  selectedTag: string | null;
+  onSelectTag: (tag: string | null) => void;
+  onOpenBrowser: () => void;
+  maxTags?: number;
+}
+
+export default function TagFilterBar({ tags, selectedTag, onSelectTag, onOpenBrowser, maxTags = 20 }: TagFilterBarProps) {
+  const { colors } = useTheme();
+
+  // Most used tags first, always keeping the active one visible
+  const visibleTags = tags.slice(0, maxTags);
+  if (selectedTag && !visibleTags.some(item => item.tag.toLowerCase() === selectedTag.toLowerCase())) {
+    visibleTags.unshift({ tag: selectedTag, count: 0 });
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled"
+    >
+      <TouchableOpacity
+        style={[styles.chip, { backgroundColor: colors.overlay, borderColor: colors.border }]}
+        onPress={() => {
+          HapticsService.tap();
+          onOpenBrowser();
+        }}
+        activeOpacity={0.7}
+      >
+        <Hash size={14} color={colors.textMuted} />
+      </TouchableOpacity>
+
+      {visibleTags.map(item => {
+        const isSelected = selectedTag !== null && item.tag.toLowerCase() === selectedTag.toLowerCase();
+        return (
+          <TouchableOpacity
+            // @ts-ignore: Allow key on TouchableOpacity for list items
+            key={item.tag}
+            style={[styles.chip, {
+              backgroundColor: isSelected ? colors.highlightMed : colors.overlay,
+              borderColor: isSelected ? colors.accent : colors.border,
+            }]}
+            onPress={() => {
+              HapticsService.selection();
+              onSelectTag(isSelected ? null : item.tag);
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, { color: isSelected ? colors.text : colors.pine }]}>
+              {`#${item.tag}`}
+            </Text>
+            {item.count > 0 && (
+              <Text style={[styles.chipCount, { color: colors.textMuted }]}>{item.count}</Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+    paddingTop: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: RADIUS.small,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipCount: {
+    fontSize: 12,
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { HapticsService } from '@/services/HapticsService';
+import { RADIUS } from '../theme';
+import { useTheme } from './ThemeProvider';
+
+interface TextPromptModalProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  initialValue?: string;
+  placeholder?: string;
+  confirmText?: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Single-line text prompt, since Alert.prompt is iOS only
+ */
+export default function TextPromptModal({
+  visible,
+  title,
+  message,
+  initialValue = '',
+  placeholder,
+  confirmText = 'Save',
+  onSubmit,
+  onCancel,
+}: TextPromptModalProps) {
+  const { colors } = useTheme();
+  const [value, setValue] = useState(initialValue);
+
+  useEffect(() => {
+    if (visible) {
+      setValue(initialValue);
+    }
+  }, [visible, initialValue]);
+
+  const handleSubmit = () => {
+    if (!value.trim()) {
+      HapticsService.warning();
+      return;
+    }
+    HapticsService.success();
+    onSubmit(value.trim());
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={[styles.dialog, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+          {message && (
+            <Text style={[styles.message, { color: colors.textMuted }]}>{message}</Text>
+          )}
+          <TextInput
+            style={[styles.input, {
+              backgroundColor: colors.overlay,
+              borderColor: colors.border,
+              color: colors.text,
+            }]}
+            value={value}
+            onChangeText={setValue}
+            placeholder={placeholder}
+            placeholderTextColor={colors.textMuted}
+            onSubmitEditing={handleSubmit}
+            autoFocus
+            selectTextOnFocus
+            returnKeyType="done"
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.overlay, borderColor: colors.border }]}
+              onPress={() => {
+                HapticsService.tap();
+                onCancel();
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.textMuted }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+              onPress={handleSubmit}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.background }]}>{confirmText}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    borderRadius: RADIUS.large,
+    borderWidth: 1,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: RADIUS.small,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
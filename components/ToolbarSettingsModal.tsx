@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Platform } from 'react-native';
+import { Check, ChevronUp, ChevronDown } from 'lucide-react-native';
+import { FormattingAction } from '@/types/Editor';
+import { TOOLBAR_ACTIONS } from '@/services/MarkdownFormatting';
+import { HapticsService } from '@/services/HapticsService';
+import { TOOLBAR_BUTTONS } from './FormattingToolbar';
+import { RADIUS } from '../theme';
+import { useTheme } from './ThemeProvider';
+
+interface ToolbarSettingsModalProps {
+  visible: boolean;
+  actions: FormattingAction[];
+  onSave: (actions: FormattingAction[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Choose which buttons the formatting toolbar shows and in what order.
+ * Shown buttons are listed first in toolbar order, hidden ones after them.
+ */
+export default function ToolbarSettingsModal({ visible, actions, onSave, onClose }: ToolbarSettingsModalProps) {
+  const { colors } = useTheme();
+  const [selected, setSelected] = useState<FormattingAction[]>(actions);
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(actions);
+    }
+  }, [visible, actions]);
+
+  const hidden = TOOLBAR_ACTIONS.filter(action => !selected.includes(action));
+
+  const toggleAction = (action: FormattingAction) => {
+    HapticsService.selection();
+    setSelected(current => current.includes(action)
+      ? current.filter(item => item !== action)
+      : [...current, action]);
+  };
+
+  const moveAction = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= selected.length) return;
+    HapticsService.selection();
+    const reordered = [...selected];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSelected(reordered);
+  };
+
+  const renderRow = (action: FormattingAction, index: number | null) => {
+    const { label, Icon } = TOOLBAR_BUTTONS[action];
+    const isShown = index !== null;
+    return (
+      <View
+        // @ts-ignore: Allow key on View for list items
+        key={action}
+        style={[styles.row, { borderBottomColor: colors.border }]}
+      >
+        <TouchableOpacity style={styles.rowToggle} onPress={() => toggleAction(action)} activeOpacity={0.7}>
+          <View style={[styles.checkbox, {
+            borderColor: isShown ? colors.accent : colors.border,
+            backgroundColor: isShown ? colors.accent : 'transparent',
+          }]}>
+            {isShown && <Check size={14} color={colors.background} />}
+          </View>
+          <Icon size={18} color={isShown ? colors.text : colors.textMuted} />
+          <Text style={[styles.rowLabel, { color: isShown ? colors.text : colors.textMuted }]}>{label}</Text>
+        </TouchableOpacity>
+        {isShown && (
+          <View style={styles.moveButtons}>
+            <TouchableOpacity onPress={() => moveAction(index, -1)} disabled={index === 0} style={styles.moveButton}>
+              <ChevronUp size={18} color={index === 0 ? colors.border : colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => moveAction(index, 1)}
+              disabled={index === selected.length - 1}
+              style={styles.moveButton}
+            >
+              <ChevronDown size={18} color={index === selected.length - 1 ? colors.border : colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <View style={[styles.dialog, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Text style={[styles.title, { color: colors.text }]}>Toolbar Buttons</Text>
+          {Platform.OS !== 'web' && (
+            // Devices don't report Shift-Tab to the editor, see MarkdownEditor's handleKeyPress
+            <Text style={[styles.hint, { color: colors.textMuted }]}>
+              Shift-Tab only outdents list items on the web. Here, keep Outdent shown to move items back a level.
+            </Text>
+          )}
+          <ScrollView style={styles.list}>
+            {selected.map((action, index) => renderRow(action, index))}
+            {hidden.map(action => renderRow(action, null))}
+          </ScrollView>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.overlay, borderColor: colors.border }]}
+              onPress={() => {
+                HapticsService.tap();
+                setSelected(TOOLBAR_ACTIONS);
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.textMuted }]}>Reset</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: colors.accent, borderColor: colors.accent }]}
+              onPress={() => {
+                HapticsService.success();
+                onSave(selected);
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionText, { color: colors.background }]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    borderRadius: RADIUS.large,
+    borderWidth: 1,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowLabel: {
+    fontSize: 16,
+  },
+  moveButtons: {
+    flexDirection: 'row',
+  },
+  moveButton: {
+    padding: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { LinkSuggestion } from '@/types/Link';
+import { useTheme } from './ThemeProvider';
+import { HapticsService } from '@/services/HapticsService';
+
+interface WikilinkSuggestionsProps {
+  suggestions: LinkSuggestion[];
+  onSelect: (suggestion: LinkSuggestion) => void;
+}
+
+/**
+ * Autocomplete list shown above the keyboard while a [[wikilink]] is being typed
+ */
+export default function WikilinkSuggestions({ suggestions, onSelect }: WikilinkSuggestionsProps) {
+  const { colors } = useTheme();
+
+  return (
+    <ScrollView
+      style={[styles.list, { backgroundColor: colors.surface, borderTopColor: colors.border }]}
+      keyboardShouldPersistTaps="always"
+    >
+      {suggestions.map(suggestion => (
+        <TouchableOpacity
+          // @ts-ignore: Allow key on TouchableOpacity for list items
+          key={suggestion.key}
+          style={[styles.item, { borderBottomColor: colors.border }]}
+          onPress={() => {
+            HapticsService.selection();
+            onSelect(suggestion);
+          }}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.label, { color: colors.text }]} numberOfLines={1}>
+            {suggestion.label}
+          </Text>
+          {suggestion.detail ? (
+            <View style={styles.detail}>
+              <Text style={[styles.detailText, { color: colors.textMuted }]} numberOfLines={1}>
+                {suggestion.detail}
+              </Text>
+            </View>
+          ) : null}
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    flexGrow: 0,
+    maxHeight: 200,
+    borderTopWidth: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  label: {
+    flexShrink: 1,
+    fontSize: 15,
+  },
+  detail: {
+    flex: 1,
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
+  detailText: {
+    fontSize: 13,
+  },
+});
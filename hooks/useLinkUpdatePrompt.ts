@@ -0,0 +1,34 @@
+import { useCallback, useRef, useState } from 'react';
+import { LinkRewrite } from '@/types/Link';
+
+export type LinkUpdateChoice = 'apply' | 'skip' | 'cancel';
+
+interface LinkUpdatePrompt {
+  oldTitle: string;
+  newTitle: string;
+  rewrites: LinkRewrite[];
+}
+
+/**
+ * State for the LinkUpdateModal: confirmLinkUpdates shows the prompt and resolves with
+ * the user's choice once resolveLinkUpdate is called from one of its buttons
+ */
+export function useLinkUpdatePrompt() {
+  const [linkUpdatePrompt, setLinkUpdatePrompt] = useState<LinkUpdatePrompt | null>(null);
+  const resolver = useRef<((choice: LinkUpdateChoice) => void) | null>(null);
+
+  const confirmLinkUpdates = useCallback((oldTitle: string, newTitle: string, rewrites: LinkRewrite[]) => {
+    return new Promise<LinkUpdateChoice>(resolve => {
+      resolver.current = resolve;
+      setLinkUpdatePrompt({ oldTitle, newTitle, rewrites });
+    });
+  }, []);
+
+  const resolveLinkUpdate = useCallback((choice: LinkUpdateChoice) => {
+    resolver.current?.(choice);
+    resolver.current = null;
+    setLinkUpdatePrompt(null);
+  }, []);
+
+  return { linkUpdatePrompt, confirmLinkUpdates, resolveLinkUpdate };
+}
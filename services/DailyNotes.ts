@@ -0,0 +1,126 @@
+/**
+ * Date formatting for daily notes, using the moment.js tokens Obsidian's daily notes plugin
+ * accepts (YYYY, MM, DD, ddd, ...). Text in [brackets] is literal. A format may contain
+ * slashes to file notes in dated subfolders, like "YYYY/MM/YYYY-MM-DD".
+ */
+
+export const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first so "MMMM" isn't read as two "MM"
+const TOKEN_REGEX = /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|mm|m/g;
+
+type DatePart = 'year' | 'shortYear' | 'month' | 'monthName' | 'day' | 'ignored';
+
+interface TokenPattern {
+  part: DatePart;
+  pattern: string;
+}
+
+const TOKEN_PATTERNS: Record<string, TokenPattern> = {
+  YYYY: { part: 'year', pattern: '(\\d{4})' },
+  YY: { part: 'shortYear', pattern: '(\\d{2})' },
+  MMMM: { part: 'monthName', pattern: `(${MONTH_NAMES.join('|')})` },
+  MMM: { part: 'monthName', pattern: `(${MONTH_NAMES.map(name => name.substring(0, 3)).join('|')})` },
+  MM: { part: 'month', pattern: '(\\d{2})' },
+  M: { part: 'month', pattern: '(\\d{1,2})' },
+  DD: { part: 'day', pattern: '(\\d{2})' },
+  D: { part: 'day', pattern: '(\\d{1,2})' },
+  dddd: { part: 'ignored', pattern: `(${DAY_NAMES.join('|')})` },
+  ddd: { part: 'ignored', pattern: `(${DAY_NAMES.map(name => name.substring(0, 3)).join('|')})` },
+  HH: { part: 'ignored', pattern: '(\\d{2})' },
+  H: { part: 'ignored', pattern: '(\\d{1,2})' },
+  mm: { part: 'ignored', pattern: '(\\d{2})' },
+  m: { part: 'ignored', pattern: '(\\d{1,2})' },
+};
+
+/**
+ * Format a date with moment.js style tokens
+ */
+export function formatDate(date: Date, format: string): string {
+  return format.replace(TOKEN_REGEX, token => {
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return MONTH_NAMES[date.getMonth()];
+      case 'MMM': return MONTH_NAMES[date.getMonth()].substring(0, 3);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'dddd': return DAY_NAMES[date.getDay()];
+      case 'ddd': return DAY_NAMES[date.getDay()].substring(0, 3);
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'mm': return pad(date.getMinutes());
+      case 'm': return String(date.getMinutes());
+      default: return token.slice(1, -1); // [literal]
+    }
+  });
+}
+
+/**
+ * Read the day back out of text written with `formatDate`. Returns null if the
+ * text doesn't match the format or names an impossible date.
+ */
+export function parseDate(text: string, format: string): Date | null {
+  const parts: DatePart[] = [];
+  let pattern = '';
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(TOKEN_REGEX)) {
+    pattern += escapeRegExp(format.substring(lastIndex, match.index));
+    const token = TOKEN_PATTERNS[match[0]];
+    if (token) {
+      parts.push(token.part);
+      pattern += token.pattern;
+    } else {
+      pattern += escapeRegExp(match[0].slice(1, -1));
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  pattern += escapeRegExp(format.substring(lastIndex));
+
+  const match = text.match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    return null;
+  }
+
+  let year: number | null = null;
+  let month: number | null = null;
+  let day = 1;
+  parts.forEach((part, index) => {
+    const value = match[index + 1];
+    if (part === 'year') year = Number(value);
+    else if (part === 'shortYear') year = 2000 + Number(value);
+    else if (part === 'month') month = Number(value) - 1;
+    else if (part === 'monthName') month = MONTH_NAMES.findIndex(name => name.startsWith(value));
+    else if (part === 'day') day = Number(value);
+  });
+  if (year === null || month === null) {
+    return null;
+  }
+
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+/**
+ * Midnight of the given day, so days can be compared by time
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -2,9 +2,62 @@ import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import * as DocumentPicker from 'expo-document-picker';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { openDocumentTree, listFiles, readFile, writeFile, mkdir, unlink, stat } from 'react-native-saf-x';
+import { openDocumentTree, listFiles, readFile, writeFile, mkdir, unlink, stat, exists, rename, moveFile } from 'react-native-saf-x';
 import { Note, NotePreview } from '@/types/Note';
-import { DirectoryContents, FolderItem, NoteItem, FileSystemItem } from '@/types/FileSystemItem';
+import {
+  DirectoryChanges,
+  DirectoryContents,
+  DirectorySort,
+  FolderItem,
+  NoteItem,
+  FileSystemItem,
+  NoteLocation,
+  PinnedContents,
+  PinnedItem,
+  VaultFile,
+  VaultWalkOptions,
+} from '@/types/FileSystemItem';
+import { SearchResult } from '@/types/Search';
+import { Backlink, LinkChange, LinkRewrite, NoteTitle } from '@/types/Link';
+import { VaultTask } from '@/types/Task';
+import { TagCount, TaggedNote } from '@/types/Tag';
+import { TrashItem, TrashItemType } from '@/types/Trash';
+import { NoteVersion } from '@/types/History';
+import { NoteDraft } from '@/types/Draft';
+import { DailyNoteSettings } from '@/types/DailyNote';
+import { ToolbarSettings } from '@/types/Editor';
+import { SearchIndex, SerializedSearchIndex } from './SearchIndex';
+import { CachedNote, MetadataCache, SerializedMetadataCache } from './MetadataCache';
+import { getCreatedDate, parseFrontmatter, setCreatedDate, stripFrontmatter } from './Frontmatter';
+import { sortFolders, sortNotes } from './Sorting';
+import { DEFAULT_DAILY_NOTE_FORMAT, formatDate, parseDate, startOfDay } from './DailyNotes';
+import { RenderedTemplate, TemplateContext, renderTemplate } from './Templates';
+import { TOOLBAR_ACTIONS } from './MarkdownFormatting';
+import {
+  applyReplacements,
+  extractMarkdownLinks,
+  extractTags,
+  extractTasks,
+  extractHeadings,
+  extractWikilinks,
+  findTagLine,
+  formatMarkdownLinkUrl,
+  getCodeRanges,
+  NoteHeading,
+  normalizeTag,
+  replaceWikilinkTarget,
+  TextReplacement,
+  toggleTaskAtLine,
+  Wikilink,
+} from './NoteParser';
+import {
+  buildVaultPath,
+  getRelativePath,
+  joinFolderPath,
+  normalizeFolderPath,
+  resolveRelativePath,
+  splitVaultPath,
+} from './VaultPath';
 
 // Individual preference keys
 const PREFERENCE_KEYS = {
@@ -12,7 +65,17 @@ const PREFERENCE_KEYS = {
   WELCOME_COMPLETED: 'user_preference_welcomeCompleted',
   QUICK_NOTE_URI: 'user_preference_quickNoteUri',
   AUTO_SAVE_ON_EXIT: 'user_preference_autoSaveOnExit',
+  AUTO_SAVE_DELAY_SECONDS: 'user_preference_autoSaveDelaySeconds',
   FAB_POSITION_BOTTOM: 'user_preference_fabPositionBottom',
+  TRASH_RETENTION_DAYS: 'user_preference_trashRetentionDays',
+  DEFAULT_SORT: 'user_preference_defaultSort',
+  FOLDER_SORTS: 'user_preference_folderSorts',
+  PINNED_ITEMS: 'user_preference_pinnedItems',
+  DAILY_NOTES: 'user_preference_dailyNotes',
+  TEMPLATES_FOLDER: 'user_preference_templatesFolder',
+  FOLDER_TEMPLATES: 'user_preference_folderTemplates',
+  EDITOR_TOOLBAR: 'user_preference_editorToolbar',
+  RECENT_NOTES: 'user_preference_recentNotes',
 } as const;
 
 // Default values
@@ -21,9 +84,88 @@ const DEFAULT_VALUES = {
   WELCOME_COMPLETED: false,
   QUICK_NOTE_URI: null,
   AUTO_SAVE_ON_EXIT: true,
+  AUTO_SAVE_DELAY_SECONDS: 0, // 0 only saves explicitly or on exit
   FAB_POSITION_BOTTOM: true,
+  TRASH_RETENTION_DAYS: 0, // 0 keeps trashed items until the trash is emptied
+  DEFAULT_SORT: {
+    folders: { field: 'name', direction: 'asc' },
+    notes: { field: 'modified', direction: 'desc' },
+  } as DirectorySort,
+  DAILY_NOTES: {
+    folder: '',
+    format: DEFAULT_DAILY_NOTE_FORMAT,
+    template: '',
+  } as DailyNoteSettings,
+  TEMPLATES_FOLDER: '', // '' until a folder is chosen, the vault root isn't offered as one
+  EDITOR_TOOLBAR: {
+    enabled: true,
+    actions: TOOLBAR_ACTIONS,
+  } as ToolbarSettings,
 } as const;
 
+// Deleted notes and folders are moved here, inside the vault, with a manifest of where they came from
+const TRASH_FOLDER = '.trash';
+const TRASH_MANIFEST = 'trash.json';
+
+// Version history retention: at most this many versions per note, and versions older than
+// the age limit are dropped once a note has more than the minimum. Older versions saved
+// within the interval of the one before them are thinned out; the newest is always kept.
+const HISTORY_MAX_VERSIONS = 50;
+const HISTORY_MIN_VERSIONS = 5;
+const HISTORY_MAX_AGE_DAYS = 30;
+const HISTORY_MIN_INTERVAL_MS = 60 * 1000;
+
+// How often an open folder is checked for changes made outside the app, like sync
+const DIRECTORY_POLL_INTERVAL_MS = 5000;
+
+// How many recently opened notes are remembered for link autocomplete
+const RECENT_NOTES_LIMIT = 20;
+
+// Unsaved editor text for every open note, kept in one AsyncStorage entry
+const DRAFTS_STORAGE_KEY = 'note_drafts';
+
+/**
+ * Short, filename-safe key for an arbitrarily long string (64-bit FNV-1a as hex)
+ */
+function hashKey(value: string): string {
+  let high = 0x811c9dc5;
+  let low = 0x050c5d1f;
+  for (let index = 0; index < value.length; index++) {
+    const code = value.charCodeAt(index);
+    high = Math.imul(high ^ code, 0x01000193) >>> 0;
+    low = Math.imul(low ^ code, 0x01000193) >>> 0;
+  }
+  return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+}
+
+/**
+ * Thrown by saveNote when the file was changed outside the app after the note was read
+ */
+export class NoteConflictError extends Error {
+  constructor(public readonly diskNote: Note) {
+    super(`"${diskNote.filename}" was changed outside the app`);
+    this.name = 'NoteConflictError';
+  }
+}
+
+/**
+ * Re-key per-folder settings after a folder moves, including those of its subfolders.
+ * Returns null when no key was under the moved folder.
+ */
+function relocateFolderKeys<T>(record: Record<string, T>, fromFolder: string, toFolder: string): Record<string, T> | null {
+  const relocated: Record<string, T> = {};
+  let changed = false;
+  for (const [folderPath, value] of Object.entries(record)) {
+    if (folderPath === fromFolder || folderPath.startsWith(`${fromFolder}/`)) {
+      relocated[`${toFolder}${folderPath.substring(fromFolder.length)}`] = value;
+      changed = true;
+    } else {
+      relocated[folderPath] = value;
+    }
+  }
+  return changed ? relocated : null;
+}
+
 /**
  * Wrapper for AsyncStorage operations with timeout protection
  */
@@ -69,6 +211,36 @@ export class FileSystemService {
   private lastCacheUpdate: number = 0;
   private cacheValidityDuration: number = 5 * 60 * 1000; // 5 minutes
 
+  // Vault-wide search index, persisted to app storage between launches
+  private searchIndex: SearchIndex = new SearchIndex();
+  private searchIndexPromise: Promise<void> | null = null;
+  private searchIndexPersistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Last known directory listings, persisted so the note grid can be shown before any file is read
+  private metadataCache: MetadataCache = new MetadataCache();
+  private metadataCachePromise: Promise<void> | null = null;
+  private metadataCachePersistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Note graph: outgoing wikilinks and tags per note. Links are resolved lazily so new notes pick up dangling links
+  private outgoingLinks: Map<string, Wikilink[]> = new Map();
+  private noteTags: Map<string, string[]> = new Map();
+  private filenameLookup: Map<string, string[]> | null = null;
+  private backlinkCountCache: Map<string, number> | null = null;
+  private noteTitles: NoteTitle[] | null = null;
+
+  // Vault paths of the most recently opened notes, newest first
+  private recentNotes: string[] | null = null;
+
+  // Crash recovery journal, loaded from AsyncStorage on first use
+  private drafts: Record<string, NoteDraft> | null = null;
+
+  // Sort orders, loaded before any listing is built. Per-folder choices are keyed by vault-relative folder path
+  private defaultSort: DirectorySort | null = null;
+  private folderSorts: Record<string, DirectorySort> | null = null;
+
+  // Pinned notes and folders by vault-relative path, updated when they are moved or renamed in the app
+  private pinnedItems: PinnedItem[] | null = null;
+
   private constructor() {
     if (Platform.OS === 'web') {
       this.notesDirectory = 'Notes';
@@ -122,6 +294,9 @@ export class FileSystemService {
     
     // Clear cache since directory changed
     this.clearCache();
+    this.resetSearchIndex();
+    this.metadataCache.clear();
+    this.metadataCachePromise = null;
     
     // Save the preference for persistence
     try {
@@ -394,12 +569,14 @@ export class FileSystemService {
           // Read only first 200 characters for preview
           const content = await readFile(file.uri);
           const filename = file.name.replace('.md', '');
-          const preview = content.substring(0, 200);
+          const preview = stripFrontmatter(content).substring(0, 200);
           
+          const properties = parseFrontmatter(content);
           return {
             filename,
             preview,
-            createdAt: new Date(file.lastModified),
+            properties,
+            createdAt: getCreatedDate(properties, new Date(file.lastModified)),
             updatedAt: new Date(file.lastModified),
             filePath: file.uri,
           };
@@ -446,14 +623,16 @@ export class FileSystemService {
           const stat = await FileSystem.getInfoAsync(filePath);
           
           const filename = file.replace('.md', '');
-          const preview = content.substring(0, 200);
+          const preview = stripFrontmatter(content).substring(0, 200);
           
           const modTime = stat.exists && 'modificationTime' in stat ? stat.modificationTime : Date.now();
           
+          const properties = parseFrontmatter(content);
           return {
             filename,
             preview,
-            createdAt: new Date(modTime),
+            properties,
+            createdAt: getCreatedDate(properties, new Date(modTime)),
             updatedAt: new Date(modTime),
             filePath,
           };
@@ -535,12 +714,16 @@ export class FileSystemService {
         const content = await readFile(fileUri);
         const fileStat = await stat(fileUri);
         
+        const properties = parseFrontmatter(content);
         note = {
           filename,
           content,
-          createdAt: new Date(fileStat.lastModified),
+          properties,
+          createdAt: getCreatedDate(properties, new Date(fileStat.lastModified)),
           updatedAt: new Date(fileStat.lastModified),
           filePath: fileUri,
+          diskModifiedAt: fileStat.lastModified,
+          diskContent: content,
         };
       } else {
         // Regular file system path
@@ -550,12 +733,16 @@ export class FileSystemService {
         
         const modTime = fileStat.exists && 'modificationTime' in fileStat ? fileStat.modificationTime : Date.now();
         
+        const properties = parseFrontmatter(content);
         note = {
           filename,
           content,
-          createdAt: new Date(modTime),
+          properties,
+          createdAt: getCreatedDate(properties, new Date(modTime)),
           updatedAt: new Date(modTime),
           filePath,
+          diskModifiedAt: fileStat.exists && 'modificationTime' in fileStat ? fileStat.modificationTime * 1000 : undefined,
+          diskContent: content,
         };
       }
       
@@ -580,6 +767,7 @@ export class FileSystemService {
       
       return {
         ...note,
+        properties: parseFrontmatter(note.content || ''),
         createdAt: new Date(note.createdAt),
         updatedAt: new Date(note.updatedAt),
       };
@@ -588,13 +776,22 @@ export class FileSystemService {
     }
   }
 
-  async saveNote(note: Note, oldFilename?: string, folderPath?: string): Promise<void> {
+  /**
+   * Save a note, returning it with its new file modification time. Throws NoteConflictError
+   * when the file changed on disk since `note` was read; clear `diskModifiedAt` to overwrite anyway.
+   */
+  async saveNote(note: Note, oldFilename?: string, folderPath?: string): Promise<Note> {
     if (Platform.OS === 'web') {
       await this.saveWebNote(note);
-      return;
+      return note;
     }
     
     await this.ensureDirectoryExists();
+
+    const diskNote = await this.getExternalChange({ ...note, filename: oldFilename || note.filename }, folderPath);
+    if (diskNote) {
+      throw new NoteConflictError(diskNote);
+    }
     
     try {
       // Determine the target directory
@@ -615,33 +812,72 @@ export class FileSystemService {
         targetDir = rootDir;
       }
       
+      await this.recordNoteVersion(note, oldFilename, folderPath);
+
       // If filename changed, delete the old file first
       if (oldFilename && oldFilename !== note.filename) {
         try {
-          await this.deleteNote(oldFilename, folderPath);
+          await this.deleteNote(oldFilename, folderPath, true);
         } catch (error) {
           console.log('Old file not found or could not be deleted:', error);
         }
       }
       
+      // The folder may not exist yet when the note is created from a link
+      await this.ensureFolderExists(folderPath);
+
+      let filePath: string;
       if (targetDir.startsWith('content://')) {
         // SAF path
-        const fileUri = `${targetDir}/${note.filename}.md`;
-        await writeFile(fileUri, note.content);
+        filePath = `${targetDir}/${note.filename}.md`;
+        await writeFile(filePath, note.content);
       } else {
         // Regular file system path
-        const filePath = `${targetDir}${note.filename}.md`;
+        filePath = `${targetDir}${note.filename}.md`;
         await FileSystem.writeAsStringAsync(filePath, note.content);
       }
       
       // Clear cache after saving
       this.clearCache();
+      await this.indexNote(note.filename, folderPath, note.content);
+      if (oldFilename && oldFilename !== note.filename) {
+        await this.relocatePins('note', buildVaultPath(oldFilename, folderPath), buildVaultPath(note.filename, folderPath));
+        await this.relocateRecentNotes('note', buildVaultPath(oldFilename, folderPath), buildVaultPath(note.filename, folderPath));
+        await this.relocateVaultSettings('note', buildVaultPath(oldFilename, folderPath), buildVaultPath(note.filename, folderPath));
+      }
+      return { ...note, filePath, diskModifiedAt: await this.getFileModifiedAt(filePath), diskContent: note.content };
     } catch (error) {
       console.error('Error saving note:', error);
       throw error;
     }
   }
 
+  /**
+   * Re-read a note from disk, returning it if the file changed since `note` was read and
+   * no longer matches the content it was read with, so edits made in the app since don't
+   * count as outside changes. Notes that weren't read from disk never conflict.
+   */
+  async getExternalChange(note: Note, folderPath?: string): Promise<Note | null> {
+    if (Platform.OS === 'web' || note.diskModifiedAt === undefined) {
+      return null;
+    }
+
+    try {
+      const uri = this.getNoteUri(note.filename, folderPath);
+      if (!(await this.pathExists(uri)) || (await this.getFileModifiedAt(uri)) === note.diskModifiedAt) {
+        return null;
+      }
+
+      // Skip the content cache, it may hold the version this note was read from
+      this.noteContentCache.delete(`note_${note.filename}_${folderPath || 'root'}`);
+      const diskNote = await this.getNote(note.filename, folderPath);
+      return diskNote && diskNote.content !== (note.diskContent ?? note.content) ? diskNote : null;
+    } catch (error) {
+      console.error('Error checking note for external changes:', error);
+      return null;
+    }
+  }
+
   private async saveWebNote(note: Note): Promise<void> {
     const notesData = localStorage.getItem('notes');
     let notes: any[] = [];
@@ -670,7 +906,10 @@ export class FileSystemService {
     localStorage.setItem('notes', JSON.stringify(notes));
   }
 
-  async deleteNote(id: string, folderPath?: string): Promise<void> {
+  /**
+   * Move a note to the vault trash, or delete it outright when `permanent` is set
+   */
+  async deleteNote(id: string, folderPath?: string, permanent: boolean = false): Promise<void> {
     if (Platform.OS === 'web') {
       await this.deleteWebNote(id);
       return;
@@ -695,7 +934,9 @@ export class FileSystemService {
         targetDir = rootDir;
       }
       
-      if (targetDir.startsWith('content://')) {
+      if (!permanent) {
+        await this.moveToTrash('note', id, folderPath);
+      } else if (targetDir.startsWith('content://')) {
         // SAF path
         const fileUri = `${targetDir}/${id}.md`;
         await unlink(fileUri);
@@ -707,6 +948,10 @@ export class FileSystemService {
       
       // Clear cache after deleting
       this.clearCache();
+      this.searchIndex.removeDocument(buildVaultPath(id, folderPath));
+      this.removeFromNoteGraph(buildVaultPath(id, folderPath));
+      this.scheduleSearchIndexPersist();
+      await this.relocateVaultSettings('note', buildVaultPath(id, folderPath), null);
     } catch (error) {
       console.error('Error deleting note:', error);
       throw error;
@@ -727,9 +972,9 @@ export class FileSystemService {
   }
 
   /**
-   * Delete a folder and all its contents recursively
+   * Move a folder and all its contents to the vault trash, or delete it recursively when `permanent` is set
    */
-  async deleteFolder(folderName: string, folderPath?: string): Promise<void> {
+  async deleteFolder(folderName: string, folderPath?: string, permanent: boolean = false): Promise<void> {
     if (Platform.OS === 'web') {
       await this.deleteWebFolder(folderName, folderPath);
       return;
@@ -764,7 +1009,9 @@ export class FileSystemService {
         folderToDelete = `${targetDir}${folderName}`;
       }
       
-      if (targetDir.startsWith('content://')) {
+      if (!permanent) {
+        await this.moveToTrash('folder', folderName, folderPath);
+      } else if (targetDir.startsWith('content://')) {
         // SAF path - recursively delete folder contents
         await this.deleteSAFFolder(folderToDelete);
       } else {
@@ -774,6 +1021,10 @@ export class FileSystemService {
       
       // Clear cache after deleting
       this.clearCache();
+      this.searchIndex.removeFolder(joinFolderPath(folderPath || '', folderName));
+      this.removeFolderFromNoteGraph(joinFolderPath(folderPath || '', folderName));
+      this.scheduleSearchIndexPersist();
+      await this.relocateVaultSettings('folder', joinFolderPath(folderPath || '', folderName), null);
     } catch (error) {
       console.error('Error deleting folder:', error);
       throw error;
@@ -830,443 +1081,2716 @@ export class FileSystemService {
   }
 
   /**
-   * Get current user preferences (reconstructed from individual keys)
+   * Move a note to another folder, optionally renaming it. Fails if the destination exists.
    */
-  async getUserPreferences(): Promise<{
-    showTimestamps: boolean;
-    welcomeCompleted: boolean;
-    quickNoteUri: string | null;
-    autoSaveOnExit: boolean;
-    fabPositionBottom: boolean;
-  }> {
-    return {
-      showTimestamps: await this.getShowTimestamps(),
-      welcomeCompleted: await this.getWelcomeCompleted(),
-      quickNoteUri: await this.getQuickNoteUri(),
-      autoSaveOnExit: await this.getAutoSaveOnExit(),
-      fabPositionBottom: await this.getFabPositionBottom(),
-    };
-  }
+  async moveNote(
+    filename: string,
+    fromFolderPath: string | undefined,
+    toFolderPath: string | undefined,
+    newFilename: string = filename
+  ): Promise<NoteLocation> {
+    const fromPath = buildVaultPath(filename, fromFolderPath);
+    const toPath = buildVaultPath(newFilename, toFolderPath);
+    const location = { path: toPath, ...splitVaultPath(toPath) };
+    if (fromPath === toPath) {
+      return location;
+    }
+    if (Platform.OS === 'web') {
+      throw new Error('Moving notes is not supported on web');
+    }
+
+    const sourceUri = this.getNoteUri(filename, fromFolderPath);
+    const targetUri = this.getNoteUri(newFilename, toFolderPath);
+    // A case-only rename points at the same file on case-insensitive storage
+    if (fromPath.toLowerCase() !== toPath.toLowerCase() && await this.pathExists(targetUri)) {
+      throw new Error(`"${newFilename}" already exists in ${location.folderPath || 'the vault root'}`);
+    }
 
-  /**
-   * Get timestamp visibility preference
-   */
-  async getShowTimestamps(): Promise<boolean> {
     try {
-      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.SHOW_TIMESTAMPS);
-      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.SHOW_TIMESTAMPS;
+      if (!sourceUri.startsWith('content://')) {
+        await this.ensureFolderExists(location.folderPath);
+        await FileSystem.moveAsync({ from: sourceUri, to: targetUri });
+      } else if (normalizeFolderPath(fromFolderPath) === location.folderPath) {
+        await rename(sourceUri, `${newFilename}.md`);
+      } else {
+        await moveFile(sourceUri, targetUri, { replaceIfDestinationExists: false });
+      }
+
+      this.clearCache();
+      this.relocateIndexedNotes(new Map([[fromPath, toPath]]));
+      await this.relocateHistory(new Map([[fromPath, toPath]]));
+      await this.relocatePins('note', fromPath, toPath);
+      await this.relocateRecentNotes('note', fromPath, toPath);
+      await this.relocateVaultSettings('note', fromPath, toPath);
+      return location;
     } catch (error) {
-      console.warn('Failed to load showTimestamps preference, using default');
-      return DEFAULT_VALUES.SHOW_TIMESTAMPS;
+      console.error('Error moving note:', error);
+      throw error;
     }
   }
 
   /**
-   * Set timestamp visibility preference
+   * Copy a note into a folder. The copy is renamed ("Note copy") if the name is taken.
    */
-  async setShowTimestamps(show: boolean): Promise<void> {
-    try {
-      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.SHOW_TIMESTAMPS, JSON.stringify(show));
-    } catch (error) {
-      console.error('Failed to save showTimestamps preference:', error);
+  async copyNote(filename: string, fromFolderPath: string | undefined, toFolderPath: string | undefined): Promise<NoteLocation> {
+    const note = await this.getNote(filename, fromFolderPath);
+    if (!note) {
+      throw new Error(`Note "${filename}" not found`);
     }
+
+    const copyName = await this.findAvailableName(filename, 'copy', name => this.getNoteUri(name, toFolderPath));
+
+    const now = new Date();
+    await this.saveNote({ ...note, filename: copyName, createdAt: now, updatedAt: now, diskModifiedAt: undefined }, undefined, toFolderPath);
+    const path = buildVaultPath(copyName, toFolderPath);
+    return { path, ...splitVaultPath(path) };
   }
 
   /**
-   * Check if welcome screen has been completed
+   * Create a folder inside a vault folder. Returns the new folder path.
    */
-  async getWelcomeCompleted(): Promise<boolean> {
+  async createFolder(name: string, parentPath?: string): Promise<string> {
+    const folderName = this.validateFolderName(name);
+    if (Platform.OS === 'web') {
+      throw new Error('Folders are not supported on web');
+    }
+
+    const folderPath = joinFolderPath(parentPath || '', folderName);
+    const folderUri = this.getFolderUri(folderPath);
+    if (await this.pathExists(folderUri)) {
+      throw new Error(`A folder named "${folderName}" already exists in ${normalizeFolderPath(parentPath) || 'the vault root'}`);
+    }
+
     try {
-      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.WELCOME_COMPLETED);
-      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.WELCOME_COMPLETED;
+      if (folderUri.startsWith('content://')) {
+        await mkdir(folderUri);
+      } else {
+        await FileSystem.makeDirectoryAsync(folderUri, { intermediates: true });
+      }
+      this.clearCache();
+      return folderPath;
     } catch (error) {
-      console.warn('Failed to load welcomeCompleted preference, using default');
-      return DEFAULT_VALUES.WELCOME_COMPLETED;
+      console.error('Error creating folder:', error);
+      throw error;
     }
   }
 
   /**
-   * Set welcome screen completion status
+   * Move a folder and everything in it into another folder. Returns the new folder path.
    */
-  async setWelcomeCompleted(completed: boolean): Promise<void> {
-    try {
-      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.WELCOME_COMPLETED, JSON.stringify(completed));
-    } catch (error) {
-      console.error('Failed to save welcomeCompleted preference:', error);
-    }
+  async moveFolder(folderName: string, fromParentPath: string | undefined, toParentPath: string | undefined): Promise<string> {
+    return this.relocateFolder(folderName, fromParentPath, toParentPath, folderName);
   }
 
   /**
-   * Get quick note URI
+   * Rename a folder in place. Returns the new folder path.
    */
-  async getQuickNoteUri(): Promise<string | null> {
+  async renameFolder(folderName: string, parentPath: string | undefined, newName: string): Promise<string> {
+    return this.relocateFolder(folderName, parentPath, parentPath, newName);
+  }
+
+  private async relocateFolder(
+    folderName: string,
+    fromParentPath: string | undefined,
+    toParentPath: string | undefined,
+    newName: string
+  ): Promise<string> {
+    newName = this.validateFolderName(newName);
+    const fromFolder = joinFolderPath(fromParentPath || '', folderName);
+    const toFolder = joinFolderPath(toParentPath || '', newName);
+    if (fromFolder === toFolder) {
+      return toFolder;
+    }
+    if (toFolder.startsWith(`${fromFolder}/`)) {
+      throw new Error('A folder cannot be moved into itself');
+    }
+    if (Platform.OS === 'web') {
+      throw new Error('Moving folders is not supported on web');
+    }
+
+    const sourceUri = this.getFolderUri(fromFolder);
+    const targetUri = this.getFolderUri(toFolder);
+    if (fromFolder.toLowerCase() !== toFolder.toLowerCase() && await this.pathExists(targetUri)) {
+      throw new Error(`A folder named "${newName}" already exists in ${normalizeFolderPath(toParentPath) || 'the vault root'}`);
+    }
+
     try {
-      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.QUICK_NOTE_URI);
-      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.QUICK_NOTE_URI;
+      if (!sourceUri.startsWith('content://')) {
+        await this.ensureFolderExists(toParentPath);
+        await FileSystem.moveAsync({ from: sourceUri, to: targetUri });
+      } else if (normalizeFolderPath(fromParentPath) === normalizeFolderPath(toParentPath)) {
+        await rename(sourceUri, newName);
+      } else {
+        await this.moveSAFFolder(sourceUri, targetUri);
+      }
+
+      this.clearCache();
+      const moves = new Map<string, string>();
+      for (const path of this.searchIndex.getPaths()) {
+        if (path.startsWith(`${fromFolder}/`)) {
+          moves.set(path, `${toFolder}/${path.substring(fromFolder.length + 1)}`);
+        }
+      }
+      this.relocateIndexedNotes(moves);
+      await this.relocateHistory(moves);
+      await this.relocateFolderSorts(fromFolder, toFolder);
+      await this.relocateFolderTemplates(fromFolder, toFolder);
+      await this.relocatePins('folder', fromFolder, toFolder);
+      await this.relocateRecentNotes('folder', fromFolder, toFolder);
+      await this.relocateVaultSettings('folder', fromFolder, toFolder);
+      return toFolder;
     } catch (error) {
-      console.warn('Failed to load quickNoteUri preference, using default');
-      return DEFAULT_VALUES.QUICK_NOTE_URI;
+      console.error('Error moving folder:', error);
+      throw error;
     }
   }
+
   /**
-   * Set quick note URI
+   * Recursively move a folder using SAF, which can only move single files
    */
-  async setQuickNoteUri(uri: string | null): Promise<void> {
-    try {
-      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.QUICK_NOTE_URI, JSON.stringify(uri));
-    } catch (error) {
-      console.error('Failed to save quickNoteUri preference:', error);
+  private async moveSAFFolder(sourceUri: string, targetUri: string): Promise<void> {
+    await mkdir(targetUri);
+    const items = await listFiles(sourceUri);
+
+    for (const item of items) {
+      if (item.type === 'directory') {
+        await this.moveSAFFolder(item.uri, `${targetUri}/${item.name}`);
+      } else {
+        await moveFile(item.uri, `${targetUri}/${item.name}`, { replaceIfDestinationExists: false });
+      }
     }
+
+    await unlink(sourceUri);
   }
 
   /**
-   * Get auto-save on exit preference
+   * Every folder in the vault as a vault-relative path, skipping hidden folders
    */
-  async getAutoSaveOnExit(): Promise<boolean> {
+  async getVaultFolders(): Promise<string[]> {
+    if (Platform.OS === 'web') {
+      return [];
+    }
+
+    await this.loadDirectoryPreference();
+    const folders: string[] = [];
+
+    const visit = async (directory: string, folderPath: string): Promise<void> => {
+      if (directory.startsWith('content://')) {
+        const entries = await listFiles(directory);
+        for (const entry of entries) {
+          if (entry.type !== 'directory' || entry.name.startsWith('.')) continue;
+          const childPath = joinFolderPath(folderPath, entry.name);
+          folders.push(childPath);
+          await visit(entry.uri, childPath);
+        }
+      } else {
+        const names = await FileSystem.readDirectoryAsync(directory);
+        for (const name of names) {
+          if (name.startsWith('.')) continue;
+          const info = await FileSystem.getInfoAsync(`${directory}${name}`);
+          if (!info.exists || !info.isDirectory) continue;
+          const childPath = joinFolderPath(folderPath, name);
+          folders.push(childPath);
+          await visit(`${directory}${name}/`, childPath);
+        }
+      }
+    };
+
     try {
-      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.AUTO_SAVE_ON_EXIT);
-      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.AUTO_SAVE_ON_EXIT;
+      await visit(this.getNotesDirectory(), '');
     } catch (error) {
-      console.warn('Failed to load autoSaveOnExit preference, using default');
-      return DEFAULT_VALUES.AUTO_SAVE_ON_EXIT;
+      console.error('Error listing vault folders:', error);
     }
+    return folders.sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
   }
+
   /**
-   * Set auto-save on exit preference
+   * Trim a folder name and reject names the file system or vault listing cannot handle
    */
-  async setAutoSaveOnExit(autoSave: boolean): Promise<void> {
-    try {
-      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.AUTO_SAVE_ON_EXIT, JSON.stringify(autoSave));
-    } catch (error) {
-      console.error('Failed to save autoSaveOnExit preference:', error);
+  private validateFolderName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Folder name cannot be empty');
+    }
+    if (/[<>:"/\\|?*]/.test(trimmed)) {
+      throw new Error('Folder names cannot contain < > : " / \\ | ? *');
     }
+    if (trimmed.startsWith('.')) {
+      // Hidden folders are skipped when listing the vault
+      throw new Error('Folder names cannot start with a dot');
+    }
+    return trimmed;
   }
 
   /**
-   * Get FAB position preference (bottom vs top)
+   * First free name of the form "Name", "Name copy", "Name copy 2"...
    */
-  async getFabPositionBottom(): Promise<boolean> {
-    try {
-      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.FAB_POSITION_BOTTOM);
-      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.FAB_POSITION_BOTTOM;
-    } catch (error) {
-      console.warn('Failed to load fabPositionBottom preference, using default');
-      return DEFAULT_VALUES.FAB_POSITION_BOTTOM;
+  private async findAvailableName(name: string, suffix: string, getUri: (candidate: string) => string): Promise<string> {
+    let candidate = name;
+    for (let attempt = 1; await this.pathExists(getUri(candidate)); attempt++) {
+      candidate = attempt === 1 ? `${name} ${suffix}` : `${name} ${suffix} ${attempt}`;
     }
+    return candidate;
   }
 
   /**
-   * Set FAB position preference (bottom vs top)
+   * Move a file or folder between two URIs of the same backend
    */
-  async setFabPositionBottom(positionBottom: boolean): Promise<void> {
-    try {
-      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.FAB_POSITION_BOTTOM, JSON.stringify(positionBottom));
-    } catch (error) {
-      console.error('Failed to save fabPositionBottom preference:', error);
+  private async moveEntry(sourceUri: string, targetUri: string, isFolder: boolean): Promise<void> {
+    if (!sourceUri.startsWith('content://')) {
+      await FileSystem.moveAsync({ from: sourceUri, to: targetUri });
+    } else if (isFolder) {
+      await this.moveSAFFolder(sourceUri, targetUri);
+    } else {
+      await moveFile(sourceUri, targetUri, { replaceIfDestinationExists: false });
     }
   }
 
-  /**
-   * Get quick note filename from URI (for display purposes)
-   */
-  async getQuickNoteFilename(): Promise<string | null> {
-    const uri = await this.getQuickNoteUri();
-    if (!uri) return null;
-    
-    // Extract filename from various URI formats
-    if (uri.startsWith('content://')) {
-      // SAF URI - extract filename from the end
-      const parts = uri.split('/');
-      const lastPart = parts[parts.length - 1];
-      return lastPart.replace('.md', '');
+  private async deleteEntry(uri: string, isFolder: boolean): Promise<void> {
+    if (!uri.startsWith('content://')) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    } else if (isFolder) {
+      await this.deleteSAFFolder(uri);
     } else {
-      // Regular file path
-      const parts = uri.split('/');
-      const filename = parts[parts.length - 1];
-      return filename.replace('.md', '');
+      await unlink(uri);
+    }
+  }
+
+  private async pathExists(uri: string): Promise<boolean> {
+    if (uri.startsWith('content://')) {
+      return exists(uri);
+    }
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists;
+  }
+
+  private async ensureFolderExists(folderPath?: string): Promise<void> {
+    const directory = this.getTargetDirectory(folderPath);
+    if (directory.startsWith('content://')) {
+      if (!(await exists(directory))) {
+        await mkdir(directory);
+      }
+    } else if (!(await FileSystem.getInfoAsync(directory)).exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
     }
   }
 
   /**
-   * Get directory contents (folders and notes) for the current directory
+   * Saved versions of a note, newest first
    */
-  async getDirectoryContents(directoryPath?: string): Promise<DirectoryContents> {
-    const targetPath = directoryPath || this.getCurrentDirectory();
-    const rootPath = this.getNotesDirectory();
-    
-    // Load directory preference first
-    await this.loadDirectoryPreference();
-    await this.ensureDirectoryExists();
-    
+  async getNoteVersions(filename: string, folderPath?: string): Promise<NoteVersion[]> {
     if (Platform.OS === 'web') {
-      return this.getWebDirectoryContents(targetPath, rootPath);
+      return [];
     }
-    
+
+    const path = buildVaultPath(filename, folderPath);
+    const historyDir = this.getHistoryDirectory(path);
     try {
-      // Check if we're using SAF (URI starts with content://)
-      if (targetPath.startsWith('content://')) {
-        return await this.getSAFDirectoryContents(targetPath, rootPath);
-      } else {
-        return await this.getFileSystemDirectoryContents(targetPath, rootPath);
+      const info = await FileSystem.getInfoAsync(historyDir);
+      if (!info.exists) {
+        return [];
       }
+
+      const versions: NoteVersion[] = [];
+      for (const name of await FileSystem.readDirectoryAsync(historyDir)) {
+        if (!name.endsWith('.md')) continue;
+        const fileInfo = await FileSystem.getInfoAsync(`${historyDir}${name}`);
+        const id = name.replace(/\.md$/, '');
+        versions.push({ id, path, savedAt: Number(id), size: fileInfo.exists ? fileInfo.size : 0 });
+      }
+      return versions.sort((a, b) => b.savedAt - a.savedAt);
     } catch (error) {
-      console.error('Error reading directory contents:', error);
-      return {
-        folders: [],
-        notes: [],
-        currentPath: targetPath,
-        parentPath: this.getParentPath(targetPath, rootPath),
-      };
+      console.error('Error loading note history:', error);
+      return [];
     }
   }
 
   /**
-   * Get parent path for navigation
+   * Read the content of a saved version
    */
-  private getParentPath(currentPath: string, rootPath: string): string | null {
-    if (currentPath === rootPath) {
-      return null; // Already at root
-    }
-    
-    if (currentPath.startsWith('content://')) {
-      // SAF path - extract parent
-      const pathParts = currentPath.split('/');
-      if (pathParts.length > 4) { // content://authority/tree/document/...
+  async getNoteVersionContent(version: NoteVersion): Promise<string> {
+    return FileSystem.readAsStringAsync(`${this.getHistoryDirectory(version.path)}${version.id}.md`);
+  }
+
+  /**
+   * History lives in app storage, keyed by vault root and note path, so it never syncs with the vault.
+   * Both are hashed since either can be longer than a file name may be.
+   */
+  private getHistoryDirectory(path: string): string {
+    return `${this.getAppDataDirectory()}history/${hashKey(this.getNotesDirectory())}/${hashKey(path)}/`;
+  }
+
+  /**
+   * Snapshot the version of a note that is about to be overwritten, then apply the retention policy.
+   * History problems are logged rather than allowed to block the save.
+   */
+  private async recordNoteVersion(note: Note, oldFilename: string | undefined, folderPath?: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      return;
+    }
+
+    try {
+      const previousFilename = oldFilename || note.filename;
+      const previousUri = this.getNoteUri(previousFilename, folderPath);
+      if (!(await this.pathExists(previousUri))) {
+        return;
+      }
+
+      const path = buildVaultPath(note.filename, folderPath);
+      if (previousFilename !== note.filename) {
+        await this.relocateHistory(new Map([[buildVaultPath(previousFilename, folderPath), path]]));
+      }
+
+      const previousContent = previousUri.startsWith('content://')
+        ? await readFile(previousUri)
+        : await FileSystem.readAsStringAsync(previousUri);
+      if (previousContent === note.content) {
+        return;
+      }
+
+      const versions = await this.getNoteVersions(note.filename, folderPath);
+      if (versions.length > 0 && (await this.getNoteVersionContent(versions[0])) === previousContent) {
+        return;
+      }
+
+      const historyDir = this.getHistoryDirectory(path);
+      const savedAt = Math.max(Date.now(), versions.length > 0 ? versions[0].savedAt + 1 : 0);
+      await FileSystem.makeDirectoryAsync(historyDir, { intermediates: true });
+      await FileSystem.writeAsStringAsync(`${historyDir}${savedAt}.md`, previousContent);
+
+      // Rapid saves (auto-save, task toggles) each get a snapshot, but once a newer one exists,
+      // versions saved within the interval of the last one kept before them are thinned out
+      const expired: NoteVersion[] = [];
+      const kept: NoteVersion[] = [];
+      for (const version of [...versions].reverse()) {
+        const previous = kept[kept.length - 1];
+        if (previous && version.savedAt - previous.savedAt < HISTORY_MIN_INTERVAL_MS) {
+          expired.push(version);
+        } else {
+          kept.push(version);
+        }
+      }
+
+      // Keep the newest versions, dropping anything past the version limit or the age limit
+      const cutoff = Date.now() - HISTORY_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+      kept.reverse().forEach((version, index) => {
+        if (index >= HISTORY_MAX_VERSIONS - 1 || (index >= HISTORY_MIN_VERSIONS - 1 && version.savedAt < cutoff)) {
+          expired.push(version);
+        }
+      });
+      for (const version of expired) {
+        await FileSystem.deleteAsync(`${historyDir}${version.id}.md`, { idempotent: true });
+      }
+    } catch (error) {
+      console.error('Error recording note history:', error);
+    }
+  }
+
+  /**
+   * Move history along with notes that were renamed or moved, keyed by old vault path
+   */
+  private async relocateHistory(moves: Map<string, string>): Promise<void> {
+    if (Platform.OS === 'web') {
+      return;
+    }
+
+    for (const [fromPath, toPath] of Array.from(moves.entries())) {
+      try {
+        const fromDir = this.getHistoryDirectory(fromPath);
+        const toDir = this.getHistoryDirectory(toPath);
+        if (!(await FileSystem.getInfoAsync(fromDir)).exists || (await FileSystem.getInfoAsync(toDir)).exists) continue;
+        await FileSystem.moveAsync({ from: fromDir.replace(/\/$/, ''), to: toDir.replace(/\/$/, '') });
+      } catch (error) {
+        console.error(`Error moving history for ${fromPath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether deleting moves things to the vault trash. Web notes live in local storage,
+   * where deleting them is permanent.
+   */
+  hasTrash(): boolean {
+    return Platform.OS !== 'web';
+  }
+
+  /**
+   * Everything in the vault trash, most recently deleted first
+   */
+  async getTrashItems(): Promise<TrashItem[]> {
+    if (Platform.OS === 'web') {
+      return [];
+    }
+
+    await this.loadDirectoryPreference();
+    const items = await this.readTrashManifest();
+    const present: TrashItem[] = [];
+    for (const item of items) {
+      if (await this.pathExists(this.getTrashEntryUri(item))) {
+        present.push(item);
+      }
+    }
+    return present.sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  /**
+   * Move a trashed item back to where it was deleted from. If that name has been
+   * taken since, the item is restored under a new name. Returns the restored path.
+   */
+  async restoreTrashItem(item: TrashItem): Promise<string> {
+    const { folderPath: parentPath } = splitVaultPath(item.originalPath);
+    await this.ensureFolderExists(parentPath);
+
+    let restoredPath: string;
+    if (item.type === 'note') {
+      const filename = await this.findAvailableName(item.name, 'restored', name => this.getNoteUri(name, parentPath));
+      await this.moveEntry(this.getTrashEntryUri(item), this.getNoteUri(filename, parentPath), false);
+      restoredPath = buildVaultPath(filename, parentPath);
+
+      const note = await this.getNote(filename, parentPath);
+      if (note) {
+        await this.indexNote(filename, parentPath, note.content);
+      }
+    } else {
+      const folderName = await this.findAvailableName(item.name, 'restored', name => this.getFolderUri(joinFolderPath(parentPath, name)));
+      restoredPath = joinFolderPath(parentPath, folderName);
+      await this.moveEntry(this.getTrashEntryUri(item), this.getFolderUri(restoredPath), true);
+      // Pick up the restored notes on the next index refresh
+      this.searchIndexPromise = null;
+    }
+
+    this.clearCache();
+    const items = await this.readTrashManifest();
+    await this.writeTrashManifest(items.filter(entry => entry.id !== item.id));
+    return restoredPath;
+  }
+
+  /**
+   * Permanently delete one item from the trash
+   */
+  async deleteTrashItem(item: TrashItem): Promise<void> {
+    await this.deleteEntry(this.getTrashEntryUri(item), item.type === 'folder');
+    const items = await this.readTrashManifest();
+    await this.writeTrashManifest(items.filter(entry => entry.id !== item.id));
+  }
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  async emptyTrash(): Promise<void> {
+    if (Platform.OS === 'web') {
+      return;
+    }
+    const trashUri = this.getFolderUri(TRASH_FOLDER);
+    if (await this.pathExists(trashUri)) {
+      await this.deleteEntry(trashUri, true);
+    }
+  }
+
+  /**
+   * Permanently delete trashed items older than the retention preference
+   */
+  async purgeExpiredTrash(): Promise<number> {
+    const retentionDays = await this.getTrashRetentionDays();
+    if (retentionDays <= 0 || Platform.OS === 'web') {
+      return 0;
+    }
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    let purged = 0;
+    try {
+      for (const item of await this.readTrashManifest()) {
+        if (item.deletedAt >= cutoff) continue;
+        await this.deleteTrashItem(item);
+        purged++;
+      }
+    } catch (error) {
+      console.error('Error purging trash:', error);
+    }
+    return purged;
+  }
+
+  private async moveToTrash(type: TrashItemType, name: string, folderPath?: string): Promise<void> {
+    const item: TrashItem = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+      type,
+      name,
+      originalPath: type === 'note' ? buildVaultPath(name, folderPath) : joinFolderPath(folderPath || '', name),
+      deletedAt: Date.now(),
+    };
+    const sourceUri = type === 'note' ? this.getNoteUri(name, folderPath) : this.getFolderUri(item.originalPath);
+
+    await this.ensureFolderExists(TRASH_FOLDER);
+    await this.moveEntry(sourceUri, this.getTrashEntryUri(item), type === 'folder');
+    const items = await this.readTrashManifest();
+    await this.writeTrashManifest([...items, item]);
+  }
+
+  private getTrashEntryUri(item: Pick<TrashItem, 'id' | 'type'>): string {
+    return item.type === 'note' ? this.getNoteUri(item.id, TRASH_FOLDER) : this.getFolderUri(joinFolderPath(TRASH_FOLDER, item.id));
+  }
+
+  private getTrashManifestUri(): string {
+    const trashDir = this.getTargetDirectory(TRASH_FOLDER);
+    return trashDir.startsWith('content://') ? `${trashDir}/${TRASH_MANIFEST}` : `${trashDir}${TRASH_MANIFEST}`;
+  }
+
+  private async readTrashManifest(): Promise<TrashItem[]> {
+    const manifestUri = this.getTrashManifestUri();
+    try {
+      if (!(await this.pathExists(manifestUri))) {
+        return [];
+      }
+      const data = manifestUri.startsWith('content://')
+        ? await readFile(manifestUri)
+        : await FileSystem.readAsStringAsync(manifestUri);
+      const items = JSON.parse(data);
+      return Array.isArray(items) ? items : [];
+    } catch (error) {
+      console.error('Error reading trash manifest:', error);
+      return [];
+    }
+  }
+
+  private async writeTrashManifest(items: TrashItem[]): Promise<void> {
+    await this.ensureFolderExists(TRASH_FOLDER);
+    const manifestUri = this.getTrashManifestUri();
+    const data = JSON.stringify(items, null, 2);
+    if (manifestUri.startsWith('content://')) {
+      await writeFile(manifestUri, data);
+    } else {
+      await FileSystem.writeAsStringAsync(manifestUri, data);
+    }
+  }
+
+  /**
+   * Journal unsaved editor text so it survives the app being killed
+   */
+  async saveDraft(draft: Omit<NoteDraft, 'vault' | 'updatedAt'>): Promise<void> {
+    const drafts = await this.loadDrafts();
+    drafts[draft.key] = { ...draft, vault: this.getNotesDirectory(), updatedAt: Date.now() };
+    await this.persistDrafts(drafts);
+  }
+
+  /**
+   * Forget a draft once its text has been saved or deliberately discarded
+   */
+  async clearDraft(key: string): Promise<void> {
+    const drafts = await this.loadDrafts();
+    if (!drafts[key]) {
+      return;
+    }
+    delete drafts[key];
+    await this.persistDrafts(drafts);
+  }
+
+  /**
+   * Drafts for the current vault, most recent first
+   */
+  async getDrafts(): Promise<NoteDraft[]> {
+    const drafts = await this.loadDrafts();
+    const vault = this.getNotesDirectory();
+    return Object.values(drafts)
+      .filter(draft => draft.vault === vault)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private async loadDrafts(): Promise<Record<string, NoteDraft>> {
+    if (!this.drafts) {
+      try {
+        const value = await asyncStorageWithTimeout.getItem(DRAFTS_STORAGE_KEY);
+        this.drafts = value ? JSON.parse(value) : {};
+      } catch (error) {
+        console.warn('Failed to load drafts:', error);
+        this.drafts = {};
+      }
+    }
+    return this.drafts!;
+  }
+
+  private async persistDrafts(drafts: Record<string, NoteDraft>): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+    } catch (error) {
+      console.error('Failed to save drafts:', error);
+    }
+  }
+
+  /**
+   * Get current user preferences (reconstructed from individual keys)
+   */
+  async getUserPreferences(): Promise<{
+    showTimestamps: boolean;
+    welcomeCompleted: boolean;
+    quickNoteUri: string | null;
+    autoSaveOnExit: boolean;
+    fabPositionBottom: boolean;
+  }> {
+    return {
+      showTimestamps: await this.getShowTimestamps(),
+      welcomeCompleted: await this.getWelcomeCompleted(),
+      quickNoteUri: await this.getQuickNoteUri(),
+      autoSaveOnExit: await this.getAutoSaveOnExit(),
+      fabPositionBottom: await this.getFabPositionBottom(),
+    };
+  }
+
+  /**
+   * Get timestamp visibility preference
+   */
+  async getShowTimestamps(): Promise<boolean> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.SHOW_TIMESTAMPS);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.SHOW_TIMESTAMPS;
+    } catch (error) {
+      console.warn('Failed to load showTimestamps preference, using default');
+      return DEFAULT_VALUES.SHOW_TIMESTAMPS;
+    }
+  }
+
+  /**
+   * Set timestamp visibility preference
+   */
+  async setShowTimestamps(show: boolean): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.SHOW_TIMESTAMPS, JSON.stringify(show));
+    } catch (error) {
+      console.error('Failed to save showTimestamps preference:', error);
+    }
+  }
+
+  /**
+   * Check if welcome screen has been completed
+   */
+  async getWelcomeCompleted(): Promise<boolean> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.WELCOME_COMPLETED);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.WELCOME_COMPLETED;
+    } catch (error) {
+      console.warn('Failed to load welcomeCompleted preference, using default');
+      return DEFAULT_VALUES.WELCOME_COMPLETED;
+    }
+  }
+
+  /**
+   * Set welcome screen completion status
+   */
+  async setWelcomeCompleted(completed: boolean): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.WELCOME_COMPLETED, JSON.stringify(completed));
+    } catch (error) {
+      console.error('Failed to save welcomeCompleted preference:', error);
+    }
+  }
+
+  /**
+   * Get quick note URI
+   */
+  async getQuickNoteUri(): Promise<string | null> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.QUICK_NOTE_URI);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.QUICK_NOTE_URI;
+    } catch (error) {
+      console.warn('Failed to load quickNoteUri preference, using default');
+      return DEFAULT_VALUES.QUICK_NOTE_URI;
+    }
+  }
+  /**
+   * Set quick note URI
+   */
+  async setQuickNoteUri(uri: string | null): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.QUICK_NOTE_URI, JSON.stringify(uri));
+    } catch (error) {
+      console.error('Failed to save quickNoteUri preference:', error);
+    }
+  }
+
+  /**
+   * Get auto-save on exit preference
+   */
+  async getAutoSaveOnExit(): Promise<boolean> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.AUTO_SAVE_ON_EXIT);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.AUTO_SAVE_ON_EXIT;
+    } catch (error) {
+      console.warn('Failed to load autoSaveOnExit preference, using default');
+      return DEFAULT_VALUES.AUTO_SAVE_ON_EXIT;
+    }
+  }
+  /**
+   * Set auto-save on exit preference
+   */
+  async setAutoSaveOnExit(autoSave: boolean): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.AUTO_SAVE_ON_EXIT, JSON.stringify(autoSave));
+    } catch (error) {
+      console.error('Failed to save autoSaveOnExit preference:', error);
+    }
+  }
+
+  /**
+   * Get how many seconds after typing stops the editor saves in the background (0 = off)
+   */
+  async getAutoSaveDelaySeconds(): Promise<number> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.AUTO_SAVE_DELAY_SECONDS);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.AUTO_SAVE_DELAY_SECONDS;
+    } catch (error) {
+      console.warn('Failed to load autoSaveDelaySeconds preference, using default');
+      return DEFAULT_VALUES.AUTO_SAVE_DELAY_SECONDS;
+    }
+  }
+
+  /**
+   * Set how many seconds after typing stops the editor saves in the background (0 = off)
+   */
+  async setAutoSaveDelaySeconds(seconds: number): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.AUTO_SAVE_DELAY_SECONDS, JSON.stringify(seconds));
+    } catch (error) {
+      console.error('Failed to save autoSaveDelaySeconds preference:', error);
+    }
+  }
+
+  /**
+   * Get FAB position preference (bottom vs top)
+   */
+  async getFabPositionBottom(): Promise<boolean> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.FAB_POSITION_BOTTOM);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.FAB_POSITION_BOTTOM;
+    } catch (error) {
+      console.warn('Failed to load fabPositionBottom preference, using default');
+      return DEFAULT_VALUES.FAB_POSITION_BOTTOM;
+    }
+  }
+
+  /**
+   * Set FAB position preference (bottom vs top)
+   */
+  async setFabPositionBottom(positionBottom: boolean): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.FAB_POSITION_BOTTOM, JSON.stringify(positionBottom));
+    } catch (error) {
+      console.error('Failed to save fabPositionBottom preference:', error);
+    }
+  }
+
+  /**
+   * Get how many days trashed items are kept before being purged (0 = forever)
+   */
+  async getTrashRetentionDays(): Promise<number> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.TRASH_RETENTION_DAYS);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.TRASH_RETENTION_DAYS;
+    } catch (error) {
+      console.warn('Failed to load trashRetentionDays preference, using default');
+      return DEFAULT_VALUES.TRASH_RETENTION_DAYS;
+    }
+  }
+
+  /**
+   * Set how many days trashed items are kept before being purged (0 = forever)
+   */
+  async setTrashRetentionDays(days: number): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.TRASH_RETENTION_DAYS, JSON.stringify(days));
+    } catch (error) {
+      console.error('Failed to save trashRetentionDays preference:', error);
+    }
+  }
+
+  /**
+   * Get how folders and notes are sorted in folders without their own sort order
+   */
+  async getDefaultSort(): Promise<DirectorySort> {
+    await this.loadSortPreferences();
+    return this.defaultSort!;
+  }
+
+  /**
+   * Set how folders and notes are sorted in folders without their own sort order
+   */
+  async setDefaultSort(sort: DirectorySort): Promise<void> {
+    this.defaultSort = sort;
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.DEFAULT_SORT, JSON.stringify(sort));
+    } catch (error) {
+      console.error('Failed to save defaultSort preference:', error);
+    }
+  }
+
+  /**
+   * Get the sort order chosen for one folder, or null if it follows the default
+   */
+  async getFolderSort(folderPath: string): Promise<DirectorySort | null> {
+    await this.loadSortPreferences();
+    return this.folderSorts![normalizeFolderPath(folderPath)] || null;
+  }
+
+  /**
+   * Set the sort order for one folder. Passing null makes it follow the default again.
+   */
+  async setFolderSort(folderPath: string, sort: DirectorySort | null): Promise<void> {
+    await this.loadSortPreferences();
+    const folderSorts = { ...this.folderSorts! };
+    if (sort) {
+      folderSorts[normalizeFolderPath(folderPath)] = sort;
+    } else {
+      delete folderSorts[normalizeFolderPath(folderPath)];
+    }
+    this.folderSorts = folderSorts;
+
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.FOLDER_SORTS, JSON.stringify(folderSorts));
+    } catch (error) {
+      console.error('Failed to save folderSorts preference:', error);
+    }
+  }
+
+  private async loadSortPreferences(): Promise<void> {
+    if (!this.defaultSort) {
+      try {
+        const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.DEFAULT_SORT);
+        this.defaultSort = value !== null ? JSON.parse(value) : DEFAULT_VALUES.DEFAULT_SORT;
+      } catch (error) {
+        console.warn('Failed to load defaultSort preference, using default');
+        this.defaultSort = DEFAULT_VALUES.DEFAULT_SORT;
+      }
+    }
+    if (!this.folderSorts) {
+      try {
+        const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.FOLDER_SORTS);
+        this.folderSorts = value !== null ? JSON.parse(value) : {};
+      } catch (error) {
+        console.warn('Failed to load folderSorts preference:', error);
+        this.folderSorts = {};
+      }
+    }
+  }
+
+  /**
+   * Carry per-folder sort orders over to a moved or renamed folder and its subfolders
+   */
+  private async relocateFolderSorts(fromFolder: string, toFolder: string): Promise<void> {
+    await this.loadSortPreferences();
+    const folderSorts = relocateFolderKeys(this.folderSorts!, fromFolder, toFolder);
+    if (!folderSorts) {
+      return;
+    }
+
+    this.folderSorts = folderSorts;
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.FOLDER_SORTS, JSON.stringify(folderSorts));
+    } catch (error) {
+      console.error('Failed to save folderSorts preference:', error);
+    }
+  }
+
+  /**
+   * Sort order for a listed directory, from its own choice or the default.
+   * Falls back to the built-in default until the preferences have been loaded.
+   */
+  private getDirectorySort(directoryPath: string): DirectorySort {
+    const folderPath = this.getFolderPathForDirectory(directoryPath);
+    return (folderPath !== null && this.folderSorts?.[folderPath]) || this.defaultSort || DEFAULT_VALUES.DEFAULT_SORT;
+  }
+
+  /**
+   * Resolve a directory path or SAF URI back to its vault-relative folder path,
+   * or null if it lies outside the vault
+   */
+  private getFolderPathForDirectory(directoryPath: string): string | null {
+    const rootDir = this.getNotesDirectory();
+    if (!directoryPath.startsWith(rootDir)) {
+      return null;
+    }
+    return normalizeFolderPath(directoryPath.substring(rootDir.length));
+  }
+
+  /**
+   * Get every pinned note and folder
+   */
+  async getPinnedItems(): Promise<PinnedItem[]> {
+    if (!this.pinnedItems) {
+      try {
+        const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.PINNED_ITEMS);
+        this.pinnedItems = value !== null ? JSON.parse(value) : [];
+      } catch (error) {
+        console.warn('Failed to load pinnedItems preference:', error);
+        this.pinnedItems = [];
+      }
+    }
+    return this.pinnedItems!;
+  }
+
+  /**
+   * Pin or unpin a note or folder
+   */
+  async setPinned(item: PinnedItem, pinned: boolean): Promise<void> {
+    const others = (await this.getPinnedItems())
+      .filter(existing => existing.type !== item.type || existing.path !== item.path);
+    await this.persistPinnedItems(pinned ? [...others, item] : others);
+  }
+
+  /**
+   * Resolve the pinned notes and folders inside a folder and its subfolders ('' for the whole vault),
+   * each carrying its parent folder path. Pins whose files are gone are skipped.
+   */
+  async getPinnedContents(folderPath: string = ''): Promise<PinnedContents> {
+    const contents: PinnedContents = { folders: [], notes: [] };
+    if (Platform.OS === 'web') {
+      return contents;
+    }
+
+    await this.loadDirectoryPreference();
+    const scope = normalizeFolderPath(folderPath);
+    const inScope = (path: string) => !scope || path.startsWith(`${scope}/`);
+
+    for (const pin of await this.getPinnedItems()) {
+      if (!inScope(pin.path)) continue;
+      try {
+        if (pin.type === 'folder') {
+          const uri = this.getFolderUri(pin.path);
+          if (!(await this.pathExists(uri))) continue;
+          const { folderPath: parentPath, filename: name } = splitVaultPath(pin.path);
+          const modifiedAt = new Date(await this.getFileModifiedAt(uri));
+          contents.folders.push({
+            name,
+            type: 'folder',
+            path: this.getTargetDirectory(pin.path),
+            createdAt: modifiedAt,
+            updatedAt: modifiedAt,
+            folderPath: parentPath,
+          });
+        } else {
+          const { folderPath: noteFolderPath, filename } = splitVaultPath(pin.path);
+          if (!(await this.pathExists(this.getNoteUri(filename, noteFolderPath)))) continue;
+          const note = await this.getNote(filename, noteFolderPath);
+          if (!note) continue;
+          contents.notes.push({
+            filename,
+            preview: stripFrontmatter(note.content).substring(0, 200),
+            properties: note.properties,
+            createdAt: note.createdAt,
+            updatedAt: note.updatedAt,
+            filePath: note.filePath,
+            type: 'note',
+            folderPath: noteFolderPath,
+          });
+        }
+      } catch (error) {
+        console.error(`Error resolving pinned item ${pin.path}:`, error);
+      }
+    }
+    return contents;
+  }
+
+  /**
+   * Point pins at a note or folder's new path after it was moved or renamed. Pins inside a moved folder follow it.
+   */
+  private async relocatePins(type: PinnedItem['type'], fromPath: string, toPath: string): Promise<void> {
+    const pins = await this.getPinnedItems();
+    let changed = false;
+    const relocated = pins.map(pin => {
+      if (pin.type === type && pin.path === fromPath) {
+        changed = true;
+        return { ...pin, path: toPath };
+      }
+      if (type === 'folder' && pin.path.startsWith(`${fromPath}/`)) {
+        changed = true;
+        return { ...pin, path: `${toPath}${pin.path.substring(fromPath.length)}` };
+      }
+      return pin;
+    });
+    if (changed) {
+      await this.persistPinnedItems(relocated);
+    }
+  }
+
+  private async persistPinnedItems(pins: PinnedItem[]): Promise<void> {
+    this.pinnedItems = pins;
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.PINNED_ITEMS, JSON.stringify(pins));
+    } catch (error) {
+      console.error('Failed to save pinnedItems preference:', error);
+    }
+  }
+
+  /**
+   * Get quick note filename from URI (for display purposes)
+   */
+  async getQuickNoteFilename(): Promise<string | null> {
+    const uri = await this.getQuickNoteUri();
+    if (!uri) return null;
+    
+    // Extract filename from various URI formats
+    if (uri.startsWith('content://')) {
+      // SAF URI - extract filename from the end
+      const parts = uri.split('/');
+      const lastPart = parts[parts.length - 1];
+      return lastPart.replace('.md', '');
+    } else {
+      // Regular file path
+      const parts = uri.split('/');
+      const filename = parts[parts.length - 1];
+      return filename.replace('.md', '');
+    }
+  }
+
+  /**
+   * Get directory contents (folders and notes) for the current directory
+   */
+  async getDirectoryContents(directoryPath?: string): Promise<DirectoryContents> {
+    const targetPath = directoryPath || this.getCurrentDirectory();
+    const rootPath = this.getNotesDirectory();
+    
+    // Load directory preference first
+    await this.loadDirectoryPreference();
+    await this.ensureDirectoryExists();
+    await this.loadSortPreferences();
+    
+    if (Platform.OS === 'web') {
+      return this.getWebDirectoryContents(targetPath);
+    }
+    
+    try {
+      // Check if we're using SAF (URI starts with content://)
+      if (targetPath.startsWith('content://')) {
+        return await this.getSAFDirectoryContents(targetPath, rootPath);
+      } else {
+        return await this.getFileSystemDirectoryContents(targetPath, rootPath);
+      }
+    } catch (error) {
+      console.error('Error reading directory contents:', error);
+      return {
+        folders: [],
+        notes: [],
+        currentPath: targetPath,
+        parentPath: this.getParentPath(targetPath, rootPath),
+      };
+    }
+  }
+
+  /**
+   * Directory contents as they were last listed, without reading the vault. Returns null
+   * when the directory hasn't been listed before; getDirectoryContents brings it up to date.
+   */
+  async getCachedDirectoryContents(directoryPath?: string): Promise<DirectoryContents | null> {
+    await this.loadDirectoryPreference();
+    await this.loadSortPreferences();
+    if (Platform.OS === 'web') {
+      return null;
+    }
+
+    const targetPath = directoryPath || this.getCurrentDirectory();
+    await this.loadMetadataCache();
+    const cached = this.metadataCache.getDirectory(targetPath);
+    if (!cached) {
+      return null;
+    }
+
+    const folders: FolderItem[] = cached.folders.map(folder => ({
+      name: folder.name,
+      type: 'folder',
+      path: folder.path,
+      createdAt: new Date(folder.modifiedAt),
+      updatedAt: new Date(folder.modifiedAt),
+    }));
+    return this.buildDirectoryContents(folders, cached.notes.map(note => this.toNoteItem(note)), targetPath, this.getNotesDirectory());
+  }
+
+  /**
+   * Get parent path for navigation
+   */
+  private getParentPath(currentPath: string, rootPath: string): string | null {
+    if (currentPath === rootPath) {
+      return null; // Already at root
+    }
+    
+    if (currentPath.startsWith('content://')) {
+      // SAF path - extract parent
+      const pathParts = currentPath.split('/');
+      if (pathParts.length > 4) { // content://authority/tree/document/...
         return pathParts.slice(0, -1).join('/');
       }
-      return rootPath;
+      return rootPath;
+    } else {
+      // Regular filesystem path
+      const pathParts = currentPath.split('/');
+      if (pathParts.length > 1) {
+        const parentPath = pathParts.slice(0, -1).join('/') + '/';
+        return parentPath.length >= rootPath.length ? parentPath : null;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Get directory contents using SAF
+   */
+  private async getSAFDirectoryContents(directoryUri: string, rootPath: string): Promise<DirectoryContents> {
+    try {
+      const files = await listFiles(directoryUri);
+      const { folders, markdownFiles } = this.separateFoldersAndMarkdownFiles(files);
+
+      const notes = await this.readNoteListing(directoryUri, folders, markdownFiles.map(file => ({
+        filename: file.name.replace('.md', ''),
+        filePath: file.uri,
+        modifiedAt: file.lastModified,
+        size: file.size,
+      })), readFile);
+
+      return this.buildDirectoryContents(folders, notes, directoryUri, rootPath);
+    } catch (error) {
+      console.error('Error reading SAF directory contents:', error);
+      return this.buildEmptyDirectoryContents(directoryUri, rootPath);
+    }
+  }
+
+  /**
+   * Get directory contents using regular filesystem
+   */
+  private async getFileSystemDirectoryContents(currentDir: string, rootPath: string): Promise<DirectoryContents> {
+    try {
+      const files = await FileSystem.readDirectoryAsync(currentDir);
+      const { folders, markdownFiles } = await this.processRegularFiles(files, currentDir);
+
+      // Only stat the files here, their content is read when the cached metadata is out of date
+      const entries = await Promise.all(markdownFiles.map(async (file) => {
+        const filePath = `${currentDir}${file}`;
+        const stat = await FileSystem.getInfoAsync(filePath);
+        return {
+          filename: file.replace('.md', ''),
+          filePath,
+          modifiedAt: stat.exists && 'modificationTime' in stat ? stat.modificationTime : Date.now(),
+          size: stat.exists ? stat.size : 0,
+        };
+      }));
+      const notes = await this.readNoteListing(currentDir, folders, entries, FileSystem.readAsStringAsync);
+
+      return this.buildDirectoryContents(folders, notes, currentDir, rootPath);
+    } catch (error) {
+      console.error('Error reading filesystem directory contents:', error);
+      return this.buildEmptyDirectoryContents(currentDir, rootPath);
+    }
+  }
+
+  /**
+   * Get directory contents for web platform
+   */
+  private getWebDirectoryContents(targetPath: string): DirectoryContents {
+    // For web, we'll simulate folder structure using localStorage
+    // This is a simplified implementation - in a real app, you might want more sophisticated folder handling
+    const notesData = localStorage.getItem('notes');
+    const notes: NoteItem[] = [];
+    
+    if (notesData) {
+      try {
+        const allNotes = JSON.parse(notesData);
+        allNotes.forEach((note: any) => {
+          notes.push({
+            filename: note.filename,
+            preview: note.preview || stripFrontmatter(note.content || '').substring(0, 200),
+            properties: parseFrontmatter(note.content || ''),
+            createdAt: new Date(note.createdAt),
+            updatedAt: new Date(note.updatedAt),
+            filePath: note.filePath || `${targetPath}/${note.filename}.md`,
+            type: 'note',
+          });
+        });
+      } catch {
+        // Handle parsing errors
+      }
+    }
+    
+    return {
+      folders: [], // Web doesn't support real folders in this implementation
+      notes: sortNotes(notes, this.getDirectorySort(targetPath).notes),
+      currentPath: targetPath,
+      parentPath: null, // Web implementation doesn't support folder navigation
+    };
+  }
+  /**
+   * Helper to separate folders and markdown files
+   */
+  private separateFoldersAndMarkdownFiles(files: any[]): { folders: FolderItem[]; markdownFiles: any[] } {
+    const folders: FolderItem[] = [];
+    const markdownFiles: any[] = [];
+    for (const file of files) {
+      if (file.type === 'directory' && !file.name.startsWith('.')) {
+        folders.push({
+          name: file.name,
+          type: 'folder',
+          path: file.uri,
+          createdAt: new Date(file.lastModified),
+          updatedAt: new Date(file.lastModified),
+        });
+      } else if (file.name.endsWith('.md')) {
+        markdownFiles.push(file);
+      }
+    }
+    return { folders, markdownFiles };
+  }
+
+  /**
+   * Build the notes of a directory listing from the metadata cache, reading only files whose
+   * modification time or size changed, and remember the listing for the next launch
+   */
+  private async readNoteListing(
+    directory: string,
+    folders: FolderItem[],
+    files: { filename: string; filePath: string; modifiedAt: number; size: number }[],
+    read: (uri: string) => Promise<string>
+  ): Promise<NoteItem[]> {
+    await this.loadMetadataCache();
+
+    const described = await Promise.all(files.map(async (file) => {
+      try {
+        return this.metadataCache.getNote(directory, file.filename, file.modifiedAt, file.size)
+          || MetadataCache.describeNote(file.filename, file.filePath, await read(file.filePath), file.modifiedAt, file.size);
+      } catch (error) {
+        console.error(`Error reading file ${file.filePath}:`, error);
+        return null;
+      }
+    }));
+    const notes = described.filter((note): note is CachedNote => note !== null);
+
+    const changed = this.metadataCache.setDirectory(directory, {
+      folders: folders.map(folder => ({ name: folder.name, path: folder.path, modifiedAt: folder.updatedAt.getTime() })),
+      notes,
+    });
+    if (changed) {
+      this.scheduleMetadataCachePersist();
+    }
+    return notes.map(note => this.toNoteItem(note));
+  }
+
+  private toNoteItem(note: CachedNote): NoteItem {
+    return {
+      filename: note.filename,
+      preview: note.preview,
+      properties: note.properties,
+      createdAt: getCreatedDate(note.properties, new Date(note.modifiedAt)),
+      updatedAt: new Date(note.modifiedAt),
+      filePath: note.filePath,
+      type: 'note',
+    };
+  }
+
+  /**
+   * Helper to process regular files and find folders
+   */
+  private async processRegularFiles(files: string[], currentDir: string): Promise<{ folders: FolderItem[]; markdownFiles: string[] }> {
+    const folders: FolderItem[] = [];
+    const markdownFiles: string[] = [];
+    const regularFiles: string[] = [];
+
+    for (const file of files) {
+      if (file.endsWith('.md')) {
+        markdownFiles.push(file);
+      } else {
+        regularFiles.push(file);
+      }
+    }    const folderPromises = regularFiles.map(async (file) => {
+      try {
+        // Skip hidden folders (those starting with a period)
+        if (file.startsWith('.')) {
+          return null;
+        }
+        
+        const filePath = `${currentDir}${file}`;
+        const stat = await FileSystem.getInfoAsync(filePath);
+        if (stat.exists && stat.isDirectory) {
+          const modTime = 'modificationTime' in stat ? stat.modificationTime : Date.now();
+          return {
+            name: file,
+            type: 'folder' as const,
+            path: filePath + '/',
+            createdAt: new Date(modTime),
+            updatedAt: new Date(modTime),
+          };
+        }
+        return null;
+      } catch (error) {
+        console.error(`Error processing file ${file}:`, error);
+        return null;
+      }
+    });
+
+    const folderResults = await Promise.all(folderPromises);
+    folders.push(...folderResults.filter(folder => folder !== null) as FolderItem[]);
+    return { folders, markdownFiles };
+  }
+
+  /**
+   * Helper to build directory contents
+   */
+  private buildDirectoryContents(folders: FolderItem[], notes: NoteItem[], currentPath: string, rootPath: string): DirectoryContents {
+    const sort = this.getDirectorySort(currentPath);
+    return {
+      folders: sortFolders(folders, sort.folders),
+      notes: sortNotes(notes, sort.notes),
+      currentPath,
+      parentPath: this.getParentPath(currentPath, rootPath),
+    };
+  }
+
+  /**
+   * Helper to build empty directory contents
+   */
+  private buildEmptyDirectoryContents(currentPath: string, rootPath: string): DirectoryContents {
+    return {
+      folders: [],
+      notes: [],
+      currentPath,
+      parentPath: this.getParentPath(currentPath, rootPath),
+    };
+  }
+
+  /**
+   * Navigate to a specific directory
+   */
+  async navigateToDirectory(path: string): Promise<DirectoryContents> {
+    this.setCurrentDirectory(path);
+    return await this.getDirectoryContents(path);
+  }
+
+  /**
+   * Navigate to parent directory
+   */
+  async navigateToParent(): Promise<DirectoryContents | null> {
+    const currentContents = await this.getDirectoryContents();
+    if (currentContents.parentPath) {
+      this.setCurrentDirectory(currentContents.parentPath);
+      return await this.getDirectoryContents(currentContents.parentPath);
+    }
+    return null;
+  }
+
+  /**
+   * Navigate to root directory
+   */
+  async navigateToRoot(): Promise<DirectoryContents> {
+    this.resetToRootDirectory();
+    return await this.getDirectoryContents();
+  }
+
+  /**
+   * Poll a vault folder for changes made outside the app, such as by sync. Each poll only lists
+   * the folder and compares modification times; just the added or modified notes are read.
+   * Returns a function that stops watching.
+   */
+  watchDirectory(
+    folderPath: string,
+    onChange: (changes: DirectoryChanges) => void,
+    intervalMs: number = DIRECTORY_POLL_INTERVAL_MS
+  ): () => void {
+    if (Platform.OS === 'web') {
+      return () => {};
+    }
+
+    let previous: Map<string, number> | null = null;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    // Each poll schedules the next one, so slow listings never overlap
+    const poll = async () => {
+      try {
+        const snapshot = await this.getDirectorySnapshot(folderPath);
+        if (previous && !stopped) {
+          const changes = await this.readDirectoryChanges(folderPath, previous, snapshot);
+          if (changes && !stopped) {
+            onChange(changes);
+          }
+        }
+        previous = snapshot;
+      } catch (error) {
+        console.error('Error polling directory for changes:', error);
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, intervalMs);
+      }
+    };
+    poll();
+
+    return () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+
+  /**
+   * Merge polled changes into a directory listing, keeping unchanged items as they are
+   */
+  applyDirectoryChanges(contents: DirectoryContents, changes: DirectoryChanges): DirectoryContents {
+    const replaced = new Set([...changes.removedNotes, ...changes.notes.map(note => note.filename)]);
+    const notes = [...contents.notes.filter(note => !replaced.has(note.filename)), ...changes.notes];
+    const sort = this.getDirectorySort(contents.currentPath);
+    return {
+      ...contents,
+      folders: changes.folders ? sortFolders(changes.folders, sort.folders) : contents.folders,
+      notes: sortNotes(notes, sort.notes),
+    };
+  }
+
+  /**
+   * Modification times of a folder's notes (by filename) and subfolders (by name with a trailing slash)
+   */
+  private async getDirectorySnapshot(folderPath: string): Promise<Map<string, number>> {
+    const directory = this.getTargetDirectory(folderPath);
+    const snapshot = new Map<string, number>();
+
+    if (directory.startsWith('content://')) {
+      for (const entry of await listFiles(directory)) {
+        if (entry.type === 'directory' && !entry.name.startsWith('.')) {
+          snapshot.set(`${entry.name}/`, entry.lastModified);
+        } else if (entry.type === 'file' && entry.name.endsWith('.md')) {
+          snapshot.set(entry.name.slice(0, -3), entry.lastModified);
+        }
+      }
+      return snapshot;
+    }
+
+    const names = await FileSystem.readDirectoryAsync(directory);
+    await Promise.all(names.map(async name => {
+      const info = await FileSystem.getInfoAsync(`${directory}${name}`);
+      if (!info.exists) return;
+      const modifiedAt = 'modificationTime' in info ? info.modificationTime : 0;
+      if (info.isDirectory && !name.startsWith('.')) {
+        snapshot.set(`${name}/`, modifiedAt);
+      } else if (!info.isDirectory && name.endsWith('.md')) {
+        snapshot.set(name.slice(0, -3), modifiedAt);
+      }
+    }));
+    return snapshot;
+  }
+
+  /**
+   * Read what changed between two snapshots of a folder, invalidating only the affected cache entries
+   */
+  private async readDirectoryChanges(
+    folderPath: string,
+    previous: Map<string, number>,
+    current: Map<string, number>
+  ): Promise<DirectoryChanges | null> {
+    const isFolder = (name: string) => name.endsWith('/');
+    const changedNotes = [...current]
+      .filter(([name, modifiedAt]) => !isFolder(name) && previous.get(name) !== modifiedAt)
+      .map(([name]) => name);
+    const removedNotes = [...previous.keys()].filter(name => !isFolder(name) && !current.has(name));
+    const foldersChanged = [...current].some(([name, modifiedAt]) => isFolder(name) && previous.get(name) !== modifiedAt)
+      || [...previous.keys()].some(name => isFolder(name) && !current.has(name));
+
+    if (changedNotes.length === 0 && removedNotes.length === 0 && !foldersChanged) {
+      return null;
+    }
+
+    const directory = this.getTargetDirectory(folderPath);
+    this.notesCache.delete(this.getCacheKey(directory));
+
+    for (const filename of removedNotes) {
+      const path = buildVaultPath(filename, folderPath);
+      this.noteContentCache.delete(`note_${filename}_${folderPath || 'root'}`);
+      this.searchIndex.removeDocument(path);
+      this.removeFromNoteGraph(path);
+    }
+    if (removedNotes.length > 0) {
+      this.scheduleSearchIndexPersist();
+    }
+
+    const notes: NoteItem[] = [];
+    for (const filename of changedNotes) {
+      this.noteContentCache.delete(`note_${filename}_${folderPath || 'root'}`);
+      const note = await this.getNote(filename, folderPath);
+      if (!note) continue;
+
+      await this.indexNote(filename, folderPath, note.content);
+      notes.push({
+        filename,
+        preview: stripFrontmatter(note.content).substring(0, 200),
+        properties: note.properties,
+        createdAt: note.createdAt,
+        updatedAt: note.updatedAt,
+        filePath: note.filePath,
+        type: 'note',
+      });
+    }
+
+    let folders: FolderItem[] | null = null;
+    if (foldersChanged) {
+      folders = directory.startsWith('content://')
+        ? this.separateFoldersAndMarkdownFiles(await listFiles(directory)).folders
+        : (await this.processRegularFiles(await FileSystem.readDirectoryAsync(directory), directory)).folders;
+      folders.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    return { notes, removedNotes, folders };
+  }
+
+  /**
+   * Resolve a vault-relative folder path to a directory path or SAF URI
+   */
+  private getTargetDirectory(folderPath?: string): string {
+    const rootDir = this.getNotesDirectory();
+    const normalizedFolder = normalizeFolderPath(folderPath);
+
+    if (!normalizedFolder) {
+      return rootDir;
+    }
+    return rootDir.startsWith('content://') ? `${rootDir}/${normalizedFolder}` : `${rootDir}${normalizedFolder}/`;
+  }
+
+  /**
+   * Resolve a vault-relative folder path to a directory URI without the trailing slash
+   * expo-file-system paths carry, so it can be moved or compared like a file
+   */
+  private getFolderUri(folderPath?: string): string {
+    return this.getTargetDirectory(folderPath).replace(/\/$/, '');
+  }
+
+  /**
+   * Resolve a note filename and vault-relative folder path to a file path or SAF URI
+   */
+  private getNoteUri(filename: string, folderPath?: string): string {
+    const targetDir = this.getTargetDirectory(folderPath);
+    return targetDir.startsWith('content://') ? `${targetDir}/${filename}.md` : `${targetDir}${filename}.md`;
+  }
+
+  /**
+   * Get a file's modification time in milliseconds
+   */
+  private async getFileModifiedAt(uri: string): Promise<number> {
+    if (uri.startsWith('content://')) {
+      const fileStat = await stat(uri);
+      return fileStat.lastModified;
+    }
+
+    const info = await FileSystem.getInfoAsync(uri);
+    // expo-file-system reports modification time in seconds
+    return info.exists && 'modificationTime' in info ? info.modificationTime * 1000 : Date.now();
+  }
+
+  /**
+   * Recursively list the markdown files of the vault or one of its folders. Hidden files and
+   * folders (like the trash) are always skipped; `ignore` and `maxDepth` narrow the walk further.
+   */
+  async walkVault(options: VaultWalkOptions = {}): Promise<VaultFile[]> {
+    await this.loadDirectoryPreference();
+    if (Platform.OS === 'web') {
+      // Web notes are stored flat, without folders
+      return this.getWebNotes().map(note => ({
+        path: buildVaultPath(note.filename),
+        filename: note.filename,
+        folderPath: '',
+        uri: '',
+        modifiedAt: note.updatedAt.getTime(),
+      }));
+    }
+
+    const { maxDepth = Infinity, ignore = [] } = options;
+    const isIgnored = (name: string) => name.startsWith('.')
+      || ignore.some(rule => typeof rule === 'string' ? rule === name : rule.test(name));
+    const files: VaultFile[] = [];
+
+    const visit = async (directory: string, folderPath: string, depth: number): Promise<void> => {
+      if (directory.startsWith('content://')) {
+        const entries = await listFiles(directory);
+        for (const entry of entries) {
+          if (isIgnored(entry.name)) continue;
+
+          if (entry.type === 'directory') {
+            if (depth < maxDepth) {
+              await visit(entry.uri, joinFolderPath(folderPath, entry.name), depth + 1);
+            }
+          } else if (entry.name.endsWith('.md')) {
+            const filename = entry.name.replace(/\.md$/, '');
+            files.push({
+              path: buildVaultPath(filename, folderPath),
+              filename,
+              folderPath,
+              uri: entry.uri,
+              modifiedAt: entry.lastModified,
+            });
+          }
+        }
+      } else {
+        const names = await FileSystem.readDirectoryAsync(directory);
+        for (const name of names) {
+          if (isIgnored(name)) continue;
+
+          const uri = `${directory}${name}`;
+          const info = await FileSystem.getInfoAsync(uri);
+          if (!info.exists) continue;
+
+          if (info.isDirectory) {
+            if (depth < maxDepth) {
+              await visit(`${uri}/`, joinFolderPath(folderPath, name), depth + 1);
+            }
+          } else if (name.endsWith('.md')) {
+            const filename = name.replace(/\.md$/, '');
+            files.push({
+              path: buildVaultPath(filename, folderPath),
+              filename,
+              folderPath,
+              uri,
+              modifiedAt: 'modificationTime' in info ? info.modificationTime * 1000 : Date.now(),
+            });
+          }
+        }
+      }
+    };
+
+    const startFolder = normalizeFolderPath(options.folderPath);
+    await visit(this.getTargetDirectory(startFolder), startFolder, 0);
+    return files;
+  }
+
+  /**
+   * Notes from every folder of the vault (or below `folderPath`), newest first, with their folder set
+   */
+  async getVaultNotes(options: VaultWalkOptions = {}): Promise<NotePreview[]> {
+    if (Platform.OS === 'web') {
+      return this.getWebNotes();
+    }
+
+    const files = await this.walkVault(options);
+    await this.ensureSearchIndex();
+
+    const notes = await Promise.all(files.map(async (file): Promise<NotePreview | null> => {
+      try {
+        // The search index already holds the content of every note it has seen unchanged
+        const content = this.searchIndex.getModifiedAt(file.path) === file.modifiedAt
+          ? this.searchIndex.getContent(file.path)!
+          : file.uri.startsWith('content://') ? await readFile(file.uri) : await FileSystem.readAsStringAsync(file.uri);
+        const properties = parseFrontmatter(content);
+        return {
+          filename: file.filename,
+          preview: stripFrontmatter(content).substring(0, 200),
+          properties,
+          createdAt: getCreatedDate(properties, new Date(file.modifiedAt)),
+          updatedAt: new Date(file.modifiedAt),
+          filePath: file.uri,
+          folderPath: file.folderPath,
+        };
+      } catch (error) {
+        console.error(`Error reading file ${file.path}:`, error);
+        return null;
+      }
+    }));
+
+    return (notes.filter(note => note !== null) as NotePreview[])
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Get the daily notes folder, filename date format and template
+   */
+  async getDailyNoteSettings(): Promise<DailyNoteSettings> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.DAILY_NOTES);
+      return value !== null ? { ...DEFAULT_VALUES.DAILY_NOTES, ...JSON.parse(value) } : DEFAULT_VALUES.DAILY_NOTES;
+    } catch (error) {
+      console.warn('Failed to load dailyNotes preference, using default');
+      return DEFAULT_VALUES.DAILY_NOTES;
+    }
+  }
+
+  /**
+   * Set the daily notes folder, filename date format and template
+   */
+  async setDailyNoteSettings(settings: DailyNoteSettings): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.DAILY_NOTES, JSON.stringify({
+        folder: normalizeFolderPath(settings.folder),
+        format: settings.format.trim() || DEFAULT_DAILY_NOTE_FORMAT,
+        template: settings.template.trim(),
+      }));
+    } catch (error) {
+      console.error('Failed to save dailyNotes preference:', error);
+    }
+  }
+
+  /**
+   * Where the daily note for a day lives, whether or not it exists yet
+   */
+  async getDailyNoteLocation(date: Date): Promise<NoteLocation> {
+    const settings = await this.getDailyNoteSettings();
+    const path = `${joinFolderPath(settings.folder, formatDate(date, settings.format))}.md`;
+    return { path, ...splitVaultPath(path) };
+  }
+
+  /**
+   * The day a note is the daily note for, or null if it isn't a daily note
+   */
+  async getDailyNoteDate(filename: string, folderPath?: string): Promise<Date | null> {
+    const settings = await this.getDailyNoteSettings();
+    const folder = normalizeFolderPath(settings.folder);
+    const path = joinFolderPath(normalizeFolderPath(folderPath), filename);
+    if (folder && !path.startsWith(`${folder}/`)) {
+      return null;
+    }
+    return parseDate(folder ? path.substring(folder.length + 1) : path, settings.format);
+  }
+
+  /**
+   * Open the daily note for a day, creating it from the template when it doesn't exist yet
+   */
+  async getOrCreateDailyNote(date: Date = new Date()): Promise<NoteLocation> {
+    await this.loadDirectoryPreference();
+    const location = await this.getDailyNoteLocation(date);
+    const exists = Platform.OS === 'web'
+      ? (await this.getNote(location.filename)) !== null
+      : await this.pathExists(this.getNoteUri(location.filename, location.folderPath));
+
+    if (!exists) {
+      if (Platform.OS !== 'web') {
+        await this.ensureFolderExists(location.folderPath);
+      }
+      const now = new Date();
+      await this.saveNote({
+        filename: location.filename,
+        content: setCreatedDate(await this.getDailyNoteContent(date, location), now),
+        createdAt: now,
+        updatedAt: now,
+        filePath: '',
+      }, undefined, location.folderPath);
+    }
+    return location;
+  }
+
+  /**
+   * The closest existing daily notes before and after a day
+   */
+  async getAdjacentDailyNotes(date: Date): Promise<{ previous: NoteLocation | null; next: NoteLocation | null }> {
+    const settings = await this.getDailyNoteSettings();
+    const folder = normalizeFolderPath(settings.folder);
+    const day = startOfDay(date).getTime();
+    let previous: { time: number; location: NoteLocation } | null = null;
+    let next: { time: number; location: NoteLocation } | null = null;
+
+    for (const file of await this.walkVault({ folderPath: folder })) {
+      const relativePath = (folder ? file.path.substring(folder.length + 1) : file.path).replace(/\.md$/, '');
+      const time = parseDate(relativePath, settings.format)?.getTime();
+      if (time === undefined) continue;
+
+      const location = { path: file.path, filename: file.filename, folderPath: file.folderPath };
+      if (time < day && (!previous || time > previous.time)) {
+        previous = { time, location };
+      } else if (time > day && (!next || time < next.time)) {
+        next = { time, location };
+      }
+    }
+    return { previous: previous?.location || null, next: next?.location || null };
+  }
+
+  private async getDailyNoteContent(date: Date, location: NoteLocation): Promise<string> {
+    const { template } = await this.getDailyNoteSettings();
+    if (!template) {
+      return '';
+    }
+
+    const rendered = await this.renderNoteTemplate(template, { date, title: location.filename, folderPath: location.folderPath });
+    return rendered ? rendered.content : '';
+  }
+
+  /**
+   * Get the folder templates are picked from, '' if none has been chosen
+   */
+  async getTemplatesFolder(): Promise<string> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.TEMPLATES_FOLDER);
+      return value !== null ? JSON.parse(value) : DEFAULT_VALUES.TEMPLATES_FOLDER;
+    } catch (error) {
+      console.warn('Failed to load templatesFolder preference, using default');
+      return DEFAULT_VALUES.TEMPLATES_FOLDER;
+    }
+  }
+
+  /**
+   * Set the folder templates are picked from
+   */
+  async setTemplatesFolder(folderPath: string): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.TEMPLATES_FOLDER, JSON.stringify(normalizeFolderPath(folderPath)));
+    } catch (error) {
+      console.error('Failed to save templatesFolder preference:', error);
+    }
+  }
+
+  /**
+   * Every note in the templates folder and its subfolders, by path
+   */
+  async getTemplates(): Promise<NoteLocation[]> {
+    const folder = await this.getTemplatesFolder();
+    if (!folder || Platform.OS === 'web' || !(await this.pathExists(this.getFolderUri(folder)))) {
+      return [];
+    }
+
+    const files = await this.walkVault({ folderPath: folder });
+    return files
+      .map(file => ({ path: file.path, filename: file.filename, folderPath: file.folderPath }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Get the template new notes in a folder start from, or null if they start empty
+   */
+  async getFolderTemplate(folderPath: string): Promise<string | null> {
+    const folderTemplates = await this.getFolderTemplates();
+    return folderTemplates[normalizeFolderPath(folderPath)] || null;
+  }
+
+  /**
+   * Set the template new notes in a folder start from. Passing null makes them start empty again.
+   */
+  async setFolderTemplate(folderPath: string, templatePath: string | null): Promise<void> {
+    const folderTemplates = { ...await this.getFolderTemplates() };
+    if (templatePath) {
+      folderTemplates[normalizeFolderPath(folderPath)] = templatePath;
     } else {
-      // Regular filesystem path
-      const pathParts = currentPath.split('/');
-      if (pathParts.length > 1) {
-        const parentPath = pathParts.slice(0, -1).join('/') + '/';
-        return parentPath.length >= rootPath.length ? parentPath : null;
+      delete folderTemplates[normalizeFolderPath(folderPath)];
+    }
+    await this.persistFolderTemplates(folderTemplates);
+  }
+
+  /**
+   * Read a template note by vault path and fill in its variables. Returns null if the template is missing.
+   */
+  async renderNoteTemplate(templatePath: string, context: TemplateContext): Promise<RenderedTemplate | null> {
+    const { filename, folderPath } = splitVaultPath(templatePath);
+    const templateNote = await this.getNote(filename, folderPath);
+    if (!templateNote) {
+      console.warn(`Template "${templatePath}" not found`);
+      return null;
+    }
+    return renderTemplate(templateNote.content, context);
+  }
+
+  private async getFolderTemplates(): Promise<Record<string, string>> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.FOLDER_TEMPLATES);
+      return value !== null ? JSON.parse(value) : {};
+    } catch (error) {
+      console.warn('Failed to load folderTemplates preference:', error);
+      return {};
+    }
+  }
+
+  private async persistFolderTemplates(folderTemplates: Record<string, string>): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.FOLDER_TEMPLATES, JSON.stringify(folderTemplates));
+    } catch (error) {
+      console.error('Failed to save folderTemplates preference:', error);
+    }
+  }
+
+  /**
+   * Carry per-folder templates over to a moved or renamed folder and its subfolders
+   */
+  private async relocateFolderTemplates(fromFolder: string, toFolder: string): Promise<void> {
+    const folderTemplates = relocateFolderKeys(await this.getFolderTemplates(), fromFolder, toFolder);
+    if (folderTemplates) {
+      await this.persistFolderTemplates(folderTemplates);
+    }
+  }
+
+  /**
+   * Point the templates folder and the daily note folder and template at a moved or renamed
+   * folder or note. Once one is deleted (`toPath` null), the setting goes back to its default.
+   */
+  private async relocateVaultSettings(type: PinnedItem['type'], fromPath: string, toPath: string | null): Promise<void> {
+    const relocate = (path: string, fallback: string): string => {
+      if (path !== fromPath && !(type === 'folder' && path.startsWith(`${fromPath}/`))) {
+        return path;
+      }
+      return toPath === null ? fallback : `${toPath}${path.substring(fromPath.length)}`;
+    };
+
+    if (type === 'folder') {
+      const templatesFolder = await this.getTemplatesFolder();
+      const relocatedFolder = relocate(templatesFolder, DEFAULT_VALUES.TEMPLATES_FOLDER);
+      if (relocatedFolder !== templatesFolder) {
+        await this.setTemplatesFolder(relocatedFolder);
+      }
+    }
+
+    const settings = await this.getDailyNoteSettings();
+    const relocated: DailyNoteSettings = {
+      ...settings,
+      folder: type === 'folder' ? relocate(settings.folder, DEFAULT_VALUES.DAILY_NOTES.folder) : settings.folder,
+      template: relocate(settings.template, DEFAULT_VALUES.DAILY_NOTES.template),
+    };
+    if (relocated.folder !== settings.folder || relocated.template !== settings.template) {
+      await this.setDailyNoteSettings(relocated);
+    }
+  }
+
+  /**
+   * Get whether the formatting toolbar is shown above the keyboard, and which buttons it has
+   */
+  async getToolbarSettings(): Promise<ToolbarSettings> {
+    try {
+      const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.EDITOR_TOOLBAR);
+      if (value === null) {
+        return DEFAULT_VALUES.EDITOR_TOOLBAR;
+      }
+      const settings: ToolbarSettings = { ...DEFAULT_VALUES.EDITOR_TOOLBAR, ...JSON.parse(value) };
+      // Drop buttons a newer or older version of the app doesn't have
+      return { ...settings, actions: settings.actions.filter(action => TOOLBAR_ACTIONS.includes(action)) };
+    } catch (error) {
+      console.warn('Failed to load editorToolbar preference, using default');
+      return DEFAULT_VALUES.EDITOR_TOOLBAR;
+    }
+  }
+
+  /**
+   * Set whether the formatting toolbar is shown, and its buttons in order
+   */
+  async setToolbarSettings(settings: ToolbarSettings): Promise<void> {
+    try {
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.EDITOR_TOOLBAR, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save editorToolbar preference:', error);
+    }
+  }
+
+  /**
+   * Location of app-managed data that should not live inside the vault
+   */
+  private getAppDataDirectory(): string {
+    return `${FileSystem.documentDirectory}.link-notes/`;
+  }
+
+  private getSearchIndexFile(): string {
+    return `${this.getAppDataDirectory()}search-index.json`;
+  }
+
+  private getMetadataCacheFile(): string {
+    return `${this.getAppDataDirectory()}metadata-cache.json`;
+  }
+
+  /**
+   * Load the persisted metadata cache once per vault. A missing or outdated file starts it empty.
+   */
+  private loadMetadataCache(): Promise<void> {
+    if (!this.metadataCachePromise) {
+      this.metadataCachePromise = (async () => {
+        try {
+          const cacheFile = this.getMetadataCacheFile();
+          const info = await FileSystem.getInfoAsync(cacheFile);
+          if (!info.exists) {
+            return;
+          }
+          const data: SerializedMetadataCache = JSON.parse(await FileSystem.readAsStringAsync(cacheFile));
+          this.metadataCache = MetadataCache.deserialize(data, this.getNotesDirectory()) || new MetadataCache();
+        } catch (error) {
+          console.warn('Failed to load metadata cache, starting empty');
+        }
+      })();
+    }
+    return this.metadataCachePromise;
+  }
+
+  private async persistMetadataCache(): Promise<void> {
+    if (Platform.OS === 'web') return;
+
+    try {
+      const appDataDir = this.getAppDataDirectory();
+      const dirInfo = await FileSystem.getInfoAsync(appDataDir);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(appDataDir, { intermediates: true });
+      }
+      const data = this.metadataCache.serialize(this.getNotesDirectory());
+      await FileSystem.writeAsStringAsync(this.getMetadataCacheFile(), JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to persist metadata cache:', error);
+    }
+  }
+
+  private scheduleMetadataCachePersist(): void {
+    if (this.metadataCachePersistTimer) {
+      clearTimeout(this.metadataCachePersistTimer);
+    }
+    this.metadataCachePersistTimer = setTimeout(() => {
+      this.metadataCachePersistTimer = null;
+      this.persistMetadataCache();
+    }, 2000);
+  }
+
+  /**
+   * Make sure the search index reflects the vault. The persisted index is loaded
+   * first, then only files whose modification time changed are re-read.
+   */
+  async ensureSearchIndex(): Promise<void> {
+    if (!this.searchIndexPromise) {
+      this.searchIndexPromise = this.buildSearchIndex().catch(error => {
+        console.error('Error building search index:', error);
+        this.searchIndexPromise = null;
+      });
+    }
+    return this.searchIndexPromise;
+  }
+
+  private async buildSearchIndex(): Promise<void> {
+    await this.loadDirectoryPreference();
+    await this.ensureDirectoryExists();
+
+    if (Platform.OS === 'web') {
+      this.searchIndex.clear();
+      const notesData = localStorage.getItem('notes');
+      const notes = notesData ? JSON.parse(notesData) : [];
+      for (const note of notes) {
+        this.searchIndex.addDocument(buildVaultPath(note.filename), note.content || '', new Date(note.updatedAt).getTime());
+      }
+      this.rebuildNoteGraph();
+      return;
+    }
+
+    const rootDir = this.getNotesDirectory();
+    const persisted = await this.readPersistedSearchIndex(rootDir);
+    if (persisted) {
+      this.searchIndex = persisted;
+    }
+
+    const files = await this.walkVault();
+    const currentPaths = new Set(files.map(file => file.path));
+    let changed = !persisted;
+
+    for (const path of this.searchIndex.getPaths()) {
+      if (!currentPaths.has(path)) {
+        this.searchIndex.removeDocument(path);
+        changed = true;
+      }
+    }
+
+    for (const file of files) {
+      if (this.searchIndex.getModifiedAt(file.path) === file.modifiedAt) continue;
+
+      try {
+        const content = file.uri.startsWith('content://')
+          ? await readFile(file.uri)
+          : await FileSystem.readAsStringAsync(file.uri);
+        this.searchIndex.addDocument(file.path, content, file.modifiedAt);
+        changed = true;
+      } catch (error) {
+        console.error(`Error indexing file ${file.path}:`, error);
+      }
+    }
+
+    this.rebuildNoteGraph();
+
+    if (changed) {
+      await this.persistSearchIndex();
+    }
+  }
+
+  private async readPersistedSearchIndex(rootDir: string): Promise<SearchIndex | null> {
+    try {
+      const indexFile = this.getSearchIndexFile();
+      const info = await FileSystem.getInfoAsync(indexFile);
+      if (!info.exists) {
+        return null;
       }
+      const data: SerializedSearchIndex = JSON.parse(await FileSystem.readAsStringAsync(indexFile));
+      return SearchIndex.deserialize(data, rootDir);
+    } catch (error) {
+      console.warn('Failed to load persisted search index, rebuilding');
       return null;
     }
   }
 
+  private async persistSearchIndex(): Promise<void> {
+    if (Platform.OS === 'web') return;
+
+    try {
+      const appDataDir = this.getAppDataDirectory();
+      const dirInfo = await FileSystem.getInfoAsync(appDataDir);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(appDataDir, { intermediates: true });
+      }
+      const data = this.searchIndex.serialize(this.getNotesDirectory());
+      await FileSystem.writeAsStringAsync(this.getSearchIndexFile(), JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to persist search index:', error);
+    }
+  }
+
+  /**
+   * Persist the index shortly after a burst of edits instead of on every one
+   */
+  private scheduleSearchIndexPersist(): void {
+    if (this.searchIndexPersistTimer) {
+      clearTimeout(this.searchIndexPersistTimer);
+    }
+    this.searchIndexPersistTimer = setTimeout(() => {
+      this.searchIndexPersistTimer = null;
+      this.persistSearchIndex();
+    }, 2000);
+  }
+
+  private resetSearchIndex(): void {
+    this.searchIndex = new SearchIndex();
+    this.searchIndexPromise = null;
+    this.outgoingLinks.clear();
+    this.noteTags.clear();
+    this.invalidateLinkCaches();
+  }
+
+  /**
+   * Update the index entry for a note that was just written
+   */
+  private async indexNote(filename: string, folderPath: string | undefined, content: string): Promise<void> {
+    try {
+      const modifiedAt = Platform.OS === 'web'
+        ? Date.now()
+        : await this.getFileModifiedAt(this.getNoteUri(filename, folderPath));
+      const path = buildVaultPath(filename, folderPath);
+      this.searchIndex.addDocument(path, content, modifiedAt);
+      this.updateNoteGraph(path, content);
+      this.scheduleSearchIndexPersist();
+    } catch (error) {
+      console.error('Error updating search index:', error);
+    }
+  }
+
+  /**
+   * Search every note in the vault, ranked by relevance
+   */
+  async searchVault(query: string, limit?: number): Promise<SearchResult[]> {
+    await this.ensureSearchIndex();
+    return this.searchIndex.search(query, limit);
+  }
+
   /**
-   * Get directory contents using SAF
+   * Resolve a wikilink target ("Note", "Folder/Note") to a note anywhere in the vault.
+   * Like Obsidian, a bare name prefers the linking note's folder, then the shortest path.
    */
-  private async getSAFDirectoryContents(directoryUri: string, rootPath: string): Promise<DirectoryContents> {
-    try {
-      const files = await listFiles(directoryUri);
-      const { folders, markdownFiles } = this.separateFoldersAndMarkdownFiles(files);
+  async resolveWikilink(target: string, sourceFolderPath?: string): Promise<NoteLocation | null> {
+    await this.ensureSearchIndex();
+    const path = this.resolveLinkTarget(target, normalizeFolderPath(sourceFolderPath));
+    return path ? { path, ...splitVaultPath(path) } : null;
+  }
 
-      const notes = await this.processMarkdownFiles(markdownFiles, async (file) => {
-        const content = await readFile(file.uri);
+  /**
+   * Every note in the vault with the target a wikilink to it should use, for link autocomplete
+   */
+  async getNoteTitles(): Promise<NoteTitle[]> {
+    await this.ensureSearchIndex();
+    if (!this.noteTitles) {
+      const lookup = this.getFilenameLookup();
+      this.noteTitles = this.searchIndex.getPaths().map(path => {
+        const { filename, folderPath } = splitVaultPath(path);
+        const aliases = parseFrontmatter(this.searchIndex.getContent(path) || '').aliases;
         return {
-          filename: file.name.replace('.md', ''),
-          preview: content.substring(0, 200),
-          createdAt: new Date(file.lastModified),
-          updatedAt: new Date(file.lastModified),
-          filePath: file.uri,
-          type: 'note' as const,
+          path,
+          filename,
+          folderPath,
+          // Names shared by several notes are linked by path so the link can't resolve elsewhere
+          linkText: (lookup.get(filename.toLowerCase()) || []).length > 1 ? path.replace(/\.md$/, '') : filename,
+          aliases: Array.isArray(aliases)
+            ? aliases.map(String)
+            : typeof aliases === 'string' && aliases.trim() ? [aliases.trim()] : [],
         };
       });
+    }
+    return this.noteTitles;
+  }
 
-      return this.buildDirectoryContents(folders, notes, directoryUri, rootPath);
-    } catch (error) {
-      console.error('Error reading SAF directory contents:', error);
-      return this.buildEmptyDirectoryContents(directoryUri, rootPath);
+  /**
+   * Headings of a note by vault path, for completing [[Note#Heading]] links
+   */
+  async getNoteHeadings(path: string): Promise<NoteHeading[]> {
+    await this.ensureSearchIndex();
+    return extractHeadings(this.searchIndex.getContent(path) || '');
+  }
+
+  /**
+   * Vault paths of recently opened notes, newest first
+   */
+  async getRecentNotes(): Promise<string[]> {
+    if (!this.recentNotes) {
+      try {
+        const value = await asyncStorageWithTimeout.getItem(PREFERENCE_KEYS.RECENT_NOTES);
+        this.recentNotes = value !== null ? JSON.parse(value) : [];
+      } catch (error) {
+        console.warn('Failed to load recentNotes preference:', error);
+        this.recentNotes = [];
+      }
     }
+    return this.recentNotes!;
   }
 
   /**
-   * Get directory contents using regular filesystem
+   * Move a note to the front of the recently opened list
    */
-  private async getFileSystemDirectoryContents(currentDir: string, rootPath: string): Promise<DirectoryContents> {
+  async addRecentNote(path: string): Promise<void> {
+    const recentNotes = [path, ...(await this.getRecentNotes()).filter(existing => existing !== path)]
+      .slice(0, RECENT_NOTES_LIMIT);
+    await this.persistRecentNotes(recentNotes);
+  }
+
+  /**
+   * Keep recently opened notes in the list after they, or a folder they're in, were moved or renamed
+   */
+  private async relocateRecentNotes(type: PinnedItem['type'], fromPath: string, toPath: string): Promise<void> {
+    const recentNotes = await this.getRecentNotes();
+    const relocated = recentNotes.map(path => {
+      if (type === 'note' && path === fromPath) {
+        return toPath;
+      }
+      if (type === 'folder' && path.startsWith(`${fromPath}/`)) {
+        return `${toPath}${path.substring(fromPath.length)}`;
+      }
+      return path;
+    });
+    if (relocated.some((path, index) => path !== recentNotes[index])) {
+      await this.persistRecentNotes(relocated);
+    }
+  }
+
+  private async persistRecentNotes(recentNotes: string[]): Promise<void> {
+    this.recentNotes = recentNotes;
     try {
-      const files = await FileSystem.readDirectoryAsync(currentDir);
-      const { folders, markdownFiles } = await this.processRegularFiles(files, currentDir);
+      await asyncStorageWithTimeout.setItem(PREFERENCE_KEYS.RECENT_NOTES, JSON.stringify(recentNotes));
+    } catch (error) {
+      console.error('Failed to save recentNotes preference:', error);
+    }
+  }
 
-      const notes = await this.processMarkdownFiles(markdownFiles, async (file) => {
-        const filePath = `${currentDir}${file}`;
-        const [content, stat] = await Promise.all([
-          FileSystem.readAsStringAsync(filePath),
-          FileSystem.getInfoAsync(filePath),
-        ]);
-        const modTime = stat.exists && 'modificationTime' in stat ? stat.modificationTime : Date.now();
-        return {
-          filename: file.replace('.md', ''),
-          preview: content.substring(0, 200),
-          createdAt: new Date(modTime),
-          updatedAt: new Date(modTime),
-          filePath,
-          type: 'note' as const,
-        };
+  private resolveLinkTarget(target: string, sourceFolder: string): string | null {
+    const normalizedTarget = normalizeFolderPath(target.trim().replace(/\.md$/, '')).toLowerCase();
+    if (!normalizedTarget) {
+      return null;
+    }
+
+    let candidates: string[];
+    if (normalizedTarget.includes('/')) {
+      // Path links are vault-relative, or relative to the linking note's folder
+      const relativeTarget = joinFolderPath(sourceFolder, normalizedTarget).toLowerCase();
+      candidates = this.searchIndex.getPaths().filter(path => {
+        const withoutExtension = path.replace(/\.md$/, '').toLowerCase();
+        return withoutExtension === normalizedTarget || withoutExtension === relativeTarget
+          || withoutExtension.endsWith(`/${normalizedTarget}`);
       });
+    } else {
+      candidates = this.getFilenameLookup().get(normalizedTarget) || [];
+    }
 
-      return this.buildDirectoryContents(folders, notes, currentDir, rootPath);
-    } catch (error) {
-      console.error('Error reading filesystem directory contents:', error);
-      return this.buildEmptyDirectoryContents(currentDir, rootPath);
+    if (candidates.length === 0) {
+      return null;
+    }
+    if (candidates.length === 1) {
+      return candidates[0];
     }
+
+    return [...candidates].sort((a, b) => {
+      const aInSource = splitVaultPath(a).folderPath === sourceFolder ? 0 : 1;
+      const bInSource = splitVaultPath(b).folderPath === sourceFolder ? 0 : 1;
+      return aInSource - bInSource || a.split('/').length - b.split('/').length || a.localeCompare(b);
+    })[0];
   }
 
   /**
-   * Get directory contents for web platform
+   * Map of lowercase filename to every vault path with that name
    */
-  private getWebDirectoryContents(targetPath: string, rootPath: string): DirectoryContents {
-    // For web, we'll simulate folder structure using localStorage
-    // This is a simplified implementation - in a real app, you might want more sophisticated folder handling
-    const notesData = localStorage.getItem('notes');
-    const notes: NoteItem[] = [];
-    
-    if (notesData) {
-      try {
-        const allNotes = JSON.parse(notesData);
-        allNotes.forEach((note: any) => {
-          notes.push({
-            filename: note.filename,
-            preview: note.preview || note.content?.substring(0, 200) || '',
-            createdAt: new Date(note.createdAt),
-            updatedAt: new Date(note.updatedAt),
-            filePath: note.filePath || `${targetPath}/${note.filename}.md`,
-            type: 'note',
-          });
-        });
-      } catch {
-        // Handle parsing errors
+  private getFilenameLookup(): Map<string, string[]> {
+    if (!this.filenameLookup) {
+      const lookup = new Map<string, string[]>();
+      for (const path of this.searchIndex.getPaths()) {
+        const key = splitVaultPath(path).filename.toLowerCase();
+        lookup.set(key, [...(lookup.get(key) || []), path]);
       }
+      this.filenameLookup = lookup;
     }
-    
-    return {
-      folders: [], // Web doesn't support real folders in this implementation
-      notes: notes.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
-      currentPath: targetPath,
-      parentPath: null, // Web implementation doesn't support folder navigation
-    };
+    return this.filenameLookup;
   }
-  /**
-   * Helper to separate folders and markdown files
-   */
-  private separateFoldersAndMarkdownFiles(files: any[]): { folders: FolderItem[]; markdownFiles: any[] } {
-    const folders: FolderItem[] = [];
-    const markdownFiles: any[] = [];
-    for (const file of files) {
-      if (file.type === 'directory' && !file.name.startsWith('.')) {
-        folders.push({
-          name: file.name,
-          type: 'folder',
-          path: file.uri,
-          createdAt: new Date(file.lastModified),
-          updatedAt: new Date(file.lastModified),
-        });
-      } else if (file.name.endsWith('.md')) {
-        markdownFiles.push(file);
+
+  private invalidateLinkCaches(): void {
+    this.filenameLookup = null;
+    this.backlinkCountCache = null;
+    this.noteTitles = null;
+  }
+
+  private rebuildNoteGraph(): void {
+    this.outgoingLinks.clear();
+    this.noteTags.clear();
+    for (const path of this.searchIndex.getPaths()) {
+      const content = this.searchIndex.getContent(path) || '';
+      this.outgoingLinks.set(path, extractWikilinks(content));
+      this.noteTags.set(path, extractTags(content));
+    }
+    this.invalidateLinkCaches();
+  }
+
+  private updateNoteGraph(path: string, content: string): void {
+    this.outgoingLinks.set(path, extractWikilinks(content));
+    this.noteTags.set(path, extractTags(content));
+    this.invalidateLinkCaches();
+  }
+
+  private removeFromNoteGraph(path: string): void {
+    this.outgoingLinks.delete(path);
+    this.noteTags.delete(path);
+    this.invalidateLinkCaches();
+  }
+
+  private removeFolderFromNoteGraph(folderPath: string): void {
+    const prefix = `${folderPath}/`;
+    for (const path of Array.from(this.outgoingLinks.keys())) {
+      if (path.startsWith(prefix)) {
+        this.outgoingLinks.delete(path);
+        this.noteTags.delete(path);
       }
     }
-    return { folders, markdownFiles };
+    this.invalidateLinkCaches();
   }
 
   /**
-   * Helper to process markdown files
+   * Re-key index and note graph entries after notes moved, keyed by old vault path
    */
-  private async processMarkdownFiles(files: any[], processFile: (file: any) => Promise<NoteItem | null>): Promise<NoteItem[]> {
-    const notePromises = files.map(processFile);
-    const notesResults = await Promise.all(notePromises);
-    return notesResults.filter(note => note !== null) as NoteItem[];
+  private relocateIndexedNotes(moves: Map<string, string>): void {
+    moves.forEach((toPath, fromPath) => {
+      const content = this.searchIndex.getContent(fromPath);
+      const modifiedAt = this.searchIndex.getModifiedAt(fromPath);
+      this.searchIndex.removeDocument(fromPath);
+      this.removeFromNoteGraph(fromPath);
+      if (content !== undefined && modifiedAt !== undefined) {
+        this.searchIndex.addDocument(toPath, content, modifiedAt);
+        this.updateNoteGraph(toPath, content);
+      }
+    });
+    this.scheduleSearchIndexPersist();
   }
 
   /**
-   * Helper to process regular files and find folders
+   * Get every line in other notes that links to the given note
    */
-  private async processRegularFiles(files: string[], currentDir: string): Promise<{ folders: FolderItem[]; markdownFiles: string[] }> {
-    const folders: FolderItem[] = [];
-    const markdownFiles: string[] = [];
-    const regularFiles: string[] = [];
-
-    for (const file of files) {
-      if (file.endsWith('.md')) {
-        markdownFiles.push(file);
-      } else {
-        regularFiles.push(file);
+  async getBacklinks(filename: string, folderPath?: string): Promise<Backlink[]> {
+    await this.ensureSearchIndex();
+    const targetPath = buildVaultPath(filename, folderPath);
+    const backlinks: Backlink[] = [];
+
+    this.outgoingLinks.forEach((links, sourcePath) => {
+      if (sourcePath === targetPath) return;
+
+      const sourceFolder = splitVaultPath(sourcePath).folderPath;
+      const matching = links.filter(link => link.target && this.resolveLinkTarget(link.target, sourceFolder) === targetPath);
+      if (matching.length === 0) return;
+
+      const content = this.searchIndex.getContent(sourcePath) || '';
+      const lines = content.split('\n');
+      const seenLines = new Set<number>();
+      for (const link of matching) {
+        const line = content.substring(0, link.start).split('\n').length - 1;
+        if (seenLines.has(line)) continue;
+        seenLines.add(line);
+        backlinks.push({ path: sourcePath, ...splitVaultPath(sourcePath), line, context: lines[line].trim() });
       }
-    }    const folderPromises = regularFiles.map(async (file) => {
-      try {
-        // Skip hidden folders (those starting with a period)
-        if (file.startsWith('.')) {
-          return null;
+    });
+
+    return backlinks.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+  }
+
+  /**
+   * Get lines in other notes that mention the note's title without linking to it
+   */
+  async getUnlinkedMentions(filename: string, folderPath?: string, limit: number = 50): Promise<Backlink[]> {
+    await this.ensureSearchIndex();
+    const targetPath = buildVaultPath(filename, folderPath);
+    const escapedTitle = filename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const mentionRegex = new RegExp(`(^|[^\\w])${escapedTitle}(?![\\w])`, 'gi');
+    const mentions: Backlink[] = [];
+
+    for (const sourcePath of this.searchIndex.getPaths().sort()) {
+      if (sourcePath === targetPath) continue;
+
+      const content = this.searchIndex.getContent(sourcePath) || '';
+      // Skip text that is already part of a link or inside code
+      const excluded = [
+        ...(this.outgoingLinks.get(sourcePath) || []).map(link => ({ start: link.start, end: link.start + link.length })),
+        ...getCodeRanges(content),
+      ];
+      const lines = content.split('\n');
+      const seenLines = new Set<number>();
+      let match;
+
+      mentionRegex.lastIndex = 0;
+      while ((match = mentionRegex.exec(content)) !== null) {
+        const start = match.index + match[1].length;
+        if (excluded.some(range => start >= range.start && start < range.end)) continue;
+
+        const line = content.substring(0, start).split('\n').length - 1;
+        if (seenLines.has(line)) continue;
+        seenLines.add(line);
+        mentions.push({ path: sourcePath, ...splitVaultPath(sourcePath), line, context: lines[line].trim() });
+        if (mentions.length >= limit) {
+          return mentions;
         }
-        
-        const filePath = `${currentDir}${file}`;
-        const stat = await FileSystem.getInfoAsync(filePath);
-        if (stat.exists && stat.isDirectory) {
-          const modTime = 'modificationTime' in stat ? stat.modificationTime : Date.now();
-          return {
-            name: file,
-            type: 'folder' as const,
-            path: filePath + '/',
-            createdAt: new Date(modTime),
-            updatedAt: new Date(modTime),
-          };
+      }
+    }
+
+    return mentions;
+  }
+
+  /**
+   * Number of distinct notes linking to each note, keyed by vault path
+   */
+  async getBacklinkCounts(): Promise<Map<string, number>> {
+    await this.ensureSearchIndex();
+    if (this.backlinkCountCache) {
+      return this.backlinkCountCache;
+    }
+
+    const counts = new Map<string, number>();
+    this.outgoingLinks.forEach((links, sourcePath) => {
+      const sourceFolder = splitVaultPath(sourcePath).folderPath;
+      const targets = new Set<string>();
+      for (const link of links) {
+        const resolved = link.target ? this.resolveLinkTarget(link.target, sourceFolder) : null;
+        if (resolved && resolved !== sourcePath) {
+          targets.add(resolved);
         }
-        return null;
-      } catch (error) {
-        console.error(`Error processing file ${file}:`, error);
-        return null;
       }
+      targets.forEach(target => counts.set(target, (counts.get(target) || 0) + 1));
     });
 
-    const folderResults = await Promise.all(folderPromises);
-    folders.push(...folderResults.filter(folder => folder !== null) as FolderItem[]);
-    return { folders, markdownFiles };
+    this.backlinkCountCache = counts;
+    return counts;
   }
 
   /**
-   * Helper to build directory contents
+   * Attach backlink counts to the notes of a directory listing
    */
-  private buildDirectoryContents(folders: FolderItem[], notes: NoteItem[], currentPath: string, rootPath: string): DirectoryContents {
-    folders.sort((a, b) => a.name.localeCompare(b.name));
-    notes.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
-    return {
-      folders,
-      notes,
-      currentPath,
-      parentPath: this.getParentPath(currentPath, rootPath),
-    };
+  async withBacklinkCounts(notes: NoteItem[], folderPath?: string): Promise<NoteItem[]> {
+    const counts = await this.getBacklinkCounts();
+    return notes.map(note => ({
+      ...note,
+      backlinkCount: counts.get(buildVaultPath(note.filename, folderPath)) || 0,
+    }));
   }
 
   /**
-   * Helper to build empty directory contents
+   * Work out how links across the vault must change when a note is renamed or moved.
+   * Call this before the rename so links still resolve to the old location.
    */
-  private buildEmptyDirectoryContents(currentPath: string, rootPath: string): DirectoryContents {
-    return {
-      folders: [],
-      notes: [],
-      currentPath,
-      parentPath: this.getParentPath(currentPath, rootPath),
+  async planLinkRewrites(
+    from: { filename: string; folderPath?: string },
+    to: { filename: string; folderPath?: string }
+  ): Promise<LinkRewrite[]> {
+    await this.ensureSearchIndex();
+    const fromPath = buildVaultPath(from.filename, from.folderPath);
+    const toPath = buildVaultPath(to.filename, to.folderPath);
+    if (fromPath === toPath) {
+      return [];
+    }
+    return this.planRewritesForMoves(new Map([[fromPath, toPath]]));
+  }
+
+  /**
+   * Work out how links must change when a folder is renamed or moved.
+   * Call this before the move so links still resolve to the old locations.
+   */
+  async planFolderLinkRewrites(fromFolderPath: string, toFolderPath: string): Promise<LinkRewrite[]> {
+    await this.ensureSearchIndex();
+    const fromFolder = normalizeFolderPath(fromFolderPath);
+    const toFolder = normalizeFolderPath(toFolderPath);
+    if (fromFolder === toFolder) {
+      return [];
+    }
+
+    const moves = new Map<string, string>();
+    for (const path of this.searchIndex.getPaths()) {
+      if (path.startsWith(`${fromFolder}/`)) {
+        moves.set(path, `${toFolder}/${path.substring(fromFolder.length + 1)}`);
+      }
+    }
+    return this.planRewritesForMoves(moves);
+  }
+
+  /**
+   * Plan link rewrites for a set of note moves, keyed by old vault path. Moved notes
+   * that change folder are planned at their new path so their relative links are rebased.
+   */
+  private planRewritesForMoves(moves: Map<string, string>): LinkRewrite[] {
+    // Bare [[Name]] links stay bare unless the name changed and another note already has it
+    const getBareTarget = (fromPath: string, toPath: string): string | null => {
+      const fromName = splitVaultPath(fromPath).filename;
+      const toName = splitVaultPath(toPath).filename;
+      if (fromName === toName) {
+        return null;
+      }
+      const sameNamePaths = (this.getFilenameLookup().get(toName.toLowerCase()) || [])
+        .filter(path => path !== fromPath && path !== toPath && !moves.has(path));
+      return sameNamePaths.length > 0 ? toPath.replace(/\.md$/, '') : toName;
     };
+
+    const rewrites: LinkRewrite[] = [];
+    for (const sourcePath of this.searchIndex.getPaths().sort()) {
+      const sourceFolder = splitVaultPath(sourcePath).folderPath;
+      const newSourcePath = moves.get(sourcePath) || sourcePath;
+      const newSourceFolder = splitVaultPath(newSourcePath).folderPath;
+      const sourceFolderChanged = newSourceFolder !== sourceFolder;
+      if (moves.has(sourcePath) && !sourceFolderChanged) continue;
+
+      const content = this.searchIndex.getContent(sourcePath) || '';
+      const replacements: TextReplacement[] = [];
+
+      for (const link of this.outgoingLinks.get(sourcePath) || []) {
+        const resolved = link.target ? this.resolveLinkTarget(link.target, sourceFolder) : null;
+        const newPath = resolved ? moves.get(resolved) : undefined;
+        if (!link.target || !resolved || !newPath) continue;
+
+        const newTarget = link.target.includes('/') ? newPath.replace(/\.md$/, '') : getBareTarget(resolved, newPath);
+        if (!newTarget) continue;
+        const rawLink = content.substring(link.start, link.start + link.length);
+        replacements.push({ start: link.start, length: link.length, text: replaceWikilinkTarget(rawLink, newTarget) });
+      }
+
+      for (const link of extractMarkdownLinks(content)) {
+        const resolved = resolveRelativePath(sourceFolder, link.path);
+        if (resolved === null) continue;
+        const newPath = moves.get(resolved) || resolved;
+        if (newPath === resolved && !sourceFolderChanged) continue;
+        // Notes moved together keep the same relative links
+        const url = formatMarkdownLinkUrl(getRelativePath(newSourceFolder, newPath), link);
+        if (url === link.url) continue;
+        replacements.push({ start: link.urlStart, length: link.url.length, text: url });
+      }
+
+      if (replacements.length === 0) continue;
+
+      const rewritten = applyReplacements(content, replacements);
+      const originalLines = content.split('\n');
+      const rewrittenLines = rewritten.split('\n');
+      const changes: LinkChange[] = [];
+      originalLines.forEach((line, index) => {
+        if (line !== rewrittenLines[index]) {
+          changes.push({ line: index, before: line, after: rewrittenLines[index] });
+        }
+      });
+
+      rewrites.push({
+        path: newSourcePath,
+        ...splitVaultPath(newSourcePath),
+        linkCount: replacements.length,
+        changes,
+        originalContent: content,
+        content: rewritten,
+      });
+    }
+
+    return rewrites;
   }
 
   /**
-   * Navigate to a specific directory
+   * Write planned link rewrites. Notes edited since the plan was made are skipped.
+   * Returns the number of notes updated.
    */
-  async navigateToDirectory(path: string): Promise<DirectoryContents> {
-    this.setCurrentDirectory(path);
-    return await this.getDirectoryContents(path);
+  async applyLinkRewrites(rewrites: LinkRewrite[]): Promise<number> {
+    let updated = 0;
+    for (const rewrite of rewrites) {
+      try {
+        const current = await this.getNote(rewrite.filename, rewrite.folderPath);
+        if (!current || current.content !== rewrite.originalContent) {
+          console.warn(`Skipping link update for ${rewrite.path}: note changed since rename was planned`);
+          continue;
+        }
+        await this.saveNote({ ...current, content: rewrite.content, updatedAt: new Date() }, undefined, rewrite.folderPath);
+        updated++;
+      } catch (error) {
+        console.error(`Error updating links in ${rewrite.path}:`, error);
+      }
+    }
+    return updated;
   }
 
   /**
-   * Navigate to parent directory
+   * Collect the tasks of every note in the vault
    */
-  async navigateToParent(): Promise<DirectoryContents | null> {
-    const currentContents = await this.getDirectoryContents();
-    if (currentContents.parentPath) {
-      this.setCurrentDirectory(currentContents.parentPath);
-      return await this.getDirectoryContents(currentContents.parentPath);
+  async getVaultTasks(): Promise<VaultTask[]> {
+    await this.ensureSearchIndex();
+    const tasks: VaultTask[] = [];
+    for (const path of this.searchIndex.getPaths().sort()) {
+      const location = splitVaultPath(path);
+      for (const task of extractTasks(this.searchIndex.getContent(path) || '')) {
+        tasks.push({ ...task, path, ...location });
+      }
     }
-    return null;
+    return tasks;
   }
 
   /**
-   * Navigate to root directory
+   * Flip a task's checkbox in its source note and return the updated task
    */
-  async navigateToRoot(): Promise<DirectoryContents> {
-    this.resetToRootDirectory();
-    return await this.getDirectoryContents();
+  async toggleVaultTask(task: VaultTask): Promise<VaultTask> {
+    const note = await this.getNote(task.filename, task.folderPath);
+    if (!note) {
+      throw new Error(`Note not found: ${task.path}`);
+    }
+
+    // If the note was edited since the tasks were collected, an identical line elsewhere
+    // may be a different task, so refuse rather than guess and let the list refresh
+    const line = task.line;
+    if (note.content.split('\n')[line] !== task.raw) {
+      throw new Error(`${task.path} changed since the tasks were loaded, refresh and try again`);
+    }
+
+    const content = toggleTaskAtLine(note.content, line);
+    await this.saveNote({ ...note, content, updatedAt: new Date() }, undefined, task.folderPath);
+    return { ...task, raw: content.split('\n')[line], completed: !task.completed };
+  }
+
+  /**
+   * Every tag in the vault with the number of notes using it. Parent tags also
+   * count notes tagged with their nested tags, like Obsidian's tag pane.
+   */
+  async getAllTags(): Promise<TagCount[]> {
+    await this.ensureSearchIndex();
+    const counts = new Map<string, TagCount>();
+
+    this.noteTags.forEach(tags => {
+      const counted = new Set<string>();
+      for (const tag of tags) {
+        const segments = tag.replace(/^#/, '').split('/');
+        segments.forEach((_, index) => {
+          const name = segments.slice(0, index + 1).join('/');
+          const key = normalizeTag(name);
+          if (!key || counted.has(key)) return;
+          counted.add(key);
+          const existing = counts.get(key);
+          counts.set(key, { tag: existing?.tag || name, count: (existing?.count || 0) + 1 });
+        });
+      }
+    });
+
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Notes tagged with a tag or any of its nested tags
+   */
+  async getNotesWithTag(tag: string): Promise<TaggedNote[]> {
+    await this.ensureSearchIndex();
+    const wanted = normalizeTag(tag);
+    const notes: TaggedNote[] = [];
+
+    this.noteTags.forEach((tags, path) => {
+      const matches = tags.some(noteTag => {
+        const key = normalizeTag(noteTag);
+        return key === wanted || key.startsWith(`${wanted}/`);
+      });
+      if (!matches) return;
+
+      const content = this.searchIndex.getContent(path) || '';
+      const line = Math.max(0, findTagLine(content, wanted));
+      notes.push({ path, ...splitVaultPath(path), line, context: (content.split('\n')[line] || '').trim() });
+    });
+
+    return notes.sort((a, b) => a.path.localeCompare(b.path));
   }
 
   /**
@@ -0,0 +1,303 @@
+import { NoteProperties, PropertyType, PropertyValue } from '@/types/Note';
+import { formatDate } from './DailyNotes';
+
+/**
+ * YAML frontmatter helpers for the subset Obsidian writes: scalars, quoted
+ * strings, inline `[a, b]` lists and block `- item` lists. Entries that are not
+ * edited are written back verbatim, so unsupported YAML survives round trips.
+ */
+
+interface FrontmatterEntry {
+  key: string;
+  lines: string[];
+}
+
+interface SplitNote {
+  frontmatter: string | null; // Raw block including both --- delimiters and the trailing newline
+  body: string;
+  bodyOffset: number;
+}
+
+// The closing delimiter has to be on its own line; an empty block (---, then ---) has no content group
+const FRONTMATTER_REGEX = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const ENTRY_REGEX = /^([^\s#][^:]*?)\s*:(?:\s+(.*))?$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const CREATED_FORMAT = 'YYYY-MM-DD HH:mm';
+const LIST_KEYS = ['tags', 'aliases', 'cssclasses'];
+
+/**
+ * Split a note into its raw frontmatter block and body
+ */
+export function splitFrontmatter(content: string): SplitNote {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) {
+    return { frontmatter: null, body: content, bodyOffset: 0 };
+  }
+  return { frontmatter: match[0], body: content.substring(match[0].length), bodyOffset: match[0].length };
+}
+
+/**
+ * Get the note content without its frontmatter
+ */
+export function stripFrontmatter(content: string): string {
+  return splitFrontmatter(content).body;
+}
+
+/**
+ * Replace the body of a note while keeping its frontmatter
+ */
+export function replaceBody(content: string, body: string): string {
+  const { frontmatter } = splitFrontmatter(content);
+  return frontmatter ? `${frontmatter}${body}` : body;
+}
+
+/**
+ * Parse frontmatter into typed properties. Notes without frontmatter have none.
+ */
+export function parseFrontmatter(content: string): NoteProperties {
+  const properties: NoteProperties = {};
+  for (const entry of getEntries(content)) {
+    properties[entry.key] = parseEntryValue(entry);
+  }
+  return properties;
+}
+
+/**
+ * Set one property, rewriting only its own entry. Creates the frontmatter block if needed.
+ */
+export function setProperty(content: string, key: string, value: PropertyValue): string {
+  const { frontmatter, body } = splitFrontmatter(content);
+  const entries = getEntries(content);
+  const serialized = serializeEntry(key, value);
+  const existing = entries.find(entry => entry.key === key);
+
+  if (existing) {
+    existing.lines = serialized;
+  } else {
+    entries.push({ key, lines: serialized });
+  }
+
+  const block = buildBlock(entries, frontmatter);
+  return `${block}${frontmatter ? body : content}`;
+}
+
+/**
+ * Remove one property. The frontmatter block is dropped when it becomes empty.
+ */
+export function removeProperty(content: string, key: string): string {
+  const { frontmatter, body } = splitFrontmatter(content);
+  if (!frontmatter) {
+    return content;
+  }
+
+  const entries = getEntries(content).filter(entry => entry.key !== key);
+  return entries.length > 0 ? `${buildBlock(entries, frontmatter)}${body}` : body.replace(/^\r?\n/, '');
+}
+
+/**
+ * Infer how a property should be edited, following Obsidian's defaults
+ */
+export function getPropertyType(key: string, value: PropertyValue): PropertyType {
+  if (key === 'tags') return 'tags';
+  if (Array.isArray(value) || LIST_KEYS.includes(key)) return 'list';
+  if (typeof value === 'boolean') return 'checkbox';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string' && DATE_REGEX.test(value)) return 'date';
+  return 'text';
+}
+
+/**
+ * Read a property as a list, splitting strings like "a, b" the way Obsidian does for tags
+ */
+export function getPropertyList(value: PropertyValue): string[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined || value === '') return [];
+  return String(value).split(/[,\s]+/).filter(item => item.length > 0);
+}
+
+/**
+ * When a note was created, from its `created` property like Obsidian's "created" templates
+ * write it. Files here only report a modification time, so that is used without one.
+ */
+export function getCreatedDate(properties: NoteProperties, modifiedAt: Date): Date {
+  const value = properties.created;
+  if (typeof value !== 'string' || !value.trim()) {
+    return modifiedAt;
+  }
+
+  const trimmed = value.trim();
+  const created = DATE_REGEX.test(trimmed)
+    ? new Date(Number(trimmed.substring(0, 4)), Number(trimmed.substring(5, 7)) - 1, Number(trimmed.substring(8, 10)))
+    : new Date(trimmed.replace(' ', 'T'));
+  return isNaN(created.getTime()) ? modifiedAt : created;
+}
+
+/**
+ * Record when a new note was created in its `created` property, keeping one its template already set
+ */
+export function setCreatedDate(content: string, date: Date): string {
+  const created = parseFrontmatter(content).created;
+  if (typeof created === 'string' && created.trim()) {
+    return content;
+  }
+  return setProperty(content, 'created', formatDate(date, CREATED_FORMAT));
+}
+
+/**
+ * Default value for a newly added property of the given type
+ */
+export function getDefaultPropertyValue(type: PropertyType): PropertyValue {
+  switch (type) {
+    case 'list':
+    case 'tags':
+      return [];
+    case 'checkbox':
+      return false;
+    case 'number':
+      return 0;
+    case 'date': {
+      const today = new Date();
+      return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function getEntries(content: string): FrontmatterEntry[] {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match || !match[1] || !match[1].trim()) {
+    return [];
+  }
+
+  const entries: FrontmatterEntry[] = [];
+  for (const line of match[1].split(/\r?\n/)) {
+    const entryMatch = line.match(ENTRY_REGEX);
+    if (entryMatch) {
+      entries.push({ key: unquote(entryMatch[1]), lines: [line] });
+    } else if (entries.length > 0) {
+      // Continuation lines (list items, nested maps, comments) belong to the previous key
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+  return entries;
+}
+
+function buildBlock(entries: FrontmatterEntry[], original: string | null): string {
+  const newline = original && original.includes('\r\n') ? '\r\n' : '\n';
+  const lines = entries.flatMap(entry => entry.lines);
+  return `---${newline}${lines.join(newline)}${newline}---${newline}`;
+}
+
+function parseEntryValue(entry: FrontmatterEntry): PropertyValue {
+  const inline = (entry.lines[0].match(ENTRY_REGEX)?.[2] || '').trim();
+  const continuation = entry.lines.slice(1).filter(line => line.trim() && !line.trim().startsWith('#'));
+
+  if (!inline || inline.startsWith('#')) {
+    if (continuation.length === 0) {
+      return LIST_KEYS.includes(entry.key) ? [] : null;
+    }
+    if (continuation.every(line => /^\s*-(\s|$)/.test(line))) {
+      return continuation.map(line => parseScalar(line.replace(/^\s*-\s*/, '')) ?? '').map(String);
+    }
+    return continuation.map(line => line.trim()).join('\n');
+  }
+
+  if (inline === '|' || inline === '>' || /^[|>][+-]?$/.test(inline)) {
+    return continuation.map(line => line.trim()).join(inline.startsWith('|') ? '\n' : ' ');
+  }
+
+  if (inline.startsWith('[') && inline.endsWith(']')) {
+    return splitInlineList(inline.slice(1, -1)).map(item => String(parseScalar(item) ?? ''));
+  }
+
+  return parseScalar(inline);
+}
+
+function parseScalar(raw: string): PropertyValue {
+  const text = stripComment(raw.trim());
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text.startsWith('"') || text.startsWith("'")) return unquote(text);
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+function stripComment(text: string): string {
+  if (text.startsWith('"') || text.startsWith("'")) return text;
+  const commentIndex = text.search(/\s#/);
+  return commentIndex >= 0 ? text.substring(0, commentIndex).trim() : text;
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+function splitInlineList(inner: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    items.push(current.trim());
+  }
+  return items.filter(item => item.length > 0);
+}
+
+function serializeEntry(key: string, value: PropertyValue): string[] {
+  const yamlKey = needsQuotes(key) ? JSON.stringify(key) : key;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return [`${yamlKey}: []`];
+    }
+    return [`${yamlKey}:`, ...value.map(item => `  - ${serializeScalar(item)}`)];
+  }
+  if (value === null || value === undefined) {
+    return [`${yamlKey}:`];
+  }
+  return [`${yamlKey}: ${serializeScalar(value)}`];
+}
+
+function serializeScalar(value: string | number | boolean): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  return needsQuotes(value) ? JSON.stringify(value) : value;
+}
+
+// Quote strings YAML would otherwise read as another type or as syntax
+function needsQuotes(text: string): boolean {
+  return text === ''
+    || text !== text.trim()
+    || /^[-?:,\[\]{}#&*!|>'"%@`]/.test(text)
+    || /:\s|\s#|\n/.test(text)
+    || /:$/.test(text)
+    || /^(true|false|null|~|-?\d+(\.\d+)?)$/i.test(text);
+}
@@ -0,0 +1,121 @@
+/**
+ * Ranking for the wikilink autocomplete shown while typing after [[ in the editor
+ */
+
+import { LinkSuggestion, NoteTitle } from '@/types/Link';
+import { getHeadingLinkText, NoteHeading } from './NoteParser';
+
+const MAX_SUGGESTIONS = 8;
+// Most a recently opened note's score is raised by, less than an exact name match is worth
+const RECENT_BONUS = 4;
+const WORD_BOUNDARY = /[\s/\-_.]/;
+
+/**
+ * Score how well a query matches text when its characters appear in order, not
+ * necessarily next to each other ("mtg" matches "Meeting"). Runs of characters,
+ * word starts and prefixes score higher. Returns null when the text doesn't match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) {
+    return 0;
+  }
+
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) {
+      return null;
+    }
+
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) score += 3;
+    previous = index;
+    position = index + 1;
+  }
+
+  if (haystack === needle) score += 10;
+  else if (haystack.startsWith(needle)) score += 5;
+  else if (haystack.includes(needle)) score += 3;
+
+  // Among equal matches, shorter names are closer to what was typed
+  return score - haystack.length * 0.01;
+}
+
+/**
+ * Notes matching the text typed after [[, with recently opened ones ranked higher. A query
+ * with a slash matches against the note's path, otherwise its name and aliases are matched.
+ */
+export function suggestNotes(
+  titles: NoteTitle[],
+  recentPaths: string[],
+  query: string,
+  limit: number = MAX_SUGGESTIONS
+): LinkSuggestion[] {
+  const trimmed = query.trim();
+  const matchPath = trimmed.includes('/');
+  // The most recent note gets the whole bonus, older ones less, so an empty query lists them in order
+  const recentBonus = new Map(
+    recentPaths.map((path, index) => [path, RECENT_BONUS * (recentPaths.length - index) / recentPaths.length])
+  );
+
+  const matches: { title: NoteTitle; score: number; alias?: string }[] = [];
+  for (const title of titles) {
+    let score = fuzzyScore(trimmed, matchPath ? title.path.replace(/\.md$/, '') : title.filename);
+    let alias: string | undefined;
+
+    if (!matchPath) {
+      for (const candidate of title.aliases) {
+        const aliasScore = fuzzyScore(trimmed, candidate);
+        if (aliasScore !== null && (score === null || aliasScore > score)) {
+          score = aliasScore;
+          alias = candidate;
+        }
+      }
+    }
+
+    if (score !== null) {
+      matches.push({ title, score: score + (recentBonus.get(title.path) ?? 0), alias });
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score || a.title.filename.localeCompare(b.title.filename));
+
+  return matches.slice(0, limit).map(({ title, alias }) => ({
+    key: `${title.path}|${alias || ''}`,
+    label: alias || title.filename,
+    detail: alias ? title.filename : title.folderPath,
+    link: alias ? `${title.linkText}|${alias}` : title.linkText,
+  }));
+}
+
+/**
+ * Headings of the target note matching the text typed after #, in note order until
+ * something is typed
+ */
+export function suggestHeadings(
+  target: string,
+  headings: NoteHeading[],
+  query: string,
+  limit: number = MAX_SUGGESTIONS
+): LinkSuggestion[] {
+  const trimmed = query.trim();
+  const matches = headings
+    .map(heading => ({ heading, score: fuzzyScore(trimmed, heading.text) }))
+    .filter((match): match is { heading: NoteHeading; score: number } => match.score !== null);
+
+  if (trimmed) {
+    matches.sort((a, b) => b.score - a.score || a.heading.line - b.heading.line);
+  }
+
+  return matches.slice(0, limit).map(({ heading }) => ({
+    key: `${heading.line}`,
+    label: heading.text,
+    detail: `H${heading.level}`,
+    link: `${target}#${getHeadingLinkText(heading.text)}`,
+  }));
+}
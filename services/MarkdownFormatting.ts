@@ -0,0 +1,418 @@
+/**
+ * Pure text transforms behind the editor's formatting toolbar. Each takes the note
+ * text and the current selection and returns the new text with the selection to
+ * restore, so the editor can apply it and record it for undo.
+ */
+
+import { FormattingAction, TextSelection } from '@/types/Editor';
+import { getCodeRanges } from './NoteParser';
+
+export interface FormattingResult {
+  text: string;
+  selection: TextSelection;
+}
+
+export type TextFormattingAction = Exclude<FormattingAction, 'undo' | 'redo'>;
+
+// Every toolbar button, in the order they're shown until the user picks their own
+export const TOOLBAR_ACTIONS: FormattingAction[] = [
+  'undo',
+  'redo',
+  'bold',
+  'italic',
+  'heading',
+  'bulletList',
+  'numberedList',
+  'task',
+  'indent',
+  'outdent',
+  'link',
+  'wikilink',
+  'code',
+];
+
+// Nested list items are indented with tabs, like Obsidian's default
+export const INDENT = '\t';
+const INDENT_WIDTH = 4;
+const MAX_HEADING_LEVEL = 6;
+
+const LIST_REGEX = /^([ \t]*)(?:([-*+])|(\d+)([.)]))[ \t]+(\[[ xX]\](?:[ \t]+|$))?/;
+const HEADING_REGEX = /^(#{1,6})[ \t]+/;
+const URL_REGEX = /^[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+
+export interface ListLine {
+  indent: string;
+  marker: string; // "-", "*", "+" or "1." style, '' when the line isn't a list item
+  numbered: boolean;
+  task: boolean;
+  content: string; // Text after the marker and checkbox
+}
+
+/**
+ * Split a line into its indentation, list marker, checkbox and text
+ */
+export function parseListLine(line: string): ListLine {
+  const match = line.match(LIST_REGEX);
+  if (!match) {
+    const indent = line.match(/^[ \t]*/)![0];
+    return { indent, marker: '', numbered: false, task: false, content: line.substring(indent.length) };
+  }
+  return {
+    indent: match[1],
+    marker: match[2] || `${match[3]}${match[4]}`,
+    numbered: !match[2],
+    task: Boolean(match[5]),
+    content: line.substring(match[0].length),
+  };
+}
+
+/**
+ * Apply a toolbar action to the text. Undo and redo are handled by the editor.
+ */
+export function applyFormatting(action: TextFormattingAction, text: string, selection: TextSelection): FormattingResult {
+  switch (action) {
+    case 'bold':
+      return toggleInline(text, selection, '**');
+    case 'italic':
+      return toggleInline(text, selection, '*');
+    case 'code':
+      return text.substring(selection.start, selection.end).includes('\n')
+        ? toggleCodeBlock(text, selection)
+        : toggleInline(text, selection, '`');
+    case 'heading':
+      return cycleHeading(text, selection);
+    case 'bulletList':
+      return toggleList(text, selection, 'bullet');
+    case 'numberedList':
+      return toggleList(text, selection, 'numbered');
+    case 'task':
+      return toggleList(text, selection, 'task');
+    case 'indent':
+      return indentLines(text, selection);
+    case 'outdent':
+      return outdentLines(text, selection);
+    case 'link':
+      return insertLink(text, selection);
+    case 'wikilink':
+      return toggleWikilink(text, selection);
+  }
+}
+
+/**
+ * Indent every line the selection touches by one level
+ */
+export function indentLines(text: string, selection: TextSelection): FormattingResult {
+  return transformLines(text, selection, lines =>
+    lines.map(line => (line.trim() || lines.length === 1 ? INDENT + line : line))
+  );
+}
+
+/**
+ * Remove one level of indentation from every line the selection touches
+ */
+export function outdentLines(text: string, selection: TextSelection): FormattingResult {
+  return transformLines(text, selection, lines =>
+    lines.map(line => {
+      if (line.startsWith('\t')) {
+        return line.substring(1);
+      }
+      const spaces = line.match(/^ */)![0].length;
+      return line.substring(Math.min(spaces, INDENT_WIDTH));
+    })
+  );
+}
+
+/**
+ * React to a single typed character the way list editing in other markdown apps does:
+ * Enter on a list item starts the next item, or ends the list when the item is empty,
+ * and Tab on a list item indents the whole item. `caret` is where the caret was before
+ * typing. Returns null to keep the text as typed.
+ */
+export function applyListEditing(previous: string, text: string, caret: number): FormattingResult | null {
+  if (text.length !== previous.length + 1) {
+    return null;
+  }
+
+  let index = 0;
+  while (index < previous.length && text[index] === previous[index]) index++;
+  if (text.substring(index + 1) !== previous.substring(index)) {
+    return null;
+  }
+
+  // Typing a character next to the same one could have happened at either position, so
+  // trust the caret, e.g. Enter at the end of "1. a" followed by "\n2. b"
+  let earliest = index;
+  while (earliest > 0 && text[earliest - 1] === text[index]) earliest--;
+  if (caret >= earliest && caret < index) {
+    index = caret;
+  }
+
+  // List markers are literal inside code
+  if (getCodeRanges(text).some(range => index > range.start && index < range.end)) {
+    return null;
+  }
+
+  if (text[index] === '\n') {
+    return continueList(text, index);
+  }
+  if (text[index] === '\t') {
+    return indentListItem(text, index);
+  }
+  return null;
+}
+
+/**
+ * Renumber the ordered list items after the line at `offset` so they count up from it.
+ * Nested items are skipped; the list ends at the first line that isn't part of it.
+ */
+export function renumberList(text: string, offset: number): string {
+  const lines = text.split('\n');
+  const lineIndex = text.substring(0, offset).split('\n').length - 1;
+  const first = parseListLine(lines[lineIndex]);
+  if (!first.numbered) {
+    return text;
+  }
+
+  renumberItems(lines, lineIndex + 1, first.indent, parseInt(first.marker, 10) + 1);
+  return lines.join('\n');
+}
+
+// Number the items at `indent` from `fromIndex` on, counting up from `number`
+function renumberItems(lines: string[], fromIndex: number, indent: string, number: number): void {
+  for (let index = fromIndex; index < lines.length; index++) {
+    const item = parseListLine(lines[index]);
+    if (lines[index].trim() && item.indent.length > indent.length) continue;
+    if (!item.numbered || item.indent !== indent) break;
+
+    const digits = item.marker.length - 1;
+    lines[index] = `${item.indent}${number}${lines[index].substring(item.indent.length + digits)}`;
+    number++;
+  }
+}
+
+function continueList(text: string, newlineIndex: number): FormattingResult | null {
+  const lineStart = text.lastIndexOf('\n', newlineIndex - 1) + 1;
+  const line = text.substring(lineStart, newlineIndex);
+  const item = parseListLine(line);
+  if (!item.marker) {
+    return null;
+  }
+
+  // Enter on an empty item leaves the list, or steps out one level when nested
+  if (!item.content.trim()) {
+    const withoutNewline = text.substring(0, newlineIndex) + text.substring(newlineIndex + 1);
+    if (item.indent) {
+      return outdentLines(withoutNewline, { start: newlineIndex, end: newlineIndex });
+    }
+
+    // Items after the emptied one keep counting from where it was, past the blank line it leaves
+    const exited = text.substring(0, lineStart) + text.substring(newlineIndex + 1);
+    if (!item.numbered) {
+      return { text: exited, selection: { start: lineStart, end: lineStart } };
+    }
+    const lines = exited.split('\n');
+    const lineIndex = exited.substring(0, lineStart).split('\n').length - 1;
+    renumberItems(lines, lineIndex + 1, item.indent, parseInt(item.marker, 10));
+    return { text: lines.join('\n'), selection: { start: lineStart, end: lineStart } };
+  }
+
+  const marker = item.numbered ? `${parseInt(item.marker, 10) + 1}${item.marker.slice(-1)}` : item.marker;
+  const prefix = `${item.indent}${marker} ${item.task ? '[ ] ' : ''}`;
+  const caret = newlineIndex + 1 + prefix.length;
+  const continued = text.substring(0, newlineIndex + 1) + prefix + text.substring(newlineIndex + 1);
+
+  return {
+    text: item.numbered ? renumberList(continued, caret) : continued,
+    selection: { start: caret, end: caret },
+  };
+}
+
+function indentListItem(text: string, tabIndex: number): FormattingResult | null {
+  const withoutTab = text.substring(0, tabIndex) + text.substring(tabIndex + 1);
+  const lineStart = withoutTab.lastIndexOf('\n', tabIndex - 1) + 1;
+  const lineEnd = withoutTab.indexOf('\n', tabIndex);
+  const line = withoutTab.substring(lineStart, lineEnd === -1 ? withoutTab.length : lineEnd);
+
+  if (!parseListLine(line).marker) {
+    return null;
+  }
+  return indentLines(withoutTab, { start: tabIndex, end: tabIndex });
+}
+
+/**
+ * Replace the lines the selection touches. A caret keeps its distance from the end
+ * of its line, so it stays on the same text when a prefix is added or removed; a
+ * range ends up selecting all of the changed lines.
+ */
+export function transformLines(
+  text: string,
+  selection: TextSelection,
+  transform: (lines: string[]) => string[]
+): FormattingResult {
+  // A range ending at the start of a line doesn't include that line
+  const lastIndex = selection.end > selection.start && text[selection.end - 1] === '\n'
+    ? selection.end - 1
+    : selection.end;
+  const blockStart = text.lastIndexOf('\n', selection.start - 1) + 1;
+  const nextBreak = text.indexOf('\n', lastIndex);
+  const blockEnd = nextBreak === -1 ? text.length : nextBreak;
+
+  const replacement = transform(text.substring(blockStart, blockEnd).split('\n')).join('\n');
+  const newText = text.substring(0, blockStart) + replacement + text.substring(blockEnd);
+
+  if (selection.start === selection.end) {
+    const caret = Math.max(blockStart, blockStart + replacement.length - (blockEnd - selection.start));
+    return { text: newText, selection: { start: caret, end: caret } };
+  }
+  return { text: newText, selection: { start: blockStart, end: blockStart + replacement.length } };
+}
+
+function toggleInline(text: string, selection: TextSelection, marker: string): FormattingResult {
+  const before = text.substring(0, selection.start);
+  const selected = text.substring(selection.start, selection.end);
+  const after = text.substring(selection.end);
+  const size = marker.length;
+
+  // Markers just outside the selection, e.g. **|text|**
+  if (isMarkerRun(trailingRun(before, marker[0]), marker) && isMarkerRun(leadingRun(after, marker[0]), marker)) {
+    return {
+      text: before.substring(0, before.length - size) + selected + after.substring(size),
+      selection: { start: selection.start - size, end: selection.end - size },
+    };
+  }
+
+  // Markers inside the selection, e.g. |**text**|
+  if (
+    selected.length >= size * 2 &&
+    isMarkerRun(leadingRun(selected, marker[0]), marker) &&
+    isMarkerRun(trailingRun(selected, marker[0]), marker)
+  ) {
+    const inner = selected.substring(size, selected.length - size);
+    return {
+      text: before + inner + after,
+      selection: { start: selection.start, end: selection.start + inner.length },
+    };
+  }
+
+  return {
+    text: before + marker + selected + marker + after,
+    selection: { start: selection.start + size, end: selection.end + size },
+  };
+}
+
+// *** is both bold and italic, so it counts as a marker for either
+function isMarkerRun(run: number, marker: string): boolean {
+  return run === marker.length || (marker[0] === '*' && run === 3);
+}
+
+function leadingRun(text: string, char: string): number {
+  let count = 0;
+  while (count < text.length && text[count] === char) count++;
+  return count;
+}
+
+function trailingRun(text: string, char: string): number {
+  let count = 0;
+  while (count < text.length && text[text.length - 1 - count] === char) count++;
+  return count;
+}
+
+function toggleCodeBlock(text: string, selection: TextSelection): FormattingResult {
+  const before = text.substring(0, selection.start);
+  const selected = text.substring(selection.start, selection.end);
+  const after = text.substring(selection.end);
+
+  const fence = selected.match(/^```[^\n]*\n([\s\S]*)\n```$/);
+  if (fence) {
+    return {
+      text: before + fence[1] + after,
+      selection: { start: selection.start, end: selection.start + fence[1].length },
+    };
+  }
+
+  // Fences have to start and end on their own lines
+  const leading = before === '' || before.endsWith('\n') ? '' : '\n';
+  const trailing = after === '' || after.startsWith('\n') ? '' : '\n';
+  const start = selection.start + leading.length + 4;
+  return {
+    text: `${before}${leading}\`\`\`\n${selected}\n\`\`\`${trailing}${after}`,
+    selection: { start, end: start + selected.length },
+  };
+}
+
+function cycleHeading(text: string, selection: TextSelection): FormattingResult {
+  return transformLines(text, selection, lines => {
+    const current = lines[0].match(HEADING_REGEX);
+    const level = current ? current[1].length : 0;
+    const next = level >= MAX_HEADING_LEVEL ? 0 : level + 1;
+
+    return lines.map(line => {
+      if (!line.trim() && lines.length > 1) return line;
+      const stripped = line.replace(HEADING_REGEX, '');
+      return next > 0 ? `${'#'.repeat(next)} ${stripped}` : stripped;
+    });
+  });
+}
+
+/**
+ * Turn the selected lines into bullets, a numbered list or tasks, or back into
+ * plain text when they already all are
+ */
+function toggleList(text: string, selection: TextSelection, kind: 'bullet' | 'numbered' | 'task'): FormattingResult {
+  return transformLines(text, selection, lines => {
+    const affected = (line: string) => Boolean(line.trim()) || lines.length === 1;
+    const parsed = lines.map(parseListLine);
+    const isKind = (item: ListLine) =>
+      kind === 'task' ? item.task : Boolean(item.marker) && !item.task && item.numbered === (kind === 'numbered');
+
+    const removing = parsed.every((item, index) => !affected(lines[index]) || isKind(item));
+    let number = 0;
+
+    return parsed.map((item, index) => {
+      if (!affected(lines[index])) return lines[index];
+      if (removing) return item.indent + item.content;
+
+      switch (kind) {
+        case 'bullet':
+          return `${item.indent}- ${item.content}`;
+        case 'numbered':
+          number++;
+          return `${item.indent}${number}. ${item.content}`;
+        case 'task':
+          return `${item.indent}${item.marker || '-'} [ ] ${item.content}`;
+      }
+    });
+  });
+}
+
+function insertLink(text: string, selection: TextSelection): FormattingResult {
+  const before = text.substring(0, selection.start);
+  const selected = text.substring(selection.start, selection.end);
+  const after = text.substring(selection.end);
+
+  // A selected URL becomes the target, anything else the label
+  if (URL_REGEX.test(selected)) {
+    const caret = selection.start + 1;
+    return { text: `${before}[](${selected})${after}`, selection: { start: caret, end: caret } };
+  }
+
+  const caret = selected ? selection.start + selected.length + 3 : selection.start + 1;
+  return { text: `${before}[${selected}]()${after}`, selection: { start: caret, end: caret } };
+}
+
+function toggleWikilink(text: string, selection: TextSelection): FormattingResult {
+  const before = text.substring(0, selection.start);
+  const selected = text.substring(selection.start, selection.end);
+  const after = text.substring(selection.end);
+
+  if (before.endsWith('[[') && after.startsWith(']]')) {
+    return {
+      text: before.substring(0, before.length - 2) + selected + after.substring(2),
+      selection: { start: selection.start - 2, end: selection.end - 2 },
+    };
+  }
+
+  // Leave the caret inside an empty link to type the target, or after a wrapped one
+  const caret = selected ? selection.end + 4 : selection.start + 2;
+  return { text: `${before}[[${selected}]]${after}`, selection: { start: caret, end: caret } };
+}
@@ -0,0 +1,118 @@
+import { NoteProperties } from '@/types/Note';
+import { parseFrontmatter, stripFrontmatter } from './Frontmatter';
+import { extractTags, extractWikilinks } from './NoteParser';
+
+export interface CachedNote {
+  filename: string;
+  filePath: string;
+  modifiedAt: number; // Modification time as reported by the directory listing
+  size: number;
+  preview: string;
+  title: string;
+  tags: string[];
+  links: string[]; // Wikilink targets
+  properties: NoteProperties;
+}
+
+export interface CachedFolder {
+  name: string;
+  path: string;
+  modifiedAt: number;
+}
+
+export interface CachedDirectory {
+  folders: CachedFolder[];
+  notes: CachedNote[];
+}
+
+export interface SerializedMetadataCache {
+  version: number;
+  root: string;
+  directories: Record<string, CachedDirectory>;
+}
+
+const CACHE_VERSION = 1;
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Last known listing of each vault directory, so the note grid can be shown before
+ * any file is read. Directories are keyed by the path or SAF URI they were listed from.
+ */
+export class MetadataCache {
+  private directories: Map<string, CachedDirectory> = new Map();
+
+  /**
+   * Build the cached metadata for a note from its content
+   */
+  static describeNote(filename: string, filePath: string, content: string, modifiedAt: number, size: number): CachedNote {
+    const body = stripFrontmatter(content);
+    const properties = parseFrontmatter(content);
+    const heading = body.match(/^#\s+(.+)$/m);
+
+    return {
+      filename,
+      filePath,
+      modifiedAt,
+      size,
+      preview: body.substring(0, PREVIEW_LENGTH),
+      title: typeof properties.title === 'string' && properties.title.trim()
+        ? properties.title.trim()
+        : heading ? heading[1].trim() : filename,
+      tags: extractTags(content),
+      links: Array.from(new Set(extractWikilinks(content).map(link => link.target).filter(target => target))),
+      properties,
+    };
+  }
+
+  getDirectory(path: string): CachedDirectory | undefined {
+    return this.directories.get(path);
+  }
+
+  /**
+   * Find a cached note that is still current, i.e. listed with the same modification time and size
+   */
+  getNote(path: string, filename: string, modifiedAt: number, size: number): CachedNote | undefined {
+    const note = this.directories.get(path)?.notes.find(item => item.filename === filename);
+    return note && note.modifiedAt === modifiedAt && note.size === size ? note : undefined;
+  }
+
+  /**
+   * Replace a directory's listing. Returns false when nothing changed.
+   */
+  setDirectory(path: string, directory: CachedDirectory): boolean {
+    const existing = this.directories.get(path);
+    if (existing && JSON.stringify(existing) === JSON.stringify(directory)) {
+      return false;
+    }
+    this.directories.set(path, directory);
+    return true;
+  }
+
+  clear(): void {
+    this.directories.clear();
+  }
+
+  serialize(root: string): SerializedMetadataCache {
+    return {
+      version: CACHE_VERSION,
+      root,
+      directories: Object.fromEntries(this.directories),
+    };
+  }
+
+  /**
+   * Restore a cache from its serialized form. Returns null if the data
+   * was written by a different cache version or for a different vault root.
+   */
+  static deserialize(data: SerializedMetadataCache, root: string): MetadataCache | null {
+    if (!data || data.version !== CACHE_VERSION || data.root !== root || typeof data.directories !== 'object') {
+      return null;
+    }
+
+    const cache = new MetadataCache();
+    for (const [path, directory] of Object.entries(data.directories)) {
+      cache.directories.set(path, directory);
+    }
+    return cache;
+  }
+}
@@ -0,0 +1,520 @@
+/**
+ * Pure helpers for reading structure out of note markdown.
+ * Nothing here touches the file system; FileSystemService and the screens
+ * use these to index, render and edit note content.
+ */
+
+import { Task, TaskPriority } from '@/types/Task';
+import { getPropertyList, parseFrontmatter, splitFrontmatter } from './Frontmatter';
+
+/**
+ * Get the character offset where a zero-based line starts
+ */
+export function getLineOffset(content: string, line: number): number {
+  let offset = 0;
+  for (let current = 0; current < line; current++) {
+    const nextBreak = content.indexOf('\n', offset);
+    if (nextBreak === -1) {
+      return content.length;
+    }
+    offset = nextBreak + 1;
+  }
+  return offset;
+}
+
+export interface Wikilink {
+  start: number;
+  length: number;
+  target: string;
+  heading?: string;
+  blockId?: string;
+  alias?: string;
+  isEmbed: boolean;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find fenced code blocks and inline code spans, where markdown syntax is literal
+ */
+export function getCodeRanges(content: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  const codeBlockRegex = /```[\s\S]*?(```|$)/g;
+  let match;
+  while ((match = codeBlockRegex.exec(content)) !== null) {
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+    if (match[0].length === 0) break;
+  }
+
+  const inlineCodeRegex = /`[^`\n]+`/g;
+  while ((match = inlineCodeRegex.exec(content)) !== null) {
+    const start = match.index;
+    if (!ranges.some(range => start >= range.start && start < range.end)) {
+      ranges.push({ start, end: start + match[0].length });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Parse the inside of a wikilink: "Note#Heading|alias", "Note#^block", "Note^block"
+ */
+export function parseWikilinkTarget(inner: string): Pick<Wikilink, 'target' | 'heading' | 'blockId' | 'alias'> {
+  const pipeIndex = inner.indexOf('|');
+  const reference = (pipeIndex >= 0 ? inner.substring(0, pipeIndex) : inner).trim();
+  const alias = pipeIndex >= 0 ? inner.substring(pipeIndex + 1).trim() : undefined;
+
+  let target = reference;
+  let heading: string | undefined;
+  let blockId: string | undefined;
+
+  const blockMatch = reference.match(/^(.*?)#?\^([a-zA-Z0-9-_]+)$/);
+  if (blockMatch) {
+    target = blockMatch[1];
+    blockId = blockMatch[2];
+  } else {
+    const hashIndex = reference.indexOf('#');
+    if (hashIndex >= 0) {
+      target = reference.substring(0, hashIndex);
+      heading = reference.substring(hashIndex + 1).trim() || undefined;
+    }
+  }
+
+  return {
+    target: target.trim().replace(/\.md$/, ''),
+    heading,
+    blockId,
+    alias: alias || undefined,
+  };
+}
+
+/**
+ * Extract every [[wikilink]] and ![[embed]] outside of code
+ */
+export function extractWikilinks(content: string): Wikilink[] {
+  const codeRanges = getCodeRanges(content);
+  const links: Wikilink[] = [];
+  const wikilinkRegex = /(!?)\[\[([^\[\]\n]+)\]\]/g;
+  let match;
+
+  while ((match = wikilinkRegex.exec(content)) !== null) {
+    const start = match.index;
+    if (codeRanges.some(range => start >= range.start && start < range.end)) continue;
+
+    links.push({
+      start,
+      length: match[0].length,
+      isEmbed: match[1] === '!',
+      ...parseWikilinkTarget(match[2]),
+    });
+  }
+  return links;
+}
+
+/**
+ * Get the display text Obsidian would show for a wikilink
+ */
+export function getWikilinkLabel(link: Pick<Wikilink, 'target' | 'heading' | 'blockId' | 'alias'>): string {
+  if (link.alias) return link.alias;
+  if (link.heading) return link.target ? `${link.target} > ${link.heading}` : link.heading;
+  if (link.blockId) return link.target ? `${link.target} > ^${link.blockId}` : `^${link.blockId}`;
+  return link.target;
+}
+
+export const WIKILINK_URL_SCHEME = 'wikilink:';
+
+/**
+ * Rewrite wikilinks as regular markdown links with a wikilink: URL so the
+ * preview renderer makes them tappable. Embeds like ![[image.png]] are left as they are.
+ */
+export function linkifyWikilinks(content: string): string {
+  const links = extractWikilinks(content).filter(link => !link.isEmbed);
+  let result = '';
+  let position = 0;
+
+  for (const link of links) {
+    const inner = content.substring(link.start + 2, link.start + link.length - 2);
+    const label = getWikilinkLabel(link).replace(/([\[\]\\])/g, '\\$1');
+    result += content.substring(position, link.start);
+    result += `[${label}](${WIKILINK_URL_SCHEME}${encodeURIComponent(inner)})`;
+    position = link.start + link.length;
+  }
+
+  return result + content.substring(position);
+}
+
+/**
+ * Find the zero-based line of a heading or block reference, or -1 if missing
+ */
+export function findAnchorLine(content: string, anchor: { heading?: string; blockId?: string }): number {
+  const lines = content.split('\n');
+
+  if (anchor.blockId) {
+    // Block ids are limited to [a-zA-Z0-9-_], so they are safe to embed in a pattern
+    const blockRegex = new RegExp(`(^|\\s)\\^${anchor.blockId}\\s*$`);
+    return lines.findIndex(line => blockRegex.test(line));
+  }
+
+  if (anchor.heading) {
+    const wanted = normalizeHeading(anchor.heading);
+    return lines.findIndex(line => {
+      const headingMatch = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+      return headingMatch !== null && normalizeHeading(headingMatch[1]) === wanted;
+    });
+  }
+
+  return -1;
+}
+
+// Links can't contain these, so Obsidian writes them as spaces when linking to a heading
+const HEADING_LINK_UNSAFE = /[#|^:\[\]]|%%/g;
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(HEADING_LINK_UNSAFE, ' ').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Get the text a wikilink uses to point at a heading
+ */
+export function getHeadingLinkText(heading: string): string {
+  return heading.replace(HEADING_LINK_UNSAFE, ' ').trim().replace(/\s+/g, ' ');
+}
+
+export interface NoteHeading {
+  text: string;
+  level: number;
+  line: number;
+}
+
+/**
+ * List a note's headings in order, skipping lines inside code blocks
+ */
+export function extractHeadings(content: string): NoteHeading[] {
+  const codeRanges = getCodeRanges(content);
+  const headings: NoteHeading[] = [];
+  const headingRegex = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/gm;
+  let line = 0;
+  let lineOffset = 0;
+  let match;
+
+  while ((match = headingRegex.exec(content)) !== null) {
+    const start = match.index;
+    if (codeRanges.some(range => start >= range.start && start < range.end)) continue;
+
+    for (let index = content.indexOf('\n', lineOffset); index !== -1 && index < start; index = content.indexOf('\n', index + 1)) {
+      line++;
+      lineOffset = index + 1;
+    }
+    headings.push({ text: match[2], level: match[1].length, line });
+  }
+  return headings;
+}
+
+/**
+ * Find the wikilink being typed at the caret: an opening [[ earlier on the same line that
+ * hasn't been closed yet. Returns where the [[ starts and the text typed after it.
+ */
+export function findOpenWikilink(content: string, caret: number): { start: number; query: string } | null {
+  const lineStart = content.lastIndexOf('\n', caret - 1) + 1;
+  const match = content.substring(lineStart, caret).match(/\[\[([^\[\]|]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const start = lineStart + match.index!;
+  if (getCodeRanges(content).some(range => start >= range.start && start < range.end)) {
+    return null;
+  }
+  return { start, query: match[1] };
+}
+
+export interface MarkdownLink {
+  start: number;
+  length: number;
+  urlStart: number;
+  url: string;
+  path: string;
+  fragment?: string;
+  isEmbed: boolean;
+}
+
+/**
+ * Extract [label](relative/path.md) links to other notes, skipping external URLs and code
+ */
+export function extractMarkdownLinks(content: string): MarkdownLink[] {
+  const codeRanges = getCodeRanges(content);
+  const links: MarkdownLink[] = [];
+  const linkRegex = /(!?)\[[^\]\n]*\]\((<[^>\n]+>|[^)\s]+)(\s+"[^"\n]*")?\)/g;
+  let match;
+
+  while ((match = linkRegex.exec(content)) !== null) {
+    const start = match.index;
+    if (codeRanges.some(range => start >= range.start && start < range.end)) continue;
+
+    const url = match[2];
+    const bareUrl = url.startsWith('<') ? url.slice(1, -1) : url;
+    // Skip absolute URLs (http:, wikilink:, mailto:...), root paths and same-note anchors
+    if (/^[a-z][a-z0-9+.-]*:/i.test(bareUrl) || bareUrl.startsWith('/') || bareUrl.startsWith('#')) continue;
+
+    const hashIndex = bareUrl.indexOf('#');
+    const rawPath = hashIndex >= 0 ? bareUrl.substring(0, hashIndex) : bareUrl;
+    if (!/\.md$/i.test(rawPath)) continue;
+
+    let path = rawPath;
+    try {
+      path = decodeURI(rawPath);
+    } catch {
+      // Keep malformed escapes as written
+    }
+
+    links.push({
+      start,
+      length: match[0].length,
+      urlStart: start + match[0].indexOf('](') + 2,
+      url,
+      path,
+      fragment: hashIndex >= 0 ? bareUrl.substring(hashIndex + 1) : undefined,
+      isEmbed: match[1] === '!',
+    });
+  }
+  return links;
+}
+
+/**
+ * Format a vault path as a markdown link URL, keeping the original link's style
+ */
+export function formatMarkdownLinkUrl(path: string, original: Pick<MarkdownLink, 'url' | 'fragment'>): string {
+  const fragment = original.fragment !== undefined ? `#${original.fragment}` : '';
+  if (original.url.startsWith('<')) {
+    return `<${path}${fragment}>`;
+  }
+  return `${encodeURI(path)}${fragment}`;
+}
+
+/**
+ * Swap the note reference inside a raw [[wikilink]], keeping any heading, block or alias
+ */
+export function replaceWikilinkTarget(rawLink: string, newTarget: string): string {
+  return rawLink.replace(/^(!?\[\[\s*)([^#^|\]]*?)(\s*(?=[#^|\]]))/, (_, prefix: string, __: string, suffix: string) => `${prefix}${newTarget}${suffix}`);
+}
+
+export interface TextReplacement {
+  start: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * Apply non-overlapping replacements to a string
+ */
+export function applyReplacements(content: string, replacements: TextReplacement[]): string {
+  const sorted = [...replacements].sort((a, b) => a.start - b.start);
+  let result = '';
+  let position = 0;
+  for (const replacement of sorted) {
+    if (replacement.start < position) continue;
+    result += content.substring(position, replacement.start) + replacement.text;
+    position = replacement.start + replacement.length;
+  }
+  return result + content.substring(position);
+}
+
+// "- [ ] task", "* [x] task", "1. [ ] task", including indented and quoted list items
+const TASK_LINE_REGEX = /^((?:[ \t]|>)*(?:[-*+]|\d+[.)])[ \t]+)\[([ xX])\]/;
+
+export const TASK_URL_SCHEME = 'task:';
+
+/**
+ * Find the column of a task checkbox's "[" on a line, or -1 if the line isn't a task
+ */
+function getTaskCheckboxColumn(line: string): number {
+  const match = line.match(TASK_LINE_REGEX);
+  return match ? match[1].length : -1;
+}
+
+/**
+ * Get the zero-based lines holding tasks, skipping fenced code
+ */
+export function getTaskLines(content: string): number[] {
+  const codeRanges = getCodeRanges(content);
+  const taskLines: number[] = [];
+  let offset = 0;
+
+  content.split('\n').forEach((line, index) => {
+    const column = getTaskCheckboxColumn(line);
+    const start = offset + column;
+    if (column >= 0 && !codeRanges.some(range => start >= range.start && start < range.end)) {
+      taskLines.push(index);
+    }
+    offset += line.length + 1;
+  });
+  return taskLines;
+}
+
+/**
+ * If the offset touches a task checkbox ("[", the mark, or just before "]"), return its line
+ */
+export function getTaskLineAtOffset(content: string, offset: number): number {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  const lineEnd = content.indexOf('\n', offset);
+  const line = content.substring(lineStart, lineEnd === -1 ? content.length : lineEnd);
+  const column = getTaskCheckboxColumn(line);
+  if (column === -1 || offset < lineStart + column || offset > lineStart + column + 2) {
+    return -1;
+  }
+
+  const lineNumber = content.substring(0, lineStart).split('\n').length - 1;
+  return getTaskLines(content).includes(lineNumber) ? lineNumber : -1;
+}
+
+/**
+ * Get the offset just after a task's "]" on the given line
+ */
+export function getTaskCheckboxEnd(content: string, line: number): number {
+  const lineStart = getLineOffset(content, line);
+  const lineEnd = content.indexOf('\n', lineStart);
+  const column = getTaskCheckboxColumn(content.substring(lineStart, lineEnd === -1 ? content.length : lineEnd));
+  return column === -1 ? lineStart : lineStart + column + 3;
+}
+
+/**
+ * Flip the checkbox of the task on a zero-based line. Other lines are left untouched.
+ */
+export function toggleTaskAtLine(content: string, line: number): string {
+  const lines = content.split('\n');
+  const column = line >= 0 && line < lines.length ? getTaskCheckboxColumn(lines[line]) : -1;
+  if (column === -1) {
+    return content;
+  }
+
+  const mark = lines[line].charAt(column + 1) === ' ' ? 'x' : ' ';
+  lines[line] = `${lines[line].substring(0, column + 1)}${mark}${lines[line].substring(column + 2)}`;
+  return lines.join('\n');
+}
+
+/**
+ * Turn task checkboxes into task: links so the preview renderer makes them tappable.
+ * Line numbers refer to the unmodified content.
+ */
+export function linkifyTasks(content: string): string {
+  const taskLines = new Set(getTaskLines(content));
+  if (taskLines.size === 0) {
+    return content;
+  }
+
+  return content
+    .split('\n')
+    .map((line, index) => {
+      if (!taskLines.has(index)) return line;
+      const column = getTaskCheckboxColumn(line);
+      const checked = line.charAt(column + 1) !== ' ';
+      return `${line.substring(0, column)}[${checked ? '☑' : '☐'}](${TASK_URL_SCHEME}${index})${line.substring(column + 3)}`;
+    })
+    .join('\n');
+}
+
+// Obsidian Tasks signifiers
+const TASK_DUE_DATE_REGEX = /📅\s*(\d{4}-\d{2}-\d{2})/;
+const TASK_PRIORITIES: { marker: string; priority: TaskPriority }[] = [
+  { marker: '🔺', priority: 'highest' },
+  { marker: '⏫', priority: 'high' },
+  { marker: '🔼', priority: 'medium' },
+  { marker: '🔽', priority: 'low' },
+  { marker: '⏬', priority: 'lowest' },
+];
+
+/**
+ * Extract every task with its Obsidian Tasks due date and priority
+ */
+export function extractTasks(content: string): Task[] {
+  const lines = content.split('\n');
+
+  return getTaskLines(content).map(line => {
+    const raw = lines[line];
+    const column = getTaskCheckboxColumn(raw);
+    const indent = (raw.match(/^[ \t]*/)?.[0] || '').replace(/\t/g, '  ').length;
+    let text = raw.substring(column + 3);
+
+    const dueMatch = text.match(TASK_DUE_DATE_REGEX);
+    text = text.replace(TASK_DUE_DATE_REGEX, '');
+
+    const priority = TASK_PRIORITIES.find(({ marker }) => text.includes(marker))?.priority;
+    for (const { marker } of TASK_PRIORITIES) {
+      text = text.split(marker).join('');
+    }
+
+    return {
+      line,
+      raw,
+      text: text.replace(/\s+/g, ' ').trim(),
+      completed: raw.charAt(column + 1) !== ' ',
+      depth: Math.floor(indent / 2),
+      dueDate: dueMatch ? dueMatch[1] : undefined,
+      priority,
+    };
+  });
+}
+
+// Tags may use letters, digits, "_", "-" and "/" for nesting; other ASCII punctuation ends them
+const INLINE_TAG_REGEX = /(^|\s)#([^\s!-,.:-@\[-^`{-~]+)/g;
+
+/**
+ * Normalize a tag for comparison: no leading "#", lowercase, no trailing "/"
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Extract inline #tags (outside code) and frontmatter tags, deduplicated case-insensitively
+ */
+export function extractTags(content: string): string[] {
+  const { body } = splitFrontmatter(content);
+  const frontmatterTags = getPropertyList(parseFrontmatter(content).tags ?? null);
+  const codeRanges = getCodeRanges(body);
+  const tags: string[] = frontmatterTags.map(tag => tag.replace(/^#/, ''));
+  let match;
+
+  INLINE_TAG_REGEX.lastIndex = 0;
+  while ((match = INLINE_TAG_REGEX.exec(body)) !== null) {
+    const start = match.index + match[1].length;
+    if (codeRanges.some(range => start >= range.start && start < range.end)) continue;
+
+    const tag = match[2].replace(/\/+$/, '');
+    // Obsidian requires at least one non-numeric character, so "#123" is not a tag
+    if (/^[0-9/]*$/.test(tag)) continue;
+    tags.push(tag);
+  }
+
+  const seen = new Set<string>();
+  return tags.filter(tag => {
+    const key = normalizeTag(tag);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Find the first line mentioning a tag (or one of its nested tags), or -1
+ */
+export function findTagLine(content: string, tag: string): number {
+  const wanted = normalizeTag(tag);
+  const codeRanges = getCodeRanges(content);
+  let match;
+
+  INLINE_TAG_REGEX.lastIndex = 0;
+  while ((match = INLINE_TAG_REGEX.exec(content)) !== null) {
+    const start = match.index + match[1].length;
+    if (codeRanges.some(range => start >= range.start && start < range.end)) continue;
+
+    const found = normalizeTag(match[2]);
+    if (found === wanted || found.startsWith(`${wanted}/`)) {
+      return content.substring(0, start).split('\n').length - 1;
+    }
+  }
+  return -1;
+}
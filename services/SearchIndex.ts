@@ -0,0 +1,344 @@
+import { SearchMatch, SearchResult } from '@/types/Search';
+import { splitVaultPath } from './VaultPath';
+
+interface IndexedDocument {
+  path: string;
+  modifiedAt: number;
+  content: string;
+  length: number;
+}
+
+export interface SerializedSearchIndex {
+  version: number;
+  root: string;
+  documents: { path: string; modifiedAt: number; content: string }[];
+}
+
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+}
+
+const INDEX_VERSION = 1;
+const TITLE_WEIGHT = 3;
+const PREFIX_MATCH_WEIGHT = 0.7;
+const SNIPPET_LENGTH = 160;
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+
+// Split on whitespace and ASCII punctuation so non-latin words stay intact
+const TOKEN_SEPARATOR = /[\s!-\/:-@\[-`{-~]+/;
+
+/**
+ * In-memory inverted index over note contents with BM25 ranking.
+ * Documents are keyed by their vault-relative path (e.g. "Projects/Plan.md").
+ */
+export class SearchIndex {
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> path -> weighted frequency
+  private totalLength: number = 0;
+
+  /**
+   * Split text into lowercase search tokens
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(TOKEN_SEPARATOR)
+      .filter(token => token.length > 0);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(path: string): boolean {
+    return this.documents.has(path);
+  }
+
+  getPaths(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  getModifiedAt(path: string): number | undefined {
+    return this.documents.get(path)?.modifiedAt;
+  }
+
+  getContent(path: string): string | undefined {
+    return this.documents.get(path)?.content;
+  }
+
+  /**
+   * Add or replace a document in the index
+   */
+  addDocument(path: string, content: string, modifiedAt: number): void {
+    this.removeDocument(path);
+
+    const frequencies = new Map<string, number>();
+    const contentTokens = SearchIndex.tokenize(content);
+    for (const token of contentTokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    for (const token of SearchIndex.tokenize(getTitleFromPath(path))) {
+      frequencies.set(token, (frequencies.get(token) || 0) + TITLE_WEIGHT);
+    }
+
+    frequencies.forEach((frequency, term) => {
+      let termPostings = this.postings.get(term);
+      if (!termPostings) {
+        termPostings = new Map();
+        this.postings.set(term, termPostings);
+      }
+      termPostings.set(path, frequency);
+    });
+
+    this.documents.set(path, { path, modifiedAt, content, length: contentTokens.length });
+    this.totalLength += contentTokens.length;
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  removeDocument(path: string): void {
+    const existing = this.documents.get(path);
+    if (!existing) return;
+
+    const terms = new Set([
+      ...SearchIndex.tokenize(existing.content),
+      ...SearchIndex.tokenize(getTitleFromPath(path)),
+    ]);
+    terms.forEach(term => {
+      const termPostings = this.postings.get(term);
+      if (!termPostings) return;
+      termPostings.delete(path);
+      if (termPostings.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.totalLength -= existing.length;
+    this.documents.delete(path);
+  }
+
+  /**
+   * Remove every document stored under a vault-relative folder path
+   */
+  removeFolder(folderPath: string): void {
+    const prefix = `${folderPath}/`;
+    for (const path of this.getPaths()) {
+      if (path.startsWith(prefix)) {
+        this.removeDocument(path);
+      }
+    }
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Search the index. Bare words match by prefix and must all be present;
+   * "quoted phrases" must appear verbatim (case-insensitive).
+   */
+  search(query: string, limit: number = 50): SearchResult[] {
+    const parsed = parseQuery(query);
+    if (parsed.terms.length === 0 && parsed.phrases.length === 0) {
+      return [];
+    }
+
+    const documentCount = this.documents.size;
+    const averageLength = documentCount > 0 ? this.totalLength / documentCount : 0;
+    let candidates: Map<string, number> | null = null;
+
+    for (const term of parsed.terms) {
+      const termScores = new Map<string, number>();
+
+      this.postings.forEach((termPostings, indexedTerm) => {
+        const weight = indexedTerm === term ? 1 : indexedTerm.startsWith(term) && term.length > 1 ? PREFIX_MATCH_WEIGHT : 0;
+        if (weight === 0) return;
+
+        const idf = Math.log(1 + (documentCount - termPostings.size + 0.5) / (termPostings.size + 0.5));
+        termPostings.forEach((frequency, path) => {
+          const document = this.documents.get(path)!;
+          const normalization = K1 * (1 - B + B * (averageLength > 0 ? document.length / averageLength : 1));
+          const score = weight * idf * (frequency * (K1 + 1)) / (frequency + normalization);
+          termScores.set(path, Math.max(termScores.get(path) || 0, score));
+        });
+      });
+
+      if (candidates === null) {
+        candidates = termScores;
+      } else {
+        const next = new Map<string, number>();
+        candidates.forEach((score, path) => {
+          const termScore = termScores.get(path);
+          if (termScore !== undefined) {
+            next.set(path, score + termScore);
+          }
+        });
+        candidates = next;
+      }
+
+      if (candidates.size === 0) {
+        return [];
+      }
+    }
+
+    // Phrase-only queries start from every document
+    if (candidates === null) {
+      candidates = new Map(this.getPaths().map(path => [path, 1]));
+    }
+
+    const results: SearchResult[] = [];
+    candidates.forEach((score, path) => {
+      const document = this.documents.get(path)!;
+      const haystack = `${getTitleFromPath(path)}\n${document.content}`.toLowerCase();
+      if (!parsed.phrases.every(phrase => haystack.includes(phrase))) {
+        return;
+      }
+      results.push(this.buildResult(document, score, parsed));
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, limit);
+  }
+
+  serialize(root: string): SerializedSearchIndex {
+    return {
+      version: INDEX_VERSION,
+      root,
+      documents: Array.from(this.documents.values()).map(({ path, modifiedAt, content }) => ({ path, modifiedAt, content })),
+    };
+  }
+
+  /**
+   * Restore an index from its serialized form. Returns null if the data
+   * was written by a different index version or for a different vault root.
+   */
+  static deserialize(data: SerializedSearchIndex, root: string): SearchIndex | null {
+    if (!data || data.version !== INDEX_VERSION || data.root !== root || !Array.isArray(data.documents)) {
+      return null;
+    }
+
+    const index = new SearchIndex();
+    for (const document of data.documents) {
+      index.addDocument(document.path, document.content, document.modifiedAt);
+    }
+    return index;
+  }
+
+  /**
+   * Pick the line with the most query hits and build a highlighted snippet
+   */
+  private buildResult(document: IndexedDocument, score: number, query: ParsedQuery): SearchResult {
+    const lines = document.content.split('\n');
+    let bestLine = -1;
+    let bestHits = 0;
+
+    lines.forEach((line, index) => {
+      const hits = findMatches(line, query).length;
+      if (hits > bestHits) {
+        bestHits = hits;
+        bestLine = index;
+      }
+    });
+
+    if (bestLine === -1) {
+      bestLine = Math.max(0, lines.findIndex(line => line.trim().length > 0));
+    }
+
+    const { snippet, offset } = trimSnippet(lines[bestLine] || '', query);
+    const matches = findMatches(snippet, query);
+    const { folderPath, filename } = splitVaultPath(document.path);
+
+    return {
+      path: document.path,
+      filename,
+      folderPath,
+      score: Math.round(score * 1000) / 1000,
+      line: bestLine,
+      snippet: offset > 0 ? `…${snippet}` : snippet,
+      matches: offset > 0 ? matches.map(match => ({ ...match, start: match.start + 1 })) : matches,
+    };
+  }
+}
+
+function getTitleFromPath(path: string): string {
+  return splitVaultPath(path).filename;
+}
+
+function parseQuery(query: string): ParsedQuery {
+  const phrases: string[] = [];
+  const remainder = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const normalized = phrase.trim().toLowerCase();
+    if (normalized.length > 0) {
+      phrases.push(normalized);
+    }
+    return ' ';
+  });
+
+  const phraseTerms = phrases.flatMap(phrase => SearchIndex.tokenize(phrase));
+  return {
+    terms: Array.from(new Set([...SearchIndex.tokenize(remainder), ...phraseTerms])),
+    phrases,
+  };
+}
+
+/**
+ * Find highlight ranges for phrases and for words starting with a query term
+ */
+function findMatches(text: string, query: ParsedQuery): SearchMatch[] {
+  const lowerText = text.toLowerCase();
+  const matches: SearchMatch[] = [];
+
+  for (const phrase of query.phrases) {
+    let index = lowerText.indexOf(phrase);
+    while (index !== -1) {
+      matches.push({ start: index, length: phrase.length });
+      index = lowerText.indexOf(phrase, index + phrase.length);
+    }
+  }
+
+  for (const term of query.terms) {
+    let index = lowerText.indexOf(term);
+    while (index !== -1) {
+      const atWordStart = index === 0 || TOKEN_SEPARATOR.test(lowerText.charAt(index - 1));
+      if (atWordStart) {
+        matches.push({ start: index, length: term.length });
+      }
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  }
+
+  // Sort and drop ranges that overlap an earlier one
+  matches.sort((a, b) => a.start - b.start || b.length - a.length);
+  const merged: SearchMatch[] = [];
+  for (const match of matches) {
+    const previous = merged[merged.length - 1];
+    if (!previous || match.start >= previous.start + previous.length) {
+      merged.push(match);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Shorten a long line to a window around its first match
+ */
+function trimSnippet(line: string, query: ParsedQuery): { snippet: string; offset: number } {
+  const trimmed = line.trim();
+  if (trimmed.length <= SNIPPET_LENGTH) {
+    return { snippet: trimmed, offset: 0 };
+  }
+
+  const firstMatch = findMatches(trimmed, query)[0];
+  const start = firstMatch ? Math.max(0, firstMatch.start - Math.floor(SNIPPET_LENGTH / 3)) : 0;
+  const end = Math.min(trimmed.length, start + SNIPPET_LENGTH);
+  const snippet = trimmed.substring(start, end) + (end < trimmed.length ? '…' : '');
+  return { snippet, offset: start };
+}
@@ -0,0 +1,60 @@
+import { FolderItem, NoteItem, SortField, SortOrder } from '@/types/FileSystemItem';
+
+export interface SortOption {
+  label: string;
+  order: SortOrder;
+}
+
+/**
+ * Every sort order offered in the settings and folder menus
+ */
+export const SORT_OPTIONS: SortOption[] = [
+  { label: 'Name (A to Z)', order: { field: 'name', direction: 'asc' } },
+  { label: 'Name (Z to A)', order: { field: 'name', direction: 'desc' } },
+  { label: 'Modified (newest first)', order: { field: 'modified', direction: 'desc' } },
+  { label: 'Modified (oldest first)', order: { field: 'modified', direction: 'asc' } },
+  { label: 'Created (newest first)', order: { field: 'created', direction: 'desc' } },
+  { label: 'Created (oldest first)', order: { field: 'created', direction: 'asc' } },
+];
+
+/**
+ * Label of a sort order as shown in menus
+ */
+export function describeSortOrder(order: SortOrder): string {
+  const option = SORT_OPTIONS.find(item => isSameSortOrder(item.order, order));
+  return option ? option.label : SORT_OPTIONS[0].label;
+}
+
+export function isSameSortOrder(a: SortOrder, b: SortOrder): boolean {
+  return a.field === b.field && a.direction === b.direction;
+}
+
+// Folders have no creation time to go by, so sorting by creation lists them A to Z
+export function sortFolders(folders: FolderItem[], order: SortOrder): FolderItem[] {
+  const folderOrder: SortOrder = order.field === 'created' ? { field: 'name', direction: 'asc' } : order;
+  return [...folders].sort((a, b) => compareItems(a.name, b.name, a, b, folderOrder));
+}
+
+export function sortNotes<T extends Pick<NoteItem, 'filename' | 'createdAt' | 'updatedAt'>>(notes: T[], order: SortOrder): T[] {
+  return [...notes].sort((a, b) => compareItems(a.filename, b.filename, a, b, order));
+}
+
+// Ties on dates fall back to the name so the order is stable between listings
+function compareItems(
+  nameA: string,
+  nameB: string,
+  a: { createdAt: Date; updatedAt: Date },
+  b: { createdAt: Date; updatedAt: Date },
+  order: SortOrder
+): number {
+  const byName = nameA.localeCompare(nameB, undefined, { numeric: true, sensitivity: 'base' });
+  if (order.field === 'name') {
+    return order.direction === 'asc' ? byName : -byName;
+  }
+  const byTime = getTime(a, order.field) - getTime(b, order.field);
+  return (order.direction === 'asc' ? byTime : -byTime) || byName;
+}
+
+function getTime(item: { createdAt: Date; updatedAt: Date }, field: SortField): number {
+  return field === 'created' ? item.createdAt.getTime() : item.updatedAt.getTime();
+}
@@ -0,0 +1,60 @@
+import { formatDate } from './DailyNotes';
+
+/**
+ * Template variables, following Obsidian's core templates plugin:
+ * {{date}}, {{time}}, {{title}} and {{folder}}, with dates and times taking an
+ * optional moment.js style format like {{date:dddd, MMMM D}}. {{cursor}} marks
+ * where the cursor is placed in a new note.
+ */
+
+export interface TemplateContext {
+  date: Date;
+  title: string;
+  folderPath: string;
+}
+
+export interface RenderedTemplate {
+  content: string;
+  cursor: number | null; // Offset of the {{cursor}} marker, null if the template has none
+}
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+const VARIABLE_REGEX = /\{\{\s*(date|time|title|folder|cursor)(?::([^}]*))?\s*\}\}/g;
+
+/**
+ * Fill in a template's variables. Only the first {{cursor}} marker is used, the rest are dropped.
+ */
+export function renderTemplate(template: string, context: TemplateContext): RenderedTemplate {
+  let content = '';
+  let cursor: number | null = null;
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(VARIABLE_REGEX)) {
+    content += template.substring(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    const [, name, format] = match;
+    switch (name) {
+      case 'date':
+        content += formatDate(context.date, format?.trim() || DEFAULT_DATE_FORMAT);
+        break;
+      case 'time':
+        content += formatDate(context.date, format?.trim() || DEFAULT_TIME_FORMAT);
+        break;
+      case 'title':
+        content += context.title;
+        break;
+      case 'folder':
+        content += context.folderPath;
+        break;
+      case 'cursor':
+        if (cursor === null) {
+          cursor = content.length;
+        }
+        break;
+    }
+  }
+
+  return { content: content + template.substring(lastIndex), cursor };
+}
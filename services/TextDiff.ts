@@ -0,0 +1,246 @@
+/**
+ * Line diff between two versions of a note, using Myers' O(ND) algorithm on the
+ * lines left after trimming the common prefix and suffix, plus a three-way merge
+ * built on top of it.
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export type CollapsedDiffLine = DiffLine | { type: 'skipped'; count: number };
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+// Base lines [start, end) replaced by `lines` on one side of a merge
+interface Hunk {
+  side: 'mine' | 'theirs';
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// Beyond this many edits the diff falls back to replacing the whole changed block
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ type: 'same' as const, text })),
+    ...(myersDiff(oldMiddle, newMiddle) || [
+      ...oldMiddle.map(text => ({ type: 'removed' as const, text })),
+      ...newMiddle.map(text => ({ type: 'added' as const, text })),
+    ]),
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'same' as const, text })),
+  ];
+}
+
+/**
+ * Collapse long runs of unchanged lines, keeping a few lines of context around each change
+ */
+export function collapseDiff(lines: DiffLine[], context: number = 2): CollapsedDiffLine[] {
+  const keep = lines.map(line => line.type !== 'same');
+  lines.forEach((line, index) => {
+    if (line.type === 'same') return;
+    for (let offset = 1; offset <= context; offset++) {
+      if (index - offset >= 0) keep[index - offset] = true;
+      if (index + offset < lines.length) keep[index + offset] = true;
+    }
+  });
+
+  const collapsed: CollapsedDiffLine[] = [];
+  let skipped = 0;
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) {
+        collapsed.push({ type: 'skipped', count: skipped });
+        skipped = 0;
+      }
+      collapsed.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) {
+    collapsed.push({ type: 'skipped', count: skipped });
+  }
+  return collapsed;
+}
+
+/**
+ * Three-way merge of two edited copies of the same base text. Changes to separate parts
+ * are combined; overlapping changes are kept side by side between git-style conflict markers.
+ */
+export function mergeLines(
+  base: string,
+  mine: string,
+  theirs: string,
+  labels: { mine: string; theirs: string } = { mine: 'mine', theirs: 'theirs' }
+): MergeResult {
+  const baseLines = base.split('\n');
+  const hunks = [...getHunks(diffLines(base, mine), 'mine'), ...getHunks(diffLines(base, theirs), 'theirs')]
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Group hunks that overlap or touch, since they can't be applied independently
+    const start = hunks[index].start;
+    let end = hunks[index].end;
+    const group = [hunks[index++]];
+    while (index < hunks.length && hunks[index].start <= end) {
+      end = Math.max(end, hunks[index].end);
+      group.push(hunks[index++]);
+    }
+
+    output.push(...baseLines.slice(position, start));
+    const mineHunks = group.filter(hunk => hunk.side === 'mine');
+    const theirHunks = group.filter(hunk => hunk.side === 'theirs');
+    const mineLines = applyHunks(baseLines, start, end, mineHunks);
+    const theirLines = applyHunks(baseLines, start, end, theirHunks);
+
+    if (theirHunks.length === 0) {
+      output.push(...mineLines);
+    } else if (mineHunks.length === 0 || mineLines.join('\n') === theirLines.join('\n')) {
+      output.push(...theirLines);
+    } else {
+      conflicts++;
+      output.push(`<<<<<<< ${labels.mine}`, ...mineLines, '=======', ...theirLines, `>>>>>>> ${labels.theirs}`);
+    }
+    position = end;
+  }
+  output.push(...baseLines.slice(position));
+
+  return { content: output.join('\n'), conflicts };
+}
+
+function getHunks(diff: DiffLine[], side: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | null = null;
+
+  for (const line of diff) {
+    if (line.type === 'same') {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      position++;
+      continue;
+    }
+    if (!current) {
+      current = { side, start: position, end: position, lines: [] };
+    }
+    if (line.type === 'removed') {
+      current.end++;
+      position++;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
+
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...baseLines.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...baseLines.slice(position, end));
+  return lines;
+}
+
+function myersDiff(oldLines: string[], newLines: string[]): DiffLine[] | null {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // Step d only reads diagonals -d-1 to d+1, so that's all each step keeps for backtracking
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, oldLines, newLines);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], oldLines: string[], newLines: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = oldLines.length;
+  let y = newLines.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const base = d + 1; // Index of diagonal 0 in this step's slice
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[base + k - 1] < v[base + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[base + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'same', text: oldLines[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        lines.push({ type: 'added', text: newLines[y - 1] });
+      } else {
+        lines.push({ type: 'removed', text: oldLines[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return lines.reverse();
+}
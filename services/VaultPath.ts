@@ -0,0 +1,70 @@
+/**
+ * Helpers for vault-relative note paths such as "Projects/Plan.md".
+ * Folder paths are vault-relative too ("Projects/Archive", or '' for the root),
+ * matching the `folderPath` route parameter used by the editor.
+ */
+
+/**
+ * Build a vault-relative path from a filename (without extension) and folder path
+ */
+export function buildVaultPath(filename: string, folderPath?: string): string {
+  const normalizedFolder = normalizeFolderPath(folderPath);
+  return normalizedFolder ? `${normalizedFolder}/${filename}.md` : `${filename}.md`;
+}
+
+/**
+ * Split a vault-relative path into its folder path and filename (without extension)
+ */
+export function splitVaultPath(path: string): { folderPath: string; filename: string } {
+  const separatorIndex = path.lastIndexOf('/');
+  const name = separatorIndex >= 0 ? path.substring(separatorIndex + 1) : path;
+  return {
+    folderPath: separatorIndex >= 0 ? path.substring(0, separatorIndex) : '',
+    filename: name.replace(/\.md$/, ''),
+  };
+}
+
+/**
+ * Strip leading/trailing slashes so folder paths compare consistently
+ */
+export function normalizeFolderPath(folderPath?: string | null): string {
+  return (folderPath || '').replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Join a folder path and a child name
+ */
+export function joinFolderPath(folderPath: string, name: string): string {
+  const normalizedFolder = normalizeFolderPath(folderPath);
+  return normalizedFolder ? `${normalizedFolder}/${name}` : name;
+}
+
+/**
+ * Resolve a relative path ("../Notes/Plan.md") against a folder path, or null if it escapes the vault
+ */
+export function resolveRelativePath(folderPath: string, relativePath: string): string | null {
+  const segments = normalizeFolderPath(folderPath).split('/').filter(segment => segment.length > 0);
+  for (const segment of relativePath.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Build the relative path from a folder to a vault path
+ */
+export function getRelativePath(fromFolderPath: string, toPath: string): string {
+  const fromSegments = normalizeFolderPath(fromFolderPath).split('/').filter(segment => segment.length > 0);
+  const toSegments = toPath.split('/');
+  let common = 0;
+  while (common < fromSegments.length && common < toSegments.length - 1 && fromSegments[common] === toSegments[common]) {
+    common++;
+  }
+  return [...fromSegments.slice(common).map(() => '..'), ...toSegments.slice(common)].join('/');
+}
@@ -0,0 +1,38 @@
+import { formatDate, parseDate, startOfDay } from '../DailyNotes';
+
+const date = new Date(2024, 0, 5, 14, 7);
+
+describe('formatDate', () => {
+  it('formats numeric and named tokens', () => {
+    expect(formatDate(date, 'YYYY-MM-DD')).toBe('2024-01-05');
+    expect(formatDate(date, 'dddd, MMMM D YY')).toBe('Friday, January 5 24');
+    expect(formatDate(date, 'ddd MMM M/D HH:mm H:m')).toBe('Fri Jan 1/5 14:07 14:7');
+  });
+
+  it('keeps bracketed text and slashes as they are', () => {
+    expect(formatDate(date, 'YYYY/MM/[Day] DD')).toBe('2024/01/Day 05');
+  });
+});
+
+describe('parseDate', () => {
+  it('reads back what formatDate wrote', () => {
+    for (const format of ['YYYY-MM-DD', 'YYYY/MM/YYYY-MM-DD', 'dddd, MMMM D, YYYY', 'DD.MM.YY', '[Journal] MMM YYYY']) {
+      const parsed = parseDate(formatDate(date, format), format);
+      const expected = format.includes('D') ? startOfDay(date) : new Date(2024, 0, 1);
+      expect(parsed).toEqual(expected);
+    }
+  });
+
+  it('rejects text that does not match or names an impossible day', () => {
+    expect(parseDate('2024-1-05', 'YYYY-MM-DD')).toBeNull();
+    expect(parseDate('2024-02-30', 'YYYY-MM-DD')).toBeNull();
+    expect(parseDate('Notes', 'YYYY-MM-DD')).toBeNull();
+    expect(parseDate('05', 'DD')).toBeNull();
+  });
+});
+
+describe('startOfDay', () => {
+  it('drops the time of day', () => {
+    expect(startOfDay(date)).toEqual(new Date(2024, 0, 5));
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  getCreatedDate,
+  getPropertyType,
+  parseFrontmatter,
+  removeProperty,
+  replaceBody,
+  setCreatedDate,
+  setProperty,
+  splitFrontmatter,
+} from '../Frontmatter';
+
+describe('splitFrontmatter', () => {
+  it('splits the block from the body', () => {
+    const { frontmatter, body, bodyOffset } = splitFrontmatter('---\ntitle: Hello\n---\nBody');
+    expect(frontmatter).toBe('---\ntitle: Hello\n---\n');
+    expect(body).toBe('Body');
+    expect(bodyOffset).toBe(frontmatter!.length);
+  });
+
+  it('only closes the block on a delimiter line of its own', () => {
+    const content = '---\nHello...\nworld';
+    expect(splitFrontmatter(content)).toEqual({ frontmatter: null, body: content, bodyOffset: 0 });
+    expect(splitFrontmatter('---\nnote: a---b\n---\nBody').body).toBe('Body');
+  });
+
+  it('accepts ... as the closing delimiter and CRLF line endings', () => {
+    expect(splitFrontmatter('---\na: 1\n...\nBody').body).toBe('Body');
+    expect(splitFrontmatter('---\r\na: 1\r\n---\r\nBody').body).toBe('Body');
+  });
+
+  it('handles an empty block', () => {
+    expect(splitFrontmatter('---\n---\nBody')).toEqual({ frontmatter: '---\n---\n', body: 'Body', bodyOffset: 8 });
+    expect(parseFrontmatter('---\n---\nBody')).toEqual({});
+  });
+
+  it('leaves notes without frontmatter alone', () => {
+    expect(splitFrontmatter('Body\n---\n').frontmatter).toBeNull();
+    expect(replaceBody('Old', 'New')).toBe('New');
+  });
+});
+
+describe('parseFrontmatter', () => {
+  it('parses scalars, quoted strings and lists', () => {
+    const content = [
+      '---',
+      'title: "Quoted: value"',
+      "single: 'it''s'",
+      'count: 3',
+      'done: true',
+      'empty:',
+      'tags: [one, "two, three"]',
+      'aliases:',
+      '  - First',
+      '  - Second',
+      'note: text # comment',
+      '---',
+      'Body',
+    ].join('\n');
+
+    expect(parseFrontmatter(content)).toEqual({
+      title: 'Quoted: value',
+      single: "it's",
+      count: 3,
+      done: true,
+      empty: null,
+      tags: ['one', 'two, three'],
+      aliases: ['First', 'Second'],
+      note: 'text',
+    });
+  });
+
+  it('gives list keys an empty list when they have no value', () => {
+    expect(parseFrontmatter('---\ntags:\n---\n')).toEqual({ tags: [] });
+  });
+});
+
+describe('setProperty and removeProperty', () => {
+  it('rewrites only the changed entry', () => {
+    const content = '---\ntitle: Old # keep\nother:  spaced\n---\nBody';
+    expect(setProperty(content, 'title', 'New')).toBe('---\ntitle: New\nother:  spaced\n---\nBody');
+  });
+
+  it('creates the block when the note has none', () => {
+    expect(setProperty('Body', 'tags', ['a', 'b'])).toBe('---\ntags:\n  - a\n  - b\n---\nBody');
+  });
+
+  it('drops the block once the last property is removed', () => {
+    expect(removeProperty('---\ntitle: Hello\n---\n\nBody', 'title')).toBe('Body');
+    expect(removeProperty('---\na: 1\nb: 2\n---\nBody', 'a')).toBe('---\nb: 2\n---\nBody');
+  });
+});
+
+describe('getPropertyType', () => {
+  it('follows the value and the well-known keys', () => {
+    expect(getPropertyType('tags', null)).toBe('tags');
+    expect(getPropertyType('aliases', null)).toBe('list');
+    expect(getPropertyType('done', false)).toBe('checkbox');
+    expect(getPropertyType('count', 2)).toBe('number');
+    expect(getPropertyType('due', '2024-05-01')).toBe('date');
+    expect(getPropertyType('title', 'Hello')).toBe('text');
+  });
+});
+
+describe('getCreatedDate', () => {
+  const modifiedAt = new Date(2024, 5, 1);
+
+  it('reads dates and date times from the created property', () => {
+    expect(getCreatedDate({ created: '2024-05-01' }, modifiedAt)).toEqual(new Date(2024, 4, 1));
+    expect(getCreatedDate({ created: '2024-05-01 09:30' }, modifiedAt)).toEqual(new Date(2024, 4, 1, 9, 30));
+  });
+
+  it('falls back to the modification time', () => {
+    expect(getCreatedDate({}, modifiedAt)).toBe(modifiedAt);
+    expect(getCreatedDate({ created: 'yesterday' }, modifiedAt)).toBe(modifiedAt);
+  });
+});
+
+describe('setCreatedDate', () => {
+  it('stamps a new note with when it was created', () => {
+    expect(setCreatedDate('Body', new Date(2024, 4, 1, 9, 5))).toBe('---\ncreated: 2024-05-01 09:05\n---\nBody');
+  });
+
+  it('keeps a created property the template set', () => {
+    const content = '---\ncreated: 2023-01-01\n---\nBody';
+    expect(setCreatedDate(content, new Date(2024, 4, 1))).toBe(content);
+  });
+});
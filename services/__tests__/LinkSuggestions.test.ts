@@ -0,0 +1,75 @@
+import { NoteTitle } from '@/types/Link';
+import { fuzzyScore, suggestHeadings, suggestNotes } from '../LinkSuggestions';
+
+function title(path: string, aliases: string[] = []): NoteTitle {
+  const parts = path.replace(/\.md$/, '').split('/');
+  const filename = parts.pop()!;
+  return { path, filename, folderPath: parts.join('/'), linkText: filename, aliases };
+}
+
+const titles = [
+  title('Meeting.md'),
+  title('Work/Meeting notes.md'),
+  title('Projects/Roadmap.md', ['Plan']),
+  title('Timeline.md'),
+];
+
+describe('fuzzyScore', () => {
+  it('matches characters in order', () => {
+    expect(fuzzyScore('mtg', 'Meeting')).not.toBeNull();
+    expect(fuzzyScore('gtm', 'Meeting')).toBeNull();
+  });
+
+  it('ranks exact names, then prefixes, then scattered matches', () => {
+    const exact = fuzzyScore('meeting', 'Meeting')!;
+    const prefix = fuzzyScore('meeting', 'Meeting notes')!;
+    const scattered = fuzzyScore('meeting', 'My event listing')!;
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(scattered);
+  });
+});
+
+describe('suggestNotes', () => {
+  it('lists recently opened notes first while nothing is typed', () => {
+    const labels = suggestNotes(titles, ['Timeline.md', 'Projects/Roadmap.md'], '').map(item => item.label);
+    expect(labels.slice(0, 2)).toEqual(['Timeline', 'Roadmap']);
+  });
+
+  it('lets a better match outrank a recently opened note', () => {
+    const suggestions = suggestNotes(titles, ['Timeline.md'], 'me');
+    expect(suggestions.map(item => item.label)).toEqual(['Meeting', 'Meeting notes', 'Timeline']);
+  });
+
+  it('breaks ties between similar matches by recency', () => {
+    const suggestions = suggestNotes([title('A/Note.md'), title('B/Note.md')], ['B/Note.md'], 'note');
+    expect(suggestions.map(item => item.key)).toEqual(['B/Note.md|', 'A/Note.md|']);
+  });
+
+  it('matches aliases and links them with the alias shown', () => {
+    expect(suggestNotes(titles, [], 'plan')[0]).toEqual({
+      key: 'Projects/Roadmap.md|Plan',
+      label: 'Plan',
+      detail: 'Roadmap',
+      link: 'Roadmap|Plan',
+    });
+  });
+
+  it('matches the path when the query has a slash', () => {
+    expect(suggestNotes(titles, [], 'work/mee').map(item => item.label)).toEqual(['Meeting notes']);
+  });
+});
+
+describe('suggestHeadings', () => {
+  const headings = [
+    { text: 'Overview', level: 1, line: 0 },
+    { text: 'Open questions', level: 2, line: 4 },
+  ];
+
+  it('keeps note order until something is typed', () => {
+    expect(suggestHeadings('Roadmap', headings, '').map(item => item.link)).toEqual(['Roadmap#Overview', 'Roadmap#Open questions']);
+  });
+
+  it('ranks headings by how well they match', () => {
+    expect(suggestHeadings('Roadmap', headings, 'que').map(item => item.label)).toEqual(['Open questions']);
+  });
+});
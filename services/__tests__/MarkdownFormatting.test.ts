@@ -0,0 +1,71 @@
+import { applyListEditing, indentLines, outdentLines, parseListLine, renumberList } from '../MarkdownFormatting';
+
+// Type one character at the caret and let list editing react to it
+function type(previous: string, char: string, caret: number) {
+  return applyListEditing(previous, previous.substring(0, caret) + char + previous.substring(caret), caret);
+}
+
+describe('parseListLine', () => {
+  it('splits a line into indent, marker, checkbox and text', () => {
+    expect(parseListLine('\t- [x] Done')).toEqual({ indent: '\t', marker: '-', numbered: false, task: true, content: 'Done' });
+    expect(parseListLine('12) Item')).toMatchObject({ marker: '12)', numbered: true, content: 'Item' });
+    expect(parseListLine('Plain text')).toMatchObject({ marker: '', content: 'Plain text' });
+  });
+});
+
+describe('applyListEditing', () => {
+  it('continues a list on Enter', () => {
+    expect(type('- a', '\n', 3)).toEqual({ text: '- a\n- ', selection: { start: 6, end: 6 } });
+    expect(type('- [x] done', '\n', 10)).toEqual({ text: '- [x] done\n- [ ] ', selection: { start: 17, end: 17 } });
+  });
+
+  it('numbers the next item and renumbers the ones after it', () => {
+    expect(type('1. a\n2. b', '\n', 4)).toEqual({ text: '1. a\n2. \n3. b', selection: { start: 8, end: 8 } });
+  });
+
+  it('ends the list on Enter in an empty item and keeps counting after the gap', () => {
+    expect(type('1. a\n2. \n3. b', '\n', 8)).toEqual({ text: '1. a\n\n2. b', selection: { start: 5, end: 5 } });
+    expect(type('- a\n- ', '\n', 6)).toEqual({ text: '- a\n', selection: { start: 4, end: 4 } });
+  });
+
+  it('steps out of a nested empty item instead of ending the list', () => {
+    expect(type('- a\n\t- ', '\n', 7)?.text).toBe('- a\n- ');
+  });
+
+  it('indents the whole item on Tab', () => {
+    expect(type('- a', '\t', 3)?.text).toBe('\t- a');
+    expect(type('Plain', '\t', 5)).toBeNull();
+  });
+
+  it('leaves lists in code alone', () => {
+    expect(type('```\n- a\n```', '\n', 7)).toBeNull();
+    expect(type('`- a`', '\n', 4)).toBeNull();
+  });
+
+  it('ignores anything but a single typed character', () => {
+    expect(applyListEditing('- a', '- a\n\n', 3)).toBeNull();
+    expect(applyListEditing('- ab', '- a', 4)).toBeNull();
+  });
+});
+
+describe('renumberList', () => {
+  it('counts up from the item at the offset, skipping nested items', () => {
+    expect(renumberList('1. a\n\t1. x\n1. b\n2. c\nEnd', 0)).toBe('1. a\n\t1. x\n2. b\n3. c\nEnd');
+  });
+
+  it('leaves the text alone after an unordered item', () => {
+    expect(renumberList('- a\n1. b', 0)).toBe('- a\n1. b');
+  });
+});
+
+describe('indentLines and outdentLines', () => {
+  it('indent and outdent every selected line', () => {
+    const indented = indentLines('- a\n- b', { start: 0, end: 7 });
+    expect(indented.text).toBe('\t- a\n\t- b');
+    expect(outdentLines(indented.text, indented.selection).text).toBe('- a\n- b');
+  });
+
+  it('removes up to four spaces of indentation', () => {
+    expect(outdentLines('      - a', { start: 0, end: 0 }).text).toBe('  - a');
+  });
+});
@@ -0,0 +1,24 @@
+import { extractTags, findTagLine } from '../NoteParser';
+
+describe('extractTags', () => {
+  it('collects frontmatter and inline tags once each', () => {
+    const content = '---\ntags: [project, "#Work"]\n---\nNotes for #work and #project/alpha.\n#todo';
+    expect(extractTags(content)).toEqual(['project', 'Work', 'project/alpha', 'todo']);
+  });
+
+  it('skips code, numbers and headings', () => {
+    const content = '# Heading\nIssue #123 with `#inline` code\n```\n#fenced\n```\n#real';
+    expect(extractTags(content)).toEqual(['real']);
+  });
+});
+
+describe('findTagLine', () => {
+  it('finds the first line using the tag or one nested under it', () => {
+    expect(findTagLine('Intro\nSee #Project/alpha\n#project', 'project')).toBe(1);
+    expect(findTagLine('#projects', 'project')).toBe(-1);
+  });
+
+  it('ignores tags inside code', () => {
+    expect(findTagLine('```\n#todo\n```\n`#todo`\nThen #todo', 'todo')).toBe(4);
+  });
+});
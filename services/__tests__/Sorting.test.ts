@@ -0,0 +1,55 @@
+import { FolderItem } from '@/types/FileSystemItem';
+import { describeSortOrder, sortFolders, sortNotes } from '../Sorting';
+
+function note(filename: string, created: string, updated: string) {
+  return { filename, createdAt: new Date(created), updatedAt: new Date(updated) };
+}
+
+function folder(name: string): FolderItem {
+  const date = new Date('2024-01-01');
+  return { name, type: 'folder', path: `/${name}`, createdAt: date, updatedAt: date };
+}
+
+const notes = [
+  note('Note 10', '2024-01-02', '2024-03-01'),
+  note('note 2', '2024-01-03', '2024-02-01'),
+  note('Alpha', '2024-01-01', '2024-02-01'),
+];
+
+describe('sortNotes', () => {
+  it('compares names numerically and without case', () => {
+    const order = { field: 'name', direction: 'asc' } as const;
+    expect(sortNotes(notes, order).map(item => item.filename)).toEqual(['Alpha', 'note 2', 'Note 10']);
+  });
+
+  it('sorts by date and breaks ties by name', () => {
+    const order = { field: 'modified', direction: 'desc' } as const;
+    expect(sortNotes(notes, order).map(item => item.filename)).toEqual(['Note 10', 'Alpha', 'note 2']);
+  });
+
+  it('sorts by creation date in either direction', () => {
+    expect(sortNotes(notes, { field: 'created', direction: 'asc' }).map(item => item.filename))
+      .toEqual(['Alpha', 'Note 10', 'note 2']);
+    expect(sortNotes(notes, { field: 'created', direction: 'desc' }).map(item => item.filename))
+      .toEqual(['note 2', 'Note 10', 'Alpha']);
+  });
+});
+
+describe('sortFolders', () => {
+  const folders = [folder('b'), folder('c'), folder('a')];
+
+  it('lists folders A to Z for either creation order', () => {
+    expect(sortFolders(folders, { field: 'created', direction: 'desc' }).map(item => item.name)).toEqual(['a', 'b', 'c']);
+    expect(sortFolders(folders, { field: 'created', direction: 'asc' }).map(item => item.name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('follows the direction of a name order', () => {
+    expect(sortFolders(folders, { field: 'name', direction: 'desc' }).map(item => item.name)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('describeSortOrder', () => {
+  it('labels known orders', () => {
+    expect(describeSortOrder({ field: 'created', direction: 'desc' })).toBe('Created (newest first)');
+  });
+});
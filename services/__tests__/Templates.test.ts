@@ -0,0 +1,24 @@
+import { renderTemplate } from '../Templates';
+
+const context = { date: new Date(2024, 4, 1, 9, 5), title: 'Meeting', folderPath: 'Work/Notes' };
+
+describe('renderTemplate', () => {
+  it('fills in the date, time, title and folder', () => {
+    expect(renderTemplate('# {{title}}\n{{date}} {{time}} in {{folder}}', context)).toEqual({
+      content: '# Meeting\n2024-05-01 09:05 in Work/Notes',
+      cursor: null,
+    });
+  });
+
+  it('formats dates and times with a custom format', () => {
+    expect(renderTemplate('{{date:dddd, MMMM D}} at {{ time:H[h]mm }}', context).content).toBe('Wednesday, May 1 at 9h05');
+  });
+
+  it('places the cursor at the first marker and drops the rest', () => {
+    expect(renderTemplate('Hello {{cursor}}world{{cursor}}!', context)).toEqual({ content: 'Hello world!', cursor: 6 });
+  });
+
+  it('leaves unknown variables alone', () => {
+    expect(renderTemplate('{{unknown}} {{title}}', context).content).toBe('{{unknown}} Meeting');
+  });
+});
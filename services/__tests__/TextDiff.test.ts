@@ -0,0 +1,83 @@
+import { collapseDiff, diffLines, DiffLine, mergeLines } from '../TextDiff';
+
+// Rebuild both sides of a diff, which any correct diff has to reproduce
+function sides(diff: DiffLine[]): { before: string; after: string } {
+  return {
+    before: diff.filter(line => line.type !== 'added').map(line => line.text).join('\n'),
+    after: diff.filter(line => line.type !== 'removed').map(line => line.text).join('\n'),
+  };
+}
+
+describe('diffLines', () => {
+  it('marks identical texts as unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  it('finds a minimal set of added and removed lines', () => {
+    const diff = diffLines('a\nb\nc\nd', 'a\nc\nd\ne');
+    expect(diff).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'same', text: 'd' },
+      { type: 'added', text: 'e' },
+    ]);
+  });
+
+  it('reproduces both texts for scattered edits', () => {
+    const before = 'one\ntwo\nthree\nfour\nfive\nsix\nseven';
+    const after = 'zero\none\n2\nthree\nfive\nsix\nsix and a half\nseven';
+    const diff = diffLines(before, after);
+    expect(sides(diff)).toEqual({ before, after });
+    expect(diff.filter(line => line.type !== 'same')).toHaveLength(5);
+  });
+
+  it('replaces the changed block when the edit distance is too large to search', () => {
+    const before = Array.from({ length: 1200 }, (_, index) => `old ${index}`).join('\n');
+    const after = Array.from({ length: 1200 }, (_, index) => `new ${index}`).join('\n');
+    const diff = diffLines(`top\n${before}\nbottom`, `top\n${after}\nbottom`);
+
+    expect(diff[0]).toEqual({ type: 'same', text: 'top' });
+    expect(diff[diff.length - 1]).toEqual({ type: 'same', text: 'bottom' });
+    expect(diff.filter(line => line.type === 'removed')).toHaveLength(1200);
+    expect(diff.filter(line => line.type === 'added')).toHaveLength(1200);
+    expect(sides(diff)).toEqual({ before: `top\n${before}\nbottom`, after: `top\n${after}\nbottom` });
+  });
+});
+
+describe('collapseDiff', () => {
+  it('keeps context around changes and counts the skipped lines', () => {
+    const before = 'a\nb\nc\nd\ne\nf\ng\nh';
+    const after = 'a\nb\nc\nd\ne\nf\ng\nH';
+    expect(collapseDiff(diffLines(before, after), 1)).toEqual([
+      { type: 'skipped', count: 6 },
+      { type: 'same', text: 'g' },
+      { type: 'removed', text: 'h' },
+      { type: 'added', text: 'H' },
+    ]);
+  });
+});
+
+describe('mergeLines', () => {
+  const base = 'a\nb\nc\nd\ne';
+
+  it('applies edits to separate lines from both sides', () => {
+    expect(mergeLines(base, 'A\nb\nc\nd\ne', 'a\nb\nc\nd\nE\nf')).toEqual({
+      content: 'A\nb\nc\nd\nE\nf',
+      conflicts: 0,
+    });
+  });
+
+  it('takes an edit once when both sides made it', () => {
+    expect(mergeLines(base, 'a\nB\nc\nd\ne', 'a\nB\nc\nd\ne')).toEqual({ content: 'a\nB\nc\nd\ne', conflicts: 0 });
+  });
+
+  it('keeps both versions of overlapping edits between markers', () => {
+    const merged = mergeLines(base, 'a\nmine\nc\nd\ne', 'a\ntheirs\nc\nd\ne', { mine: 'Yours', theirs: 'On disk' });
+    expect(merged.conflicts).toBe(1);
+    expect(merged.content).toBe('a\n<<<<<<< Yours\nmine\n=======\ntheirs\n>>>>>>> On disk\nc\nd\ne');
+  });
+});
@@ -0,0 +1,5 @@
+export interface DailyNoteSettings {
+  folder: string; // Vault-relative folder daily notes are created in, '' for the vault root
+  format: string; // Date format of the note path, e.g. "YYYY-MM-DD" or "YYYY/MM/YYYY-MM-DD"
+  template: string; // Vault path of the note new daily notes are copied from, '' for none
+}
@@ -0,0 +1,9 @@
+export interface NoteDraft {
+  key: string; // Vault path of the note, or a per-session key for notes that were never saved
+  vault: string; // Notes directory the draft belongs to
+  filename: string | null; // Saved filename, null for a new note
+  folderPath: string;
+  title: string;
+  content: string;
+  updatedAt: number;
+}
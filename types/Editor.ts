@@ -0,0 +1,24 @@
+export type FormattingAction =
+  | 'undo'
+  | 'redo'
+  | 'bold'
+  | 'italic'
+  | 'heading'
+  | 'bulletList'
+  | 'numberedList'
+  | 'task'
+  | 'indent'
+  | 'outdent'
+  | 'link'
+  | 'wikilink'
+  | 'code';
+
+export interface ToolbarSettings {
+  enabled: boolean;
+  actions: FormattingAction[]; // Buttons shown above the keyboard, in toolbar order
+}
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
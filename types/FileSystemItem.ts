@@ -1,9 +1,12 @@
+import { NoteProperties } from './Note';
+
 export interface FolderItem {
   name: string;
   type: 'folder';
   path: string;
   createdAt: Date;
   updatedAt: Date;
+  folderPath?: string; // Parent folder, set when folders from several places are listed together
 }
 
 export interface NoteItem {
@@ -13,6 +16,9 @@ export interface NoteItem {
   updatedAt: Date;
   filePath: string;
   type: 'note';
+  backlinkCount?: number;
+  properties?: NoteProperties;
+  folderPath?: string; // Set when notes from several folders are listed together
 }
 
 export type FileSystemItem = FolderItem | NoteItem;
@@ -22,4 +28,49 @@ export interface DirectoryContents {
   notes: NoteItem[];
   currentPath: string;
   parentPath: string | null;
-}
\ No newline at end of file
+}
+
+export interface DirectoryChanges {
+  notes: NoteItem[]; // Notes added or modified since the last poll
+  removedNotes: string[]; // Filenames of notes that are gone
+  folders: FolderItem[] | null; // The full folder list, only when it changed
+}
+
+export interface NoteLocation {
+  path: string;
+  filename: string;
+  folderPath: string;
+}
+
+export interface VaultFile extends NoteLocation {
+  uri: string;
+  modifiedAt: number;
+}
+
+export interface VaultWalkOptions {
+  folderPath?: string; // Folder to start from, the vault root by default
+  maxDepth?: number; // How many folder levels below the start to descend, unlimited by default
+  ignore?: (string | RegExp)[]; // File or folder names to skip, on top of hidden ones
+}
+
+export type SortField = 'name' | 'modified' | 'created';
+
+export interface SortOrder {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface DirectorySort {
+  folders: SortOrder;
+  notes: SortOrder;
+}
+
+export interface PinnedItem {
+  type: 'note' | 'folder';
+  path: string; // Vault-relative note path ("Projects/Plan.md") or folder path ("Projects/Archive")
+}
+
+export interface PinnedContents {
+  folders: FolderItem[];
+  notes: NoteItem[];
+}
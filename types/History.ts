@@ -0,0 +1,6 @@
+export interface NoteVersion {
+  id: string;
+  path: string; // Vault path of the note the version belongs to
+  savedAt: number;
+  size: number;
+}
@@ -0,0 +1,38 @@
+export interface Backlink {
+  path: string;
+  filename: string;
+  folderPath: string;
+  line: number;
+  context: string;
+}
+
+export interface LinkChange {
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface LinkRewrite {
+  path: string;
+  filename: string;
+  folderPath: string;
+  linkCount: number;
+  changes: LinkChange[];
+  originalContent: string;
+  content: string;
+}
+
+export interface NoteTitle {
+  path: string;
+  filename: string;
+  folderPath: string;
+  linkText: string; // Shortest wikilink target for the note: its name, or its path when the name isn't unique
+  aliases: string[];
+}
+
+export interface LinkSuggestion {
+  key: string;
+  label: string;
+  detail: string; // Folder, original name for an alias, or heading level
+  link: string; // Text placed between the [[ ]]
+}
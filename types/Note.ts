@@ -1,9 +1,18 @@
+export type PropertyValue = string | number | boolean | string[] | null;
+
+export type NoteProperties = Record<string, PropertyValue>;
+
+export type PropertyType = 'text' | 'number' | 'list' | 'tags' | 'date' | 'checkbox';
+
 export interface Note {
   filename: string;
   content: string;
   createdAt: Date;
   updatedAt: Date;
   filePath: string;
+  properties?: NoteProperties;
+  diskModifiedAt?: number; // File modification time in ms when the note was read, used to detect external edits
+  diskContent?: string; // Content of the file when it was read, the base that external edits are diffed from
 }
 
 export interface NotePreview {
@@ -12,4 +21,7 @@ export interface NotePreview {
   createdAt: Date;
   updatedAt: Date;
   filePath: string;
+  backlinkCount?: number;
+  properties?: NoteProperties;
+  folderPath?: string; // Set when notes from several folders are listed together
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+export interface SearchMatch {
+  start: number;
+  length: number;
+}
+
+export interface SearchResult {
+  path: string;
+  filename: string;
+  folderPath: string;
+  score: number;
+  line: number;
+  snippet: string;
+  matches: SearchMatch[];
+}
@@ -0,0 +1,12 @@
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface TaggedNote {
+  path: string;
+  filename: string;
+  folderPath: string;
+  line: number;
+  context: string;
+}
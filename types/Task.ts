@@ -0,0 +1,17 @@
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+
+export interface Task {
+  line: number;
+  raw: string;
+  text: string;
+  completed: boolean;
+  depth: number;
+  dueDate?: string; // YYYY-MM-DD
+  priority?: TaskPriority;
+}
+
+export interface VaultTask extends Task {
+  path: string;
+  filename: string;
+  folderPath: string;
+}
@@ -0,0 +1,9 @@
+export type TrashItemType = 'note' | 'folder';
+
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  name: string; // Note filename without extension, or folder name
+  originalPath: string; // Vault path of the note ("Folder/Note.md") or folder ("Folder/Sub")
+  deletedAt: number;
+}